@@ -0,0 +1,96 @@
+// src/jobs/accountDeletion.ts
+// Batched, resumable account deletion. Each queue message deletes one
+// batch of keys and re-enqueues itself until the account is gone.
+
+import type { User } from "../types.ts";
+import { getKV } from "../utils/kv.ts";
+import { accountKeys, deleteKeys } from "../utils/cascade.ts";
+import { enqueue, registerQueueHandler } from "./queue.ts";
+import type { QueueMessage } from "./queue.ts";
+
+const KEYS_PER_RUN = 500;
+const RECEIPT_TTL_MS = 30 * 24 * 60 * 60 * 1000; // keep finished jobs 30 days
+
+export interface AccountDeletionJob {
+  userId: string;
+  username: string;
+  status: "pending" | "done";
+  deletedKeys: number;
+  requestedAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+interface AccountDeleteMessage extends QueueMessage {
+  type: "account.delete";
+  userId: string;
+}
+
+/**
+ * Record the deletion request and start processing it
+ */
+export async function requestAccountDeletion(user: User): Promise<AccountDeletionJob> {
+  const now = new Date().toISOString();
+  const job: AccountDeletionJob = {
+    userId: user.id,
+    username: user.username,
+    status: "pending",
+    deletedKeys: 0,
+    requestedAt: now,
+    updatedAt: now,
+  };
+
+  await getKV().set(["account_deletion", user.id], job);
+  await enqueue({ type: "account.delete", userId: user.id } as AccountDeleteMessage);
+  return job;
+}
+
+/**
+ * Delete the next batch of an account's keys. Safe to run repeatedly:
+ * already deleted keys are simply no longer listed.
+ */
+export async function runAccountDeletion(userId: string): Promise<AccountDeletionJob | null> {
+  const kv = getKV();
+  const jobKey = ["account_deletion", userId];
+  const job = (await kv.get<AccountDeletionJob>(jobKey)).value;
+  if (!job || job.status === "done") return job;
+
+  const { deleted, done } = await deleteKeys(
+    accountKeys(job.userId, job.username),
+    KEYS_PER_RUN,
+  );
+  const now = new Date().toISOString();
+
+  const updated: AccountDeletionJob = {
+    ...job,
+    deletedKeys: job.deletedKeys + deleted,
+    updatedAt: now,
+    ...(done && { status: "done", completedAt: now }),
+  };
+
+  await kv.set(jobKey, updated, done ? { expireIn: RECEIPT_TTL_MS } : undefined);
+
+  if (!done) {
+    await enqueue({ type: "account.delete", userId } as AccountDeleteMessage);
+  }
+
+  return updated;
+}
+
+export function startAccountDeletionWorker() {
+  registerQueueHandler("account.delete", async (message) => {
+    await runAccountDeletion((message as AccountDeleteMessage).userId);
+  });
+
+  // Resume jobs whose queue message was lost (e.g. during a deploy)
+  (async () => {
+    const iter = getKV().list<AccountDeletionJob>({ prefix: ["account_deletion"] });
+    for await (const entry of iter) {
+      if (entry.value.status === "pending") {
+        await enqueue({ type: "account.delete", userId: entry.value.userId });
+      }
+    }
+  })().catch((err) => {
+    console.error("Failed to resume account deletions:", err);
+  });
+}
@@ -0,0 +1,79 @@
+// src/jobs/migrations.ts
+// One-off data migrations, run at startup. Each migration records a
+// ["migration", id] marker once it has finished so it only runs once.
+
+import { getKV } from "../utils/kv.ts";
+import { indexBoard, indexLog } from "../utils/search.ts";
+
+interface Migration {
+  id: string;
+  run: () => Promise<void>;
+}
+
+const migrations: Migration[] = [
+  {
+    // Public boards created before the public_board index existed
+    id: "public_board_index",
+    run: async () => {
+      const kv = getKV();
+      const iter = kv.list<{ id: string; userId: string; visibility: string }>({
+        prefix: ["board"],
+      });
+      for await (const entry of iter) {
+        if (entry.value.visibility === "public") {
+          await kv.set(["public_board", entry.value.id], entry.value.userId);
+        }
+      }
+    },
+  },
+  {
+    // Boards and logs written before the search index existed
+    id: "search_index",
+    run: async () => {
+      const kv = getKV();
+      for await (const entry of kv.list({ prefix: ["board"] })) {
+        const [, ownerId, boardId] = entry.key as [string, string, string];
+        await indexBoard(ownerId, boardId);
+
+        for await (const log of kv.list({ prefix: ["log", boardId] })) {
+          await indexLog(ownerId, boardId, log.key[2] as string);
+        }
+      }
+    },
+  },
+  {
+    // Notifications created before the notif_by_id index existed
+    id: "notification_index",
+    run: async () => {
+      const kv = getKV();
+      for await (const entry of kv.list({ prefix: ["notif"] })) {
+        const [, boardId, notifId] = entry.key as [string, string, string];
+        await kv.set(["notif_by_id", notifId], boardId);
+      }
+    },
+  },
+  {
+    // Logs written before the log_by_id index existed
+    id: "log_index",
+    run: async () => {
+      const kv = getKV();
+      for await (const entry of kv.list<{ id: string }>({ prefix: ["log"] })) {
+        const [, boardId, date] = entry.key as [string, string, string];
+        await kv.set(["log_by_id", entry.value.id], [boardId, date]);
+      }
+    },
+  },
+];
+
+export async function runMigrations() {
+  const kv = getKV();
+
+  for (const migration of migrations) {
+    const marker = ["migration", migration.id];
+    if ((await kv.get(marker)).value) continue;
+
+    await migration.run();
+    await kv.set(marker, { completedAt: new Date().toISOString() });
+    console.log(`✅ Migration ${migration.id} completed`);
+  }
+}
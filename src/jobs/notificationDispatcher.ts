@@ -0,0 +1,182 @@
+// src/jobs/notificationDispatcher.ts
+// Moves notifications through scheduled -> due -> delivered -> dismissed
+
+import type { Notification, NotificationStatus } from "../types.ts";
+import { getKV } from "../utils/kv.ts";
+import { getBoardAccess } from "../utils/access.ts";
+import { publishBoardEvent } from "../utils/events.ts";
+import { getNextOccurrence, parseRRule } from "../utils/rrule.ts";
+import { enqueue, registerQueueHandler } from "./queue.ts";
+import { dispatchWebhookEvent } from "./webhookDelivery.ts";
+import type { QueueMessage } from "./queue.ts";
+
+export const NOTIFICATION_STATUSES: NotificationStatus[] = [
+  "scheduled",
+  "due",
+  "delivered",
+  "dismissed",
+];
+
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+interface NotificationDueMessage extends QueueMessage {
+  type: "notification.due";
+  boardId: string;
+  notifId: string;
+  time: string;
+}
+
+/**
+ * Fill in dispatcher fields for notifications stored before they existed
+ */
+export function normalizeNotification(notif: Notification): Notification {
+  return {
+    ...notif,
+    status: notif.status ?? (notif.dismissed ? "dismissed" : "scheduled"),
+    attempts: notif.attempts ?? 0,
+  };
+}
+
+/**
+ * Enqueue a notification to fire at its `time`
+ */
+export async function scheduleNotification(notif: Notification, now = new Date()) {
+  const message: NotificationDueMessage = {
+    type: "notification.due",
+    boardId: notif.boardId,
+    notifId: notif.id,
+    time: notif.time,
+  };
+  await enqueue(message, new Date(notif.time).getTime() - now.getTime());
+}
+
+/**
+ * Build the next occurrence of a recurring notification once the current
+ * one has been delivered or dismissed. Missed occurrences are skipped.
+ * Returns null when the notification does not recur (any more).
+ */
+export function nextRecurrence(notif: Notification, now = new Date()): Notification | null {
+  if (!notif.rrule) return null;
+
+  const rule = parseRRule(notif.rrule);
+  const dtstart = new Date(notif.dtstart ?? notif.time);
+  const after = Math.max(new Date(notif.time).getTime(), now.getTime());
+  const next = getNextOccurrence(rule, dtstart, new Date(after));
+  if (!next) return null;
+
+  return {
+    ...notif,
+    time: next.time.toISOString(),
+    occurrence: next.index,
+    dismissed: false,
+    status: "scheduled",
+    attempts: 0,
+    dueAt: undefined,
+    deliveredAt: undefined,
+    dismissedAt: undefined,
+  };
+}
+
+/**
+ * Mark a scheduled notification as due. Stale messages (notification
+ * deleted, rescheduled or already handled) are ignored. Notifications of
+ * boards in the trash stay scheduled; the sweep fires them if the board
+ * is restored.
+ */
+export async function markNotificationDue(
+  boardId: string,
+  notifId: string,
+  time: string,
+  now = new Date(),
+): Promise<Notification | null> {
+  const kv = getKV();
+  const key = ["notif", boardId, notifId];
+  const entry = await kv.get<Notification>(key);
+  if (!entry.value) return null;
+
+  const notif = normalizeNotification(entry.value);
+  if (notif.status !== "scheduled" || notif.time !== time) return null;
+
+  // Queue delays are capped, so far-future notifications hop until due
+  const remaining = new Date(notif.time).getTime() - now.getTime();
+  if (remaining > 1000) {
+    await scheduleNotification(notif, now);
+    return null;
+  }
+
+  const access = await getBoardAccess(notif.userId, boardId, { trashed: true });
+  if (access?.board.deletedAt) return null;
+
+  const updated: Notification = {
+    ...notif,
+    status: "due",
+    attempts: notif.attempts + 1,
+    dueAt: now.toISOString(),
+  };
+
+  const result = await kv.atomic().check(entry).set(key, updated).commit();
+  if (!result.ok) return null;
+
+  await publishBoardEvent(boardId, "notification.due", updated);
+  await dispatchWebhookEvent(boardId, "notification.due", updated);
+  return updated;
+}
+
+/**
+ * Catch up on notifications whose queue message was lost, and schedule
+ * records created before the dispatcher existed
+ */
+export async function sweepDueNotifications(now = new Date()): Promise<number> {
+  let count = 0;
+  const iter = getKV().list<Notification>({ prefix: ["notif"] });
+
+  for await (const entry of iter) {
+    const notif = normalizeNotification(entry.value);
+    if (notif.status !== "scheduled") continue;
+
+    if (new Date(notif.time).getTime() > now.getTime()) {
+      // Records from before the dispatcher never had a message enqueued
+      if (entry.value.status === undefined) {
+        await getKV().set(entry.key, notif);
+        await scheduleNotification(notif, now);
+      }
+      continue;
+    }
+
+    if (await markNotificationDue(notif.boardId, notif.id, notif.time, now)) {
+      count++;
+    }
+  }
+
+  return count;
+}
+
+/**
+ * Start the dispatcher: handle queued notifications and sweep for missed
+ * ones at startup and every few minutes after. Uses Deno.cron when
+ * available (Deno Deploy), otherwise falls back to a local interval timer.
+ */
+export function startNotificationDispatcher() {
+  registerQueueHandler("notification.due", async (message) => {
+    const { boardId, notifId, time } = message as NotificationDueMessage;
+    await markNotificationDue(boardId, notifId, time);
+  });
+
+  const sweep = async () => {
+    try {
+      const count = await sweepDueNotifications();
+      if (count > 0) {
+        console.log(`🔔 ${count} overdue notification(s) marked due`);
+      }
+    } catch (err) {
+      console.error("Notification sweep failed:", err);
+    }
+  };
+
+  sweep();
+  if (typeof Deno.cron === "function") {
+    Deno.cron("notification-sweep", "*/5 * * * *", sweep);
+  } else {
+    setInterval(sweep, SWEEP_INTERVAL_MS);
+  }
+}
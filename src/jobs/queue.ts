@@ -0,0 +1,41 @@
+// src/jobs/queue.ts
+// Shared Deno KV queue. Deno only allows one listenQueue handler per
+// database, so every background job registers a message type here.
+
+import { getKV } from "../utils/kv.ts";
+
+export interface QueueMessage {
+  type: string;
+  [key: string]: unknown;
+}
+
+type QueueHandler = (message: QueueMessage) => Promise<void>;
+
+// Deno KV rejects delays longer than 30 days
+export const MAX_QUEUE_DELAY_MS = 30 * 24 * 60 * 60 * 1000;
+
+const handlers = new Map<string, QueueHandler>();
+
+export function registerQueueHandler(type: string, handler: QueueHandler) {
+  handlers.set(type, handler);
+}
+
+export async function enqueue(message: QueueMessage, delayMs = 0) {
+  const delay = Math.min(Math.max(0, Math.floor(delayMs)), MAX_QUEUE_DELAY_MS);
+  await getKV().enqueue(message, { delay });
+}
+
+/**
+ * Start listening for queued messages. Handlers that throw are retried
+ * by Deno KV with its default backoff.
+ */
+export function startQueueListener() {
+  getKV().listenQueue(async (message: QueueMessage) => {
+    const handler = handlers.get(message?.type);
+    if (!handler) {
+      console.warn("Unknown queue message:", message);
+      return;
+    }
+    await handler(message);
+  });
+}
@@ -0,0 +1,105 @@
+// src/jobs/resetScheduler.ts
+// Background job that resets boards according to Board.schedule / resetTime
+
+import type { Board, Log, LogAction } from "../types.ts";
+import { clearPublicBoardCache, getKV } from "../utils/kv.ts";
+import { generateId } from "../utils/crypto.ts";
+import { uncheckAllTasks } from "../utils/markdown.ts";
+import { getPendingReset } from "../utils/schedule.ts";
+
+const TICK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Reset a single board at the given reset instant.
+ * Uses an atomic check so concurrent isolates never reset twice.
+ */
+export async function resetBoard(
+  entry: Deno.KvEntry<Board>,
+  resetAt: Date,
+): Promise<boolean> {
+  const kv = getKV();
+  const board = entry.value;
+  const time = resetAt.toISOString();
+  const date = time.split("T")[0];
+
+  const logKey = ["log", board.id, date];
+  const logEntry = await kv.get<Log>(logKey);
+
+  const action: LogAction = { type: "reset", time };
+  const log: Log = logEntry.value
+    ? { ...logEntry.value, actions: [...logEntry.value.actions, action] }
+    : {
+      id: generateId(),
+      boardId: board.id,
+      userId: board.userId,
+      date,
+      completedAt: time,
+      actions: [action],
+    };
+
+  // Unchecking tasks changes no words, so the search index stays valid
+  const updatedBoard: Board = {
+    ...board,
+    markdown: uncheckAllTasks(board.markdown),
+    lastResetAt: time,
+    updatedAt: time,
+  };
+
+  const result = await kv.atomic()
+    .check(entry)
+    .check(logEntry)
+    .set(entry.key, updatedBoard)
+    .set(logKey, log)
+    .set(["log_by_id", log.id], [board.id, date])
+    .commit();
+
+  if (result.ok) clearPublicBoardCache(board, updatedBoard);
+  return result.ok;
+}
+
+/**
+ * Run one scheduler pass over every board.
+ * `now` is injectable so schedules can be tested deterministically.
+ */
+export async function runResetTick(now: Date = new Date()): Promise<number> {
+  let count = 0;
+  const iter = getKV().list<Board>({ prefix: ["board"] });
+
+  for await (const entry of iter) {
+    if (entry.value.deletedAt) continue; // in the trash
+
+    const resetAt = getPendingReset(entry.value, now);
+    if (!resetAt) continue;
+
+    try {
+      if (await resetBoard(entry, resetAt)) count++;
+    } catch (err) {
+      console.error(`Failed to reset board ${entry.value.id}:`, err);
+    }
+  }
+
+  return count;
+}
+
+/**
+ * Start the scheduler. Uses Deno.cron when available (Deno Deploy),
+ * otherwise falls back to a local interval timer.
+ */
+export function startResetScheduler() {
+  const tick = async () => {
+    try {
+      const count = await runResetTick();
+      if (count > 0) {
+        console.log(`🔄 Reset ${count} board(s)`);
+      }
+    } catch (err) {
+      console.error("Reset scheduler failed:", err);
+    }
+  };
+
+  if (typeof Deno.cron === "function") {
+    Deno.cron("board-reset", "* * * * *", tick);
+  } else {
+    setInterval(tick, TICK_INTERVAL_MS);
+  }
+}
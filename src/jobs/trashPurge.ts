@@ -0,0 +1,88 @@
+// src/jobs/trashPurge.ts
+// Background job that permanently deletes boards whose time in the trash
+// is over, together with everything hanging off them
+
+import type { Board } from "../types.ts";
+import { getKV } from "../utils/kv.ts";
+import { boardKeys, deleteKeys } from "../utils/cascade.ts";
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const TRASH_RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+const TICK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * When a board in the trash will be purged
+ */
+export function getPurgeAt(board: Pick<Board, "deletedAt">): string | null {
+  if (!board.deletedAt) return null;
+  return new Date(new Date(board.deletedAt).getTime() + TRASH_RETENTION_MS).toISOString();
+}
+
+/**
+ * Delete a board with its logs, notifications, members, revisions and
+ * indexes. The board is claimed first (purgingAt) while it is still in the
+ * trash, so a restore that wins the race keeps the board and one that
+ * comes later is refused. A claimed board whose purge was interrupted is
+ * finished by the next run.
+ */
+export async function purgeBoard(ownerId: string, boardId: string): Promise<boolean> {
+  const kv = getKV();
+  const entry = await kv.get<Board>(["board", ownerId, boardId]);
+  if (!entry.value?.deletedAt) return false;
+
+  if (!entry.value.purgingAt) {
+    const claimed: Board = { ...entry.value, purgingAt: new Date().toISOString() };
+    const result = await kv.atomic().check(entry).set(entry.key, claimed).commit();
+    if (!result.ok) return false;
+  }
+
+  await deleteKeys(boardKeys(entry.value));
+  await kv.delete(entry.key);
+  return true;
+}
+
+/**
+ * Run one purge pass over every board.
+ * `now` is injectable so retention can be tested deterministically.
+ */
+export async function runPurgeTick(now: Date = new Date()): Promise<number> {
+  let count = 0;
+  const iter = getKV().list<Board>({ prefix: ["board"] });
+
+  for await (const entry of iter) {
+    const purgeAt = getPurgeAt(entry.value);
+    if (!purgeAt || new Date(purgeAt) > now) continue;
+
+    try {
+      if (await purgeBoard(entry.key[1] as string, entry.value.id)) count++;
+    } catch (err) {
+      console.error(`Failed to purge board ${entry.value.id}:`, err);
+    }
+  }
+
+  return count;
+}
+
+/**
+ * Start the purge job. Uses Deno.cron when available (Deno Deploy),
+ * otherwise falls back to a local interval timer.
+ */
+export function startTrashPurge() {
+  const tick = async () => {
+    try {
+      const count = await runPurgeTick();
+      if (count > 0) {
+        console.log(`🗑️ Purged ${count} board(s) from the trash`);
+      }
+    } catch (err) {
+      console.error("Trash purge failed:", err);
+    }
+  };
+
+  if (typeof Deno.cron === "function") {
+    Deno.cron("trash-purge", "0 * * * *", tick);
+  } else {
+    setInterval(tick, TICK_INTERVAL_MS);
+  }
+}
@@ -0,0 +1,250 @@
+// src/jobs/webhookDelivery.ts
+// Sends webhook deliveries through the KV queue: signed POST requests,
+// retried with exponential backoff, logged per webhook. Webhooks whose
+// deliveries keep failing are disabled.
+
+import type { Webhook, WebhookDelivery, WebhookEvent } from "../types.ts";
+import { getKV } from "../utils/kv.ts";
+import { generateId } from "../utils/crypto.ts";
+import {
+  checkWebhookTarget,
+  createDelivery,
+  deliveryExpireIn,
+  deliveryKey,
+  getWebhook,
+  getWebhooksByBoardId,
+  signWebhookPayload,
+  updateWebhook,
+} from "../utils/webhooks.ts";
+import { enqueue, registerQueueHandler } from "./queue.ts";
+import type { QueueMessage } from "./queue.ts";
+
+export const MAX_DELIVERY_ATTEMPTS = 6;
+export const RETRY_BASE_DELAY_MS = 30 * 1000; // 30s, 1m, 2m, 4m, 8m
+export const DISABLE_AFTER_FAILED_DELIVERIES = 5;
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+// Only the start of a response body is kept in the delivery log
+const MAX_ERROR_LENGTH = 500;
+
+interface WebhookDeliveryMessage extends QueueMessage {
+  type: "webhook.deliver";
+  boardId: string;
+  webhookId: string;
+  deliveryId: string;
+  createdAt: string;
+  attempt: number; // attempts made before this one
+}
+
+interface AttemptResult {
+  ok: boolean;
+  responseStatus?: number;
+  error?: string;
+  durationMs: number;
+}
+
+async function enqueueAttempt(webhook: Webhook, delivery: WebhookDelivery, delayMs = 0) {
+  const message: WebhookDeliveryMessage = {
+    type: "webhook.deliver",
+    boardId: webhook.boardId,
+    webhookId: webhook.id,
+    deliveryId: delivery.id,
+    createdAt: delivery.createdAt,
+    attempt: delivery.attempts,
+  };
+  await enqueue(message, delayMs);
+}
+
+/**
+ * Log a delivery of `event` to one webhook and queue it
+ */
+export async function queueWebhookDelivery(
+  webhook: Webhook,
+  event: WebhookEvent,
+  data: unknown,
+): Promise<WebhookDelivery> {
+  const id = generateId();
+  const payload = JSON.stringify({
+    id,
+    event,
+    boardId: webhook.boardId,
+    webhookId: webhook.id,
+    createdAt: new Date().toISOString(),
+    data,
+  });
+
+  const delivery = await createDelivery(webhook.id, event, payload, id);
+  await enqueueAttempt(webhook, delivery);
+  return delivery;
+}
+
+/**
+ * Queue `event` for every active webhook of the board subscribed to it.
+ * Never fails the request that caused the event: errors are logged.
+ */
+export async function dispatchWebhookEvent(boardId: string, event: WebhookEvent, data: unknown) {
+  try {
+    const webhooks = await getWebhooksByBoardId(boardId);
+    for (const webhook of webhooks) {
+      if (webhook.active && webhook.events.includes(event)) {
+        await queueWebhookDelivery(webhook, event, data);
+      }
+    }
+  } catch (err) {
+    console.error(`Failed to queue webhook event ${event} for board ${boardId}:`, err);
+  }
+}
+
+async function attemptDelivery(
+  webhook: Webhook,
+  delivery: WebhookDelivery,
+): Promise<AttemptResult> {
+  // The host may have been re-pointed since the webhook was saved
+  const refused = await checkWebhookTarget(webhook.url);
+  if (refused) {
+    return { ok: false, error: `Delivery refused: URL ${refused}`, durationMs: 0 };
+  }
+
+  // Signed per attempt, so the timestamp is always the time of sending
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = await signWebhookPayload(webhook.secret, timestamp, delivery.payload);
+  const start = performance.now();
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "MarkDash-Webhooks/1.0",
+        "X-MarkDash-Event": delivery.event,
+        "X-MarkDash-Delivery": delivery.id,
+        "X-MarkDash-Timestamp": String(timestamp),
+        "X-MarkDash-Signature": `sha256=${signature}`,
+      },
+      body: delivery.payload,
+      // A redirect could point anywhere, including local addresses
+      redirect: "manual",
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    const durationMs = Math.round(performance.now() - start);
+
+    if (response.ok) {
+      await response.body?.cancel();
+      return { ok: true, responseStatus: response.status, durationMs };
+    }
+
+    const text = (await response.text()).slice(0, MAX_ERROR_LENGTH);
+    return {
+      ok: false,
+      responseStatus: response.status,
+      error: text || response.statusText || `HTTP ${response.status}`,
+      durationMs,
+    };
+  } catch (err) {
+    return {
+      ok: false,
+      error: err instanceof DOMException && err.name === "TimeoutError"
+        ? `No response within ${DELIVERY_TIMEOUT_MS / 1000} seconds`
+        : String(err instanceof Error ? err.message : err),
+      durationMs: Math.round(performance.now() - start),
+    };
+  }
+}
+
+// A successful delivery resets the failure count, one that ran out of
+// retries adds to it and may disable the webhook
+async function recordDeliveryOutcome(webhook: Webhook, succeeded: boolean) {
+  const now = new Date().toISOString();
+  const updated = await updateWebhook(webhook.boardId, webhook.id, (current) => {
+    if (succeeded) {
+      return { ...current, failedDeliveries: 0, lastDeliveryAt: now };
+    }
+
+    const failedDeliveries = current.failedDeliveries + 1;
+    const disable = current.active && failedDeliveries >= DISABLE_AFTER_FAILED_DELIVERIES;
+    return {
+      ...current,
+      failedDeliveries,
+      lastDeliveryAt: now,
+      ...(disable && { active: false, disabledAt: now, updatedAt: now }),
+    };
+  });
+
+  if (updated?.disabledAt === now) {
+    console.warn(
+      `Webhook ${webhook.id} of board ${webhook.boardId} disabled after ` +
+        `${updated.failedDeliveries} failed deliveries`,
+    );
+  }
+}
+
+/**
+ * Make one delivery attempt and record it. Duplicate or stale queue
+ * messages (the attempt was already made) are ignored.
+ */
+export async function deliverWebhook(message: WebhookDeliveryMessage) {
+  const kv = getKV();
+  const key = deliveryKey({
+    webhookId: message.webhookId,
+    createdAt: message.createdAt,
+    id: message.deliveryId,
+  });
+  const entry = await kv.get<WebhookDelivery>(key);
+  const delivery = entry.value;
+  if (!delivery || delivery.status !== "pending" || delivery.attempts !== message.attempt) return;
+
+  const save = async (update: Partial<WebhookDelivery>) => {
+    const next: WebhookDelivery = { ...delivery, ...update, updatedAt: new Date().toISOString() };
+    if (next.status !== "pending") delete next.nextAttemptAt;
+    const result = await kv.atomic()
+      .check(entry)
+      .set(key, next, { expireIn: deliveryExpireIn(delivery) })
+      .commit();
+    return result.ok ? next : null;
+  };
+
+  const webhook = await getWebhook(message.boardId, message.webhookId);
+  if (!webhook || !webhook.active) {
+    await save({ status: "failed", error: "Webhook was disabled or deleted" });
+    return;
+  }
+
+  const result = await attemptDelivery(webhook, delivery);
+  const attempts = delivery.attempts + 1;
+  const outcome = {
+    attempts,
+    responseStatus: result.responseStatus,
+    error: result.error,
+    durationMs: result.durationMs,
+  };
+
+  if (result.ok) {
+    if (await save({ ...outcome, status: "succeeded" })) {
+      await recordDeliveryOutcome(webhook, true);
+    }
+    return;
+  }
+
+  if (attempts < MAX_DELIVERY_ATTEMPTS) {
+    const delayMs = RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+    const saved = await save({
+      ...outcome,
+      status: "pending",
+      nextAttemptAt: new Date(Date.now() + delayMs).toISOString(),
+    });
+    if (saved) {
+      await enqueueAttempt(webhook, saved, delayMs);
+    }
+    return;
+  }
+
+  if (await save({ ...outcome, status: "failed" })) {
+    await recordDeliveryOutcome(webhook, false);
+  }
+}
+
+export function startWebhookDelivery() {
+  registerQueueHandler("webhook.deliver", async (message) => {
+    await deliverWebhook(message as WebhookDeliveryMessage);
+  });
+}
@@ -0,0 +1,153 @@
+// src/jobs/webhookDelivery_test.ts
+import { assert, assertEquals, assertExists, assertFalse } from "@std/assert";
+import type { Webhook, WebhookDelivery } from "../types.ts";
+
+// Read when webhooks.ts is loaded; the receiver below listens on 127.0.0.1
+Deno.env.set("WEBHOOK_ALLOW_LOCAL", "true");
+const { getKV, initKV } = await import("../utils/kv.ts");
+const { createWebhook, deliveryKey, getWebhook, signWebhookPayload } = await import(
+  "../utils/webhooks.ts"
+);
+const {
+  deliverWebhook,
+  DISABLE_AFTER_FAILED_DELIVERIES,
+  MAX_DELIVERY_ATTEMPTS,
+  queueWebhookDelivery,
+  RETRY_BASE_DELAY_MS,
+} = await import("./webhookDelivery.ts");
+Deno.env.delete("WEBHOOK_ALLOW_LOCAL");
+
+interface Received {
+  headers: Headers;
+  body: string;
+}
+
+// Starts a receiver answering with `status()`; the test body runs with the
+// webhook pointed at it
+function withReceiver(
+  status: () => number,
+  fn: (webhook: Webhook, received: Received[]) => Promise<void>,
+) {
+  return async () => {
+    const received: Received[] = [];
+    const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen() {} }, async (req) => {
+      received.push({ headers: req.headers, body: await req.text() });
+      return new Response(null, { status: status() });
+    });
+    await initKV(":memory:");
+
+    try {
+      const webhook = await createWebhook("board-1", "user-1", {
+        url: `http://127.0.0.1:${server.addr.port}/hook`,
+        events: ["board.updated"],
+      });
+      await fn(webhook, received);
+    } finally {
+      getKV().close();
+      await server.shutdown();
+    }
+  };
+}
+
+async function getDelivery(delivery: WebhookDelivery) {
+  return (await getKV().get<WebhookDelivery>(deliveryKey(delivery))).value!;
+}
+
+// Run the attempt the queue would deliver next
+async function deliverNext(webhook: Webhook, delivery: WebhookDelivery) {
+  const current = await getDelivery(delivery);
+  await deliverWebhook({
+    type: "webhook.deliver",
+    boardId: webhook.boardId,
+    webhookId: webhook.id,
+    deliveryId: delivery.id,
+    createdAt: delivery.createdAt,
+    attempt: current.attempts,
+  });
+}
+
+Deno.test(
+  "deliverWebhook sends a signed request",
+  withReceiver(() => 204, async (webhook, received) => {
+    const delivery = await queueWebhookDelivery(webhook, "board.updated", { title: "Daily" });
+    await deliverNext(webhook, delivery);
+
+    assertEquals(received.length, 1);
+    const { headers, body } = received[0];
+    assertEquals(body, delivery.payload);
+    assertEquals(headers.get("x-markdash-event"), "board.updated");
+    assertEquals(headers.get("x-markdash-delivery"), delivery.id);
+    const timestamp = Number(headers.get("x-markdash-timestamp"));
+    assertEquals(
+      headers.get("x-markdash-signature"),
+      `sha256=${await signWebhookPayload(webhook.secret, timestamp, body)}`,
+    );
+
+    const saved = await getDelivery(delivery);
+    assertEquals(saved.status, "succeeded");
+    assertEquals(saved.attempts, 1);
+    assertEquals(saved.responseStatus, 204);
+  }),
+);
+
+Deno.test(
+  "deliverWebhook retries failed attempts with exponential backoff",
+  withReceiver(() => 500, async (webhook, received) => {
+    const delivery = await queueWebhookDelivery(webhook, "board.updated", {});
+
+    for (let attempt = 1; attempt < MAX_DELIVERY_ATTEMPTS; attempt++) {
+      const before = Date.now();
+      await deliverNext(webhook, delivery);
+
+      const saved = await getDelivery(delivery);
+      assertEquals(saved.status, "pending");
+      assertEquals(saved.attempts, attempt);
+      assertEquals(saved.responseStatus, 500);
+      const delayMs = new Date(saved.nextAttemptAt!).getTime() - before;
+      const expected = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+      assert(delayMs >= expected && delayMs < expected + 1000, `delay ${delayMs}ms`);
+    }
+
+    // A duplicate of an attempt that was already made is ignored
+    await deliverWebhook({
+      type: "webhook.deliver",
+      boardId: webhook.boardId,
+      webhookId: webhook.id,
+      deliveryId: delivery.id,
+      createdAt: delivery.createdAt,
+      attempt: 0,
+    });
+    assertEquals(received.length, MAX_DELIVERY_ATTEMPTS - 1);
+
+    await deliverNext(webhook, delivery);
+    const saved = await getDelivery(delivery);
+    assertEquals(saved.status, "failed");
+    assertEquals(saved.attempts, MAX_DELIVERY_ATTEMPTS);
+    assertEquals(saved.nextAttemptAt, undefined);
+    assertEquals((await getWebhook(webhook.boardId, webhook.id))?.failedDeliveries, 1);
+  }),
+);
+
+Deno.test(
+  "deliverWebhook disables a webhook whose deliveries keep failing",
+  withReceiver(() => 503, async (webhook) => {
+    for (let i = 0; i < DISABLE_AFTER_FAILED_DELIVERIES; i++) {
+      const delivery = await queueWebhookDelivery(webhook, "board.updated", {});
+      for (let attempt = 0; attempt < MAX_DELIVERY_ATTEMPTS; attempt++) {
+        await deliverNext(webhook, delivery);
+      }
+    }
+
+    const disabled = await getWebhook(webhook.boardId, webhook.id);
+    assertFalse(disabled?.active);
+    assertExists(disabled?.disabledAt);
+    assertEquals(disabled?.failedDeliveries, DISABLE_AFTER_FAILED_DELIVERIES);
+
+    // Deliveries still queued for it fail without a request
+    const delivery = await queueWebhookDelivery(webhook, "board.updated", {});
+    await deliverNext(webhook, delivery);
+    const saved = await getDelivery(delivery);
+    assertEquals(saved.status, "failed");
+    assertEquals(saved.error, "Webhook was disabled or deleted");
+  }),
+);
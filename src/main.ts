@@ -2,11 +2,32 @@
 import { Application } from "https://deno.land/x/oak@v12.6.1/mod.ts";
 import { oakCors } from "https://deno.land/x/cors@v1.2.2/mod.ts";
 import { initKV } from "./utils/kv.ts";
+import { setRemoteAddr } from "./utils/clientIp.ts";
 import authRouter from "./routes/auth.ts";
 import boardsRouter from "./routes/boards.ts";
 import logsRouter from "./routes/logs.ts";
 import notifyRouter from "./routes/notify.ts";
 import exportRouter from "./routes/export.ts";
+import eventsRouter from "./routes/events.ts";
+import membersRouter from "./routes/members.ts";
+import sessionsRouter from "./routes/sessions.ts";
+import accountRouter from "./routes/account.ts";
+import twoFactorRouter from "./routes/twoFactor.ts";
+import statsRouter from "./routes/stats.ts";
+import revisionsRouter from "./routes/revisions.ts";
+import searchRouter from "./routes/search.ts";
+import templatesRouter from "./routes/templates.ts";
+import trashRouter from "./routes/trash.ts";
+import tokensRouter from "./routes/tokens.ts";
+import webhooksRouter from "./routes/webhooks.ts";
+import { createDocsRouter } from "./routes/docs.ts";
+import { startResetScheduler } from "./jobs/resetScheduler.ts";
+import { startNotificationDispatcher } from "./jobs/notificationDispatcher.ts";
+import { startAccountDeletionWorker } from "./jobs/accountDeletion.ts";
+import { startTrashPurge } from "./jobs/trashPurge.ts";
+import { startWebhookDelivery } from "./jobs/webhookDelivery.ts";
+import { startQueueListener } from "./jobs/queue.ts";
+import { runMigrations } from "./jobs/migrations.ts";
 
 // Security & Performance Middleware
 import {
@@ -20,16 +41,29 @@ import {
 import {
   cacheMiddleware,
   compressionHint,
+  requestId,
   timeoutMiddleware,
   performanceMonitor,
   etagMiddleware,
   keepAliveMiddleware,
 } from "./middleware/performanceMiddleware.ts";
 
+const API_VERSION = "1.0.0";
+
 // Initialize Deno KV
 await initKV();
 console.log("✅ Deno KV initialized");
 
+await runMigrations();
+
+// Background jobs
+startResetScheduler();
+startNotificationDispatcher();
+startAccountDeletionWorker();
+startTrashPurge();
+startWebhookDelivery();
+startQueueListener();
+
 const app = new Application();
 
 // Get port from environment
@@ -39,11 +73,23 @@ const isDevelopment = Deno.env.get("DENO_DEPLOYMENT_ID") === undefined;
 console.log(`Environment: ${isDevelopment ? "development" : "production"}`);
 console.log(`Port: ${PORT}`);
 
+// Request ID first, so every response (errors included) carries one
+app.use(requestId());
+
 // CORS middleware
 app.use(oakCors({
   origin: "*",
   methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
-  allowedHeaders: ["Content-Type", "Authorization"],
+  allowedHeaders: ["Content-Type", "Authorization", "If-Match", "If-None-Match"],
+  exposedHeaders: [
+    "ETag",
+    "RateLimit-Limit",
+    "RateLimit-Remaining",
+    "RateLimit-Reset",
+    "RateLimit-Policy",
+    "Retry-After",
+    "X-Request-Id",
+  ],
 }));
 
 // Security Middleware (Applied to all routes)
@@ -51,8 +97,10 @@ app.use(securityHeaders()); // Add security headers
 app.use(requestValidator()); // Validate request patterns
 app.use(requestSizeLimiter(5 * 1024 * 1024)); // Max 5MB request body
 app.use(rateLimitMiddleware({ // General rate limiting
+  name: "global",
   windowMs: 15 * 60 * 1000, // 15 minutes
   maxRequests: 100, // 100 requests per window
+  by: "user", // per user when signed in, per IP otherwise
 }));
 
 // Performance Middleware (Applied to all routes)
@@ -88,12 +136,13 @@ app.use(async (ctx, next) => {
   try {
     await next();
   } catch (err) {
-    console.error("Error:", err);
+    console.error(`Error (request ${ctx.state.requestId}):`, err);
     ctx.response.status = 500;
     ctx.response.body = {
       success: false,
       error: "Internal server error",
       message: isDevelopment ? err.message : "An error occurred",
+      requestId: ctx.state.requestId,
     };
   }
 });
@@ -114,6 +163,15 @@ app.use(async (ctx, next) => {
 app.use(authRouter.routes());
 app.use(authRouter.allowedMethods());
 
+app.use(sessionsRouter.routes());
+app.use(sessionsRouter.allowedMethods());
+
+app.use(accountRouter.routes());
+app.use(accountRouter.allowedMethods());
+
+app.use(twoFactorRouter.routes());
+app.use(twoFactorRouter.allowedMethods());
+
 app.use(boardsRouter.routes());
 app.use(boardsRouter.allowedMethods());
 
@@ -126,6 +184,61 @@ app.use(notifyRouter.allowedMethods());
 app.use(exportRouter.routes());
 app.use(exportRouter.allowedMethods());
 
+app.use(eventsRouter.routes());
+app.use(eventsRouter.allowedMethods());
+
+app.use(membersRouter.routes());
+app.use(membersRouter.allowedMethods());
+
+app.use(statsRouter.routes());
+app.use(statsRouter.allowedMethods());
+
+app.use(revisionsRouter.routes());
+app.use(revisionsRouter.allowedMethods());
+
+app.use(searchRouter.routes());
+app.use(searchRouter.allowedMethods());
+
+app.use(templatesRouter.routes());
+app.use(templatesRouter.allowedMethods());
+
+app.use(trashRouter.routes());
+app.use(trashRouter.allowedMethods());
+
+app.use(tokensRouter.routes());
+app.use(tokensRouter.allowedMethods());
+
+app.use(webhooksRouter.routes());
+app.use(webhooksRouter.allowedMethods());
+
+// GET /api (catalogue), /api/openapi.json and /api/docs, generated from
+// the route metadata of the routers above
+const docsRouter = createDocsRouter([
+  authRouter,
+  sessionsRouter,
+  accountRouter,
+  twoFactorRouter,
+  boardsRouter,
+  logsRouter,
+  notifyRouter,
+  exportRouter,
+  eventsRouter,
+  membersRouter,
+  statsRouter,
+  revisionsRouter,
+  searchRouter,
+  templatesRouter,
+  trashRouter,
+  tokensRouter,
+  webhooksRouter,
+], {
+  title: "MarkDash API",
+  version: API_VERSION,
+  description: "Markdown checklist boards with daily/weekly reset, logs and notifications.",
+});
+app.use(docsRouter.routes());
+app.use(docsRouter.allowedMethods());
+
 // Health check endpoint - MUST be last
 app.use((ctx) => {
   if (ctx.request.url.pathname === "/" || ctx.request.url.pathname === "/health") {
@@ -134,49 +247,10 @@ app.use((ctx) => {
     ctx.response.body = {
       status: "ok",
       message: "MarkDash API is running",
-      version: "1.0.0",
+      version: API_VERSION,
       environment: isDevelopment ? "development" : "production",
       timestamp: new Date().toISOString(),
     };
-  } else if (ctx.request.url.pathname === "/api") {
-    ctx.response.status = 200;
-    ctx.response.headers.set("Content-Type", "application/json");
-    ctx.response.body = {
-      status: "ok",
-      endpoints: {
-        auth: {
-          register: "POST /api/register",
-          login: "POST /api/login",
-          me: "GET /api/me",
-          logout: "POST /api/logout",
-        },
-        boards: {
-          list: "GET /api/boards",
-          get: "GET /api/boards/:id",
-          create: "POST /api/boards",
-          update: "PUT /api/boards/:id",
-          delete: "DELETE /api/boards/:id",
-          public: "GET /api/public/:boardId",
-        },
-        logs: {
-          list: "GET /api/logs/:boardId",
-          getByDate: "GET /api/logs/:boardId/:date",
-          create: "POST /api/logs",
-          delete: "DELETE /api/logs/:id",
-        },
-        notifications: {
-          list: "GET /api/notify/:boardId",
-          create: "POST /api/notify",
-          dismiss: "PATCH /api/notify/:id/dismiss",
-          delete: "DELETE /api/notify/:id",
-        },
-        export: {
-          markdown: "GET /api/export/:boardId/markdown",
-          csv: "GET /api/export/:boardId/csv",
-          json: "GET /api/export/all/json",
-        },
-      },
-    };
   } else {
     ctx.response.status = 404;
     ctx.response.headers.set("Content-Type", "application/json");
@@ -201,7 +275,8 @@ Deno.serve({
   onListen: ({ hostname, port }) => {
     console.log(`✅ Server listening on ${hostname}:${port}`);
   },
-}, async (request) => {
+}, async (request, info) => {
+  setRemoteAddr(request, info);
   // Use Oak's .handle() method with just the Request object
   const response = await app.handle(request);
   return response ?? new Response("Internal Server Error", { status: 500 });
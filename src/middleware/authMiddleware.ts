@@ -1,25 +1,164 @@
 // src/middleware/authMiddleware.ts
-import type { Context, Next } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import type {
+  Context,
+  Middleware,
+  Next,
+  RouterContext,
+} from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import type { ApiScope, ApiToken, StreamTicket, User } from "../types.ts";
 import { verifyToken } from "../utils/crypto.ts";
-import { unauthorized } from "../utils/response.ts";
+import { forbidden, unauthorized } from "../utils/response.ts";
+import { getApiToken, getSession, getUserById, isTokenIdDenied } from "../utils/kv.ts";
+import { hasScope, isApiToken, touchApiToken, verifyApiToken } from "../utils/apiTokens.ts";
+import { redeemStreamTicket } from "../utils/streamTickets.ts";
+
+// Scope each route requires from API tokens, keyed by its requireScope middleware
+const routeScopes = new WeakMap<object, ApiScope>();
+
+// EventSource and browser WebSockets cannot send headers, so streaming
+// requests may pass a one-time ?ticket= (see streamTickets.ts) instead
+function getStreamTicket(ctx: Context): string | null {
+  const isStream = ctx.isUpgradable ||
+    (ctx.request.headers.get("Accept") ?? "").includes("text/event-stream");
+  return isStream ? ctx.request.url.searchParams.get("ticket") : null;
+}
+
+/**
+ * Whether credentials accepted earlier still hold: the account exists and
+ * its session or API token has not ended. Long-lived streams re-check
+ * with this. A refresh does not end a stream opened with the previous
+ * access token, only the end of its session does.
+ */
+export async function hasValidCredentials(credentials: StreamTicket): Promise<boolean> {
+  const user = (await getUserById(credentials.userId)) as User | null;
+  if (!user || user.deletionRequestedAt) return false;
+
+  if (credentials.apiTokenId) {
+    const apiToken = (await getApiToken(credentials.userId, credentials.apiTokenId)) as
+      | ApiToken
+      | null;
+    return !!apiToken &&
+      (!apiToken.expiresAt || new Date(apiToken.expiresAt).getTime() > Date.now());
+  }
+
+  if (credentials.sessionId) {
+    return !!(await getSession(credentials.userId, credentials.sessionId));
+  }
+  return !credentials.tokenId || !(await isTokenIdDenied(credentials.tokenId));
+}
+
+/**
+ * The API token scope a route's middleware requires, if any
+ */
+export function getRouteScope(middleware: object[]): ApiScope | undefined {
+  return middleware.map((m) => routeScopes.get(m)).find(Boolean);
+}
+
+// API tokens only work on routes that declare a scope; account, session and
+// token management stay limited to logins
+function matchedRouteScope(ctx: Context): ApiScope | undefined {
+  const layer = (ctx as RouterContext<string>).matched?.find((layer) =>
+    layer.methods.includes(ctx.request.method) && layer.stack.includes(authMiddleware)
+  );
+  return layer && getRouteScope(layer.stack);
+}
+
+/**
+ * Require `scope` when the request is authenticated with an API token.
+ * Logins (JWTs) have every scope. Place it right after authMiddleware.
+ */
+export function requireScope(scope: ApiScope): Middleware {
+  const middleware: Middleware = async (ctx, next) => {
+    const scopes = ctx.state.tokenScopes as ApiScope[] | undefined;
+    if (scopes && !hasScope(scopes, scope)) {
+      return forbidden(ctx, `API token is missing the ${scope} scope`);
+    }
+    await next();
+  };
+  routeScopes.set(middleware, scope);
+  return middleware;
+}
+
+async function authenticateApiToken(ctx: Context, token: string, next: Next) {
+  const apiToken = await verifyApiToken(token);
+  if (!apiToken) {
+    return unauthorized(ctx, "Invalid or expired token");
+  }
+
+  if (!matchedRouteScope(ctx)) {
+    return forbidden(ctx, "API tokens cannot be used for this endpoint");
+  }
+
+  // The username is needed for revision authors and may have changed since
+  const user = (await getUserById(apiToken.userId)) as User | null;
+  if (!user || user.deletionRequestedAt) {
+    return unauthorized(ctx, "Invalid or expired token");
+  }
+
+  await touchApiToken(apiToken);
+
+  ctx.state.userId = apiToken.userId;
+  ctx.state.username = user.username;
+  ctx.state.apiTokenId = apiToken.id;
+  ctx.state.tokenScopes = apiToken.scopes;
+
+  await next();
+}
+
+async function authenticateStreamTicket(ctx: Context, secret: string, next: Next) {
+  const ticket = await redeemStreamTicket(secret);
+  if (!ticket || !(await hasValidCredentials(ticket))) {
+    return unauthorized(ctx, "Invalid or expired ticket");
+  }
+
+  ctx.state.userId = ticket.userId;
+  ctx.state.username = ticket.username;
+  ctx.state.sessionId = ticket.sessionId;
+  ctx.state.tokenId = ticket.tokenId;
+  ctx.state.apiTokenId = ticket.apiTokenId;
+  ctx.state.tokenScopes = ticket.tokenScopes;
+
+  await next();
+}
 
 export async function authMiddleware(ctx: Context, next: Next) {
   const authHeader = ctx.request.headers.get("Authorization");
 
   if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    const ticket = getStreamTicket(ctx);
+    if (ticket) {
+      return await authenticateStreamTicket(ctx, ticket, next);
+    }
     return unauthorized(ctx, "Missing or invalid authorization header");
   }
 
   const token = authHeader.substring(7);
+  if (isApiToken(token)) {
+    return await authenticateApiToken(ctx, token, next);
+  }
+
   const payload = await verifyToken(token);
 
   if (!payload) {
     return unauthorized(ctx, "Invalid or expired token");
   }
 
+  if (payload.jti && await isTokenIdDenied(payload.jti)) {
+    return unauthorized(ctx, "Token has been revoked");
+  }
+
+  // Every access token of a session stops working once the session ends
+  // (logout, revocation, password change), not only its latest one
+  if (payload.sid && !(await getSession(payload.userId, payload.sid))) {
+    return unauthorized(ctx, "Token has been revoked");
+  }
+
   // Add user info to context state
   ctx.state.userId = payload.userId;
   ctx.state.username = payload.username;
+  ctx.state.sessionId = payload.sid;
+  ctx.state.tokenId = payload.jti;
+  ctx.state.tokenExp = payload.exp;
 
   await next();
 }
@@ -0,0 +1,99 @@
+// src/middleware/authMiddleware_test.ts
+import { assertEquals } from "@std/assert";
+import { Application, Router } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import type { ApiScope } from "../types.ts";
+import { createApiToken } from "../utils/apiTokens.ts";
+import { generateToken } from "../utils/crypto.ts";
+import { getKV, initKV, setUser } from "../utils/kv.ts";
+import { authMiddleware, getRouteScope, requireScope } from "./authMiddleware.ts";
+
+const readBoards = requireScope("boards:read");
+
+const router = new Router();
+router.get("/boards", authMiddleware, readBoards, (ctx) => {
+  ctx.response.body = { userId: ctx.state.userId };
+});
+router.post("/boards", authMiddleware, requireScope("boards:write"), (ctx) => {
+  ctx.response.status = 201;
+});
+// Account management declares no scope, so only logins get in
+router.get("/me", authMiddleware, (ctx) => {
+  ctx.response.body = { userId: ctx.state.userId };
+});
+
+const app = new Application();
+app.use(router.routes());
+
+async function request(method: string, path: string, token?: string) {
+  const response = await app.handle(
+    new Request(`http://localhost${path}`, {
+      method,
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    }),
+  );
+  await response?.body?.cancel();
+  return response?.status;
+}
+
+function withUser(fn: () => Promise<void>) {
+  return async () => {
+    await initKV(":memory:");
+    try {
+      await setUser("u1", { id: "u1", username: "alice", passwordHash: "", createdAt: "" });
+      await fn();
+    } finally {
+      getKV().close();
+    }
+  };
+}
+
+async function apiToken(...scopes: ApiScope[]) {
+  return (await createApiToken("u1", { name: "test", scopes })).token;
+}
+
+Deno.test("requireScope registers the scope of its route", () => {
+  assertEquals(getRouteScope([authMiddleware, readBoards]), "boards:read");
+  assertEquals(getRouteScope([authMiddleware]), undefined);
+});
+
+Deno.test(
+  "API tokens need the route's scope",
+  withUser(async () => {
+    const reader = await apiToken("boards:read");
+    assertEquals(await request("GET", "/boards", reader), 200);
+    assertEquals(await request("POST", "/boards", reader), 403);
+
+    // Writing includes reading
+    const writer = await apiToken("boards:write");
+    assertEquals(await request("GET", "/boards", writer), 200);
+    assertEquals(await request("POST", "/boards", writer), 201);
+
+    assertEquals(await request("GET", "/boards", await apiToken("logs:write")), 403);
+  }),
+);
+
+Deno.test(
+  "API tokens are rejected on routes without a scope",
+  withUser(async () => {
+    const token = await apiToken("boards:write", "logs:write", "notify:write");
+    assertEquals(await request("GET", "/me", token), 403);
+  }),
+);
+
+Deno.test(
+  "logins have every scope",
+  withUser(async () => {
+    const { token } = await generateToken("u1", "alice");
+    assertEquals(await request("GET", "/me", token), 200);
+    assertEquals(await request("POST", "/boards", token), 201);
+  }),
+);
+
+Deno.test(
+  "missing, malformed and unknown tokens are unauthorized",
+  withUser(async () => {
+    assertEquals(await request("GET", "/boards"), 401);
+    assertEquals(await request("GET", "/boards", "not-a-jwt"), 401);
+    assertEquals(await request("GET", "/boards", "mdp_u1.unknown.secret"), 401);
+  }),
+);
@@ -116,6 +116,20 @@ export function timeoutMiddleware(timeoutMs = 30000) { // 30 seconds default
   };
 }
 
+/**
+ * Request ID Middleware
+ * Gives every request an ID (X-Request-Id) to find it in logs and the audit trail
+ */
+export function requestId() {
+  return async (ctx: Context, next: Next) => {
+    const id = crypto.randomUUID();
+    ctx.state.requestId = id;
+    ctx.response.headers.set("X-Request-Id", id);
+
+    await next();
+  };
+}
+
 /**
  * Performance Monitoring Middleware
  * Tracks request performance metrics
@@ -148,25 +162,35 @@ export function etagMiddleware() {
   return async (ctx: Context, next: Next) => {
     await next();
 
-    // Only add ETag for successful GET requests
-    if (ctx.request.method === "GET" && ctx.response.status === 200) {
-      const body = JSON.stringify(ctx.response.body);
-      
-      // Simple hash function for ETag
-      const hash = await crypto.subtle.digest(
-        "SHA-1",
-        new TextEncoder().encode(body)
-      );
-      const etag = Array.from(new Uint8Array(hash))
-        .map(b => b.toString(16).padStart(2, '0'))
-        .join('')
-        .substring(0, 16);
-
-      ctx.response.headers.set("ETag", `"${etag}"`);
+    // Only add ETag for successful GET requests (not event streams)
+    if (
+      ctx.request.method === "GET" && ctx.response.status === 200 &&
+      !(ctx.response.body instanceof ReadableStream)
+    ) {
+      // Routes may set their own ETag (e.g. board versions)
+      let etag = ctx.response.headers.get("ETag");
+
+      if (!etag) {
+        const body = JSON.stringify(ctx.response.body);
+
+        // Simple hash function for ETag
+        const hash = await crypto.subtle.digest(
+          "SHA-1",
+          new TextEncoder().encode(body)
+        );
+        etag = `"${
+          Array.from(new Uint8Array(hash))
+            .map(b => b.toString(16).padStart(2, '0'))
+            .join('')
+            .substring(0, 16)
+        }"`;
+
+        ctx.response.headers.set("ETag", etag);
+      }
 
       // Check If-None-Match header
       const ifNoneMatch = ctx.request.headers.get("If-None-Match");
-      if (ifNoneMatch === `"${etag}"`) {
+      if (ifNoneMatch === etag) {
         ctx.response.status = 304; // Not Modified
         ctx.response.body = null;
       }
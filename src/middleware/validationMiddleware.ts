@@ -0,0 +1,61 @@
+// src/middleware/validationMiddleware.ts
+import type { Context, Next } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import { validationError } from "../utils/response.ts";
+import { type Schema, validate } from "../utils/validation.ts";
+import { documentBody, documentQuery } from "../utils/openapi.ts";
+
+/**
+ * Parse the request body and check it against a schema. Responds 422
+ * with every field error, otherwise stores the cleaned body in
+ * ctx.state.body for the route handler.
+ */
+export function validateBody<T>(schema: Schema<T>) {
+  const middleware = async (ctx: Context, next: Next) => {
+    let input: unknown;
+
+    if (ctx.request.hasBody) {
+      try {
+        input = await ctx.request.body({ type: "json" }).value;
+      } catch {
+        return validationError(ctx, [{
+          path: "",
+          code: "invalid_json",
+          message: "Request body must be valid JSON",
+        }]);
+      }
+    }
+
+    const result = validate(schema, input);
+    if (!result.ok) {
+      return validationError(ctx, result.errors);
+    }
+
+    ctx.state.body = result.value;
+    await next();
+  };
+
+  documentBody(middleware, schema as Schema<unknown>);
+  return middleware;
+}
+
+/**
+ * Check the query string against an object schema. Responds 422 with
+ * every field error, otherwise stores the cleaned values in
+ * ctx.state.query. Repeated parameters use the last value.
+ */
+export function validateQuery<T>(schema: Schema<T>) {
+  const middleware = async (ctx: Context, next: Next) => {
+    const input = Object.fromEntries(ctx.request.url.searchParams);
+
+    const result = validate(schema, input);
+    if (!result.ok) {
+      return validationError(ctx, result.errors);
+    }
+
+    ctx.state.query = result.value;
+    await next();
+  };
+
+  documentQuery(middleware, schema as Schema<unknown>);
+  return middleware;
+}
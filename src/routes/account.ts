@@ -0,0 +1,304 @@
+// src/routes/account.ts
+// Account management: password change, username change, unlock, audit trail,
+// account deletion
+
+import { Router } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import type { BoardMember, User, UserSettings } from "../types.ts";
+import { hashPassword, verifyPassword } from "../utils/crypto.ts";
+import {
+  getBoardMember,
+  getMemberBoardOwner,
+  getSharedBoardRefs,
+  getUserById,
+  renameUser,
+  setBoardMember,
+  setUser,
+} from "../utils/kv.ts";
+import { error, noContent, notFound, success, validationError } from "../utils/response.ts";
+import { authMiddleware } from "../middleware/authMiddleware.ts";
+import { revokeAllSessions } from "../utils/session.ts";
+import { revokeAllApiTokens } from "../utils/apiTokens.ts";
+import { requestAccountDeletion } from "../jobs/accountDeletion.ts";
+import { resolveSettings } from "../utils/settings.ts";
+import { clearLoginFailures, unlockAccount } from "../utils/loginThrottle.ts";
+import { AUDIT_RETENTION_DAYS, getAuditPage, recordAudit } from "../utils/audit.ts";
+import { DEFAULT_PAGE_SIZE, InvalidCursorError } from "../utils/pagination.ts";
+import { validateBody, validateQuery } from "../middleware/validationMiddleware.ts";
+import { apiDoc } from "../utils/openapi.ts";
+import {
+  accountDeletionModel,
+  auditPageModel,
+  type ChangePasswordInput,
+  changePasswordSchema,
+  changeUsernameSchema,
+  deleteAccountSchema,
+  messageModel,
+  type PageQuery,
+  pageQuerySchema,
+  updateSettingsSchema,
+  userModel,
+  userSettingsModel,
+} from "../schemas.ts";
+
+const router = new Router();
+
+// Change password (requires the current password)
+router.put(
+  "/api/me/password",
+  apiDoc({
+    operationId: "changePassword",
+    summary: "Change the password and sign out every other device",
+    tag: "Account",
+    response: messageModel,
+    errors: [403, 404],
+  }),
+  authMiddleware,
+  validateBody(changePasswordSchema),
+  async (ctx) => {
+    try {
+      const userId = ctx.state.userId!;
+      const { currentPassword, newPassword } = ctx.state.body as ChangePasswordInput;
+
+      const user = (await getUserById(userId)) as User | null;
+      if (!user) {
+        return notFound(ctx, "User not found");
+      }
+
+      if (!verifyPassword(currentPassword, user.passwordHash)) {
+        return error(ctx, "Current password is incorrect", 403);
+      }
+
+      await setUser(userId, {
+        ...user,
+        passwordHash: hashPassword(newPassword),
+        updatedAt: new Date().toISOString(),
+      });
+
+      // Sign out every other device
+      await revokeAllSessions(userId, ctx.state.sessionId);
+      await clearLoginFailures(user.username);
+      await recordAudit(ctx, "password_changed");
+
+      success(ctx, { message: "Password changed successfully" });
+    } catch (err) {
+      error(ctx, "Failed to change password: " + err.message, 500);
+    }
+  },
+);
+
+// Change username
+router.put(
+  "/api/me/username",
+  apiDoc({
+    operationId: "changeUsername",
+    summary: "Change the username",
+    tag: "Account",
+    response: userModel,
+    errors: [400, 404, 409],
+  }),
+  authMiddleware,
+  validateBody(changeUsernameSchema),
+  async (ctx) => {
+    try {
+      const userId = ctx.state.userId!;
+      const { username } = ctx.state.body as Pick<User, "username">;
+
+      const user = (await getUserById(userId)) as User | null;
+      if (!user) {
+        return notFound(ctx, "User not found");
+      }
+
+      if (username === user.username) {
+        return error(ctx, "New username is the same as the current one");
+      }
+
+      const renamed = (await renameUser(userId, username)) as User | null;
+      if (!renamed) {
+        return error(ctx, "Username already exists", 409);
+      }
+
+      // Keep the denormalized username on shared board memberships in sync
+      for (const { boardId } of await getSharedBoardRefs(userId)) {
+        const member = (await getBoardMember(boardId, userId)) as BoardMember | null;
+        const ownerId = await getMemberBoardOwner(userId, boardId);
+        if (member && ownerId) {
+          const updated: BoardMember = { ...member, username };
+          await setBoardMember(ownerId, updated);
+        }
+      }
+
+      const { passwordHash: _, ...userWithoutPassword } = renamed;
+      success(ctx, userWithoutPassword);
+    } catch (err) {
+      error(ctx, "Failed to change username: " + err.message, 500);
+    }
+  },
+);
+
+// Get settings (defaults filled in)
+router.get(
+  "/api/me/settings",
+  apiDoc({
+    operationId: "getSettings",
+    summary: "User settings (defaults filled in)",
+    tag: "Account",
+    response: userSettingsModel,
+    errors: [404],
+  }),
+  authMiddleware,
+  async (ctx) => {
+    try {
+      const user = (await getUserById(ctx.state.userId!)) as User | null;
+      if (!user) {
+        return notFound(ctx, "User not found");
+      }
+
+      success(ctx, resolveSettings(user));
+    } catch (err) {
+      error(ctx, "Failed to fetch settings: " + err.message, 500);
+    }
+  },
+);
+
+// Update settings (partial)
+router.put(
+  "/api/me/settings",
+  apiDoc({
+    operationId: "updateSettings",
+    summary: "Update user settings (partial)",
+    tag: "Account",
+    response: userSettingsModel,
+    errors: [404],
+  }),
+  authMiddleware,
+  validateBody(updateSettingsSchema),
+  async (ctx) => {
+    try {
+      const userId = ctx.state.userId!;
+      const changes = ctx.state.body as Partial<UserSettings>;
+
+      const user = (await getUserById(userId)) as User | null;
+      if (!user) {
+        return notFound(ctx, "User not found");
+      }
+
+      const updatedUser: User = {
+        ...user,
+        settings: { ...user.settings, ...changes },
+        updatedAt: new Date().toISOString(),
+      };
+      await setUser(userId, updatedUser);
+
+      success(ctx, resolveSettings(updatedUser));
+    } catch (err) {
+      error(ctx, "Failed to update settings: " + err.message, 500);
+    }
+  },
+);
+
+// Unlock the account after failed logins and dismiss the lockout notice
+router.delete(
+  "/api/me/lockout",
+  apiDoc({
+    operationId: "unlockAccount",
+    summary: "Unlock the account after failed logins and dismiss the lockout notice",
+    description: "Works from any device that is still signed in. Without one, accounts with " +
+      "two-factor authentication can unlock with a recovery code (POST /api/login/unlock). " +
+      "Lockouts also end by themselves.",
+    tag: "Account",
+    status: 204,
+    errors: [404],
+  }),
+  authMiddleware,
+  async (ctx) => {
+    try {
+      if (!(await unlockAccount(ctx.state.userId!))) {
+        return notFound(ctx, "User not found");
+      }
+      await recordAudit(ctx, "account_unlocked", { detail: "signed-in device" });
+      noContent(ctx);
+    } catch (err) {
+      error(ctx, "Failed to unlock account: " + err.message, 500);
+    }
+  },
+);
+
+// Audit trail of the current user, newest first (?order=asc|desc&limit=&cursor=)
+router.get(
+  "/api/me/audit",
+  apiDoc({
+    operationId: "listAuditEntries",
+    summary: "Security audit trail of the current user",
+    description: "Logins (also failed ones), password and two-factor changes, API tokens, " +
+      "boards made public or deleted, webhooks and exports. " +
+      `Entries are kept for ${AUDIT_RETENTION_DAYS} days.`,
+    tag: "Account",
+    query: {
+      order: { description: "asc or desc by time (default desc)" },
+      limit: { description: `Page size (default ${DEFAULT_PAGE_SIZE})` },
+      cursor: { description: "nextCursor of the previous page (same order)" },
+    },
+    response: auditPageModel,
+  }),
+  authMiddleware,
+  validateQuery(pageQuerySchema),
+  async (ctx) => {
+    try {
+      const { order = "desc", limit = DEFAULT_PAGE_SIZE, cursor } = ctx.state.query as PageQuery;
+
+      const page = await getAuditPage(ctx.state.userId!, {
+        limit,
+        cursor,
+        reverse: order === "desc",
+      });
+      success(ctx, page);
+    } catch (err) {
+      if (err instanceof InvalidCursorError) {
+        return validationError(ctx, [err.fieldError]);
+      }
+      error(ctx, "Failed to fetch audit trail: " + err.message, 500);
+    }
+  },
+);
+
+// Delete account with all boards, logs and notifications
+router.delete(
+  "/api/me",
+  apiDoc({
+    operationId: "deleteAccount",
+    summary: "Delete the account with all boards, logs and notifications (in the background)",
+    tag: "Account",
+    status: 202,
+    response: accountDeletionModel,
+    errors: [403, 404],
+  }),
+  authMiddleware,
+  validateBody(deleteAccountSchema),
+  async (ctx) => {
+    try {
+      const userId = ctx.state.userId!;
+      const { password } = ctx.state.body as { password: string };
+
+      const user = (await getUserById(userId)) as User | null;
+      if (!user) {
+        return notFound(ctx, "User not found");
+      }
+
+      if (!verifyPassword(password, user.passwordHash)) {
+        return error(ctx, "Password is incorrect", 403);
+      }
+
+      // Block logins right away, the data is removed in the background
+      await setUser(userId, { ...user, deletionRequestedAt: new Date().toISOString() });
+      await revokeAllSessions(userId);
+      await revokeAllApiTokens(userId);
+
+      const job = await requestAccountDeletion(user);
+      success(ctx, { message: "Account deletion started", job }, 202);
+    } catch (err) {
+      error(ctx, "Failed to delete account: " + err.message, 500);
+    }
+  },
+);
+
+export default router;
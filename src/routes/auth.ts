@@ -1,31 +1,110 @@
 // src/routes/auth.ts
-import { Router } from "https://deno.land/x/oak@v12.6.1/mod.ts";
-import type { User } from "../types.ts";
+import { Router, type Context } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import type { Session, User } from "../types.ts";
 import {
   hashPassword,
   verifyPassword,
-  generateToken,
   generateId,
+  getDummyPasswordHash,
 } from "../utils/crypto.ts";
-import { getUserByUsername, setUser, getUserById } from "../utils/kv.ts";
-import { success, error, created, noContent } from "../utils/response.ts";
+import {
+  getUserByUsername,
+  setUser,
+  getUserById,
+  getSession,
+  denyTokenId,
+} from "../utils/kv.ts";
+import {
+  success,
+  error,
+  created,
+  noContent,
+  unauthorized,
+} from "../utils/response.ts";
 import { authMiddleware } from "../middleware/authMiddleware.ts";
+import { createSession, refreshSession, revokeSession } from "../utils/session.ts";
+import { getClientIp } from "../utils/clientIp.ts";
+import { recordAudit } from "../utils/audit.ts";
+import {
+  FREE_ATTEMPTS,
+  LOCKOUT_ATTEMPTS,
+  LOCKOUT_MS,
+  clearLoginFailures,
+  recordLoginFailure,
+  releaseLoginAttempt,
+  reserveLoginAttempt,
+  unlockAccount,
+  type LoginBlock,
+} from "../utils/loginThrottle.ts";
+import {
+  MAX_CHALLENGE_ATTEMPTS,
+  createLoginChallenge,
+  deleteLoginChallenge,
+  failLoginChallenge,
+  getLoginChallenge,
+  useRecoveryCode,
+  verifySecondFactor,
+} from "../utils/twoFactor.ts";
+import { validateBody } from "../middleware/validationMiddleware.ts";
+import { apiDoc } from "../utils/openapi.ts";
+import {
+  loginResponseModel,
+  loginResultModel,
+  loginSchema,
+  refreshTokenSchema,
+  registerResultModel,
+  registerSchema,
+  tokenPairModel,
+  userModel,
+  twoFactorLoginSchema,
+  type CredentialsInput,
+  type RefreshTokenInput,
+  type TwoFactorChallenge,
+  type TwoFactorLoginInput,
+  unlockLoginSchema,
+  type UnlockLoginInput,
+} from "../schemas.ts";
 
 const router = new Router();
 
-// Register new user
-router.post("/api/register", async (ctx) => {
-  try {
-    const body = await ctx.request.body();
-    const { username, password } = await body.value;
+// Start a session (access token + refresh token) and return it with the user info.
+// `method` tells in the audit trail how the user signed in.
+async function startLoginSession(ctx: Context, user: User, method: string) {
+  await clearLoginFailures(user.username);
+  const tokens = await createSession(ctx, user);
+  await recordAudit(ctx, "login", { userId: user.id, detail: method });
 
-    if (!username || !password) {
-      return error(ctx, "Username and password are required");
-    }
+  const { passwordHash: _, ...userWithoutPassword } = user;
+  success(ctx, {
+    ...tokens,
+    user: userWithoutPassword,
+  });
+}
 
-    if (password.length < 6) {
-      return error(ctx, "Password must be at least 6 characters");
-    }
+function loginBlocked(ctx: Context, block: LoginBlock) {
+  const retryAfter = Math.max(1, Math.ceil(block.retryAfterMs / 1000));
+  const wait = retryAfter === 1 ? "1 second" : `${retryAfter} seconds`;
+  ctx.response.headers.set("Retry-After", String(retryAfter));
+  error(
+    ctx,
+    block.locked
+      ? `Too many failed login attempts, the account is locked for ${wait}`
+      : `Too many failed login attempts, try again in ${wait}`,
+    429,
+  );
+}
+
+// Register new user
+router.post("/api/register", apiDoc({
+  operationId: "register",
+  summary: "Register a new user",
+  tag: "Auth",
+  status: 201,
+  response: registerResultModel,
+  errors: [409],
+}), validateBody(registerSchema), async (ctx) => {
+  try {
+    const { username, password } = ctx.state.body as CredentialsInput;
 
     // Check if user already exists
     const existingUser = await getUserByUsername(username);
@@ -58,43 +137,149 @@ router.post("/api/register", async (ctx) => {
 });
 
 // Login user
-router.post("/api/login", async (ctx) => {
+router.post("/api/login", apiDoc({
+  operationId: "login",
+  summary: "Log in and start a session",
+  description: "With two-factor authentication enabled the response is a TwoFactorChallenge " +
+    "to exchange at POST /api/login/2fa instead of tokens. " +
+    `After ${FREE_ATTEMPTS} failed attempts for a username each further attempt ` +
+    `has to wait longer (429 with Retry-After); ${LOCKOUT_ATTEMPTS} failures lock it for ` +
+    `${LOCKOUT_MS / 60000} minutes.`,
+  tag: "Auth",
+  response: loginResponseModel,
+  errors: [401, 429],
+}), validateBody(loginSchema), async (ctx) => {
   try {
-    const body = await ctx.request.body();
-    const { username, password } = await body.value;
+    const { username, password } = ctx.state.body as CredentialsInput;
 
-    if (!username || !password) {
-      return error(ctx, "Username and password are required");
+    // Attempts during the backoff are rejected without checking the password;
+    // others count as failed until the login succeeds
+    const block = await reserveLoginAttempt(username);
+    if (block) {
+      return loginBlocked(ctx, block);
     }
 
     // Find user
     const user = (await getUserByUsername(username)) as User | null;
-    if (!user) {
+
+    // Verify password, against a dummy hash for unknown users so both take equally long
+    const isValid = verifyPassword(password, user?.passwordHash ?? getDummyPasswordHash());
+    if (!user || !isValid || user.deletionRequestedAt) {
+      const failed = await recordLoginFailure(username, user, getClientIp(ctx));
+      if (user) {
+        await recordAudit(ctx, "login_failed", {
+          userId: user.id,
+          detail: failed?.locked ? "wrong password, account locked" : "wrong password",
+        });
+      }
+      if (failed?.locked) {
+        return loginBlocked(ctx, failed);
+      }
       return error(ctx, "Invalid username or password", 401);
     }
 
-    // Verify password
-    const isValid = verifyPassword(password, user.passwordHash); // Now sync, no await needed
-    if (!isValid) {
-      return error(ctx, "Invalid username or password", 401);
+    // The password alone is not enough, the session starts at /api/login/2fa
+    if (user.twoFactorEnabled) {
+      await releaseLoginAttempt(username);
+      const challenge: TwoFactorChallenge = {
+        twoFactorRequired: true,
+        ...(await createLoginChallenge(user.id)),
+      };
+      return success(ctx, challenge);
     }
 
-    // Generate token
-    const token = await generateToken(user.id, user.username);
+    await startLoginSession(ctx, user, "password");
+  } catch (err) {
+    error(ctx, "Login failed: " + err.message, 500);
+  }
+});
 
-    // Return token and user info
-    const { passwordHash: _, ...userWithoutPassword } = user;
-    success(ctx, {
-      token,
-      user: userWithoutPassword,
-    });
+// Second login step: exchange the challenge token and a TOTP or recovery code for tokens
+router.post("/api/login/2fa", apiDoc({
+  operationId: "loginTwoFactor",
+  summary: "Complete a login with a two-factor code",
+  description: "code is the current code of the authenticator app or an unused recovery code. " +
+    `A challenge accepts ${MAX_CHALLENGE_ATTEMPTS} wrong codes; wrong codes also count as ` +
+    "failed logins for the username.",
+  tag: "Auth",
+  response: loginResultModel,
+  errors: [401, 429],
+}), validateBody(twoFactorLoginSchema), async (ctx) => {
+  try {
+    const { challengeToken, code } = ctx.state.body as TwoFactorLoginInput;
+
+    const challenge = await getLoginChallenge(challengeToken);
+    const user = challenge ? (await getUserById(challenge.userId)) as User | null : null;
+    if (!challenge || !user || user.deletionRequestedAt) {
+      return unauthorized(ctx, "Invalid or expired challenge, log in again");
+    }
+
+    const block = await reserveLoginAttempt(user.username);
+    if (block) {
+      return loginBlocked(ctx, block);
+    }
+
+    const factor = await verifySecondFactor(user.id, code);
+    if (!factor) {
+      await failLoginChallenge(challenge.id);
+      const failed = await recordLoginFailure(user.username, user, getClientIp(ctx));
+      await recordAudit(ctx, "login_failed", {
+        userId: user.id,
+        detail: failed?.locked ? "wrong two-factor code, account locked" : "wrong two-factor code",
+      });
+      if (failed?.locked) {
+        return loginBlocked(ctx, failed);
+      }
+      return unauthorized(ctx, "Invalid code");
+    }
+
+    await deleteLoginChallenge(challenge.id);
+    await startLoginSession(
+      ctx,
+      user,
+      factor === "totp" ? "password + authenticator code" : "password + recovery code",
+    );
   } catch (err) {
     error(ctx, "Login failed: " + err.message, 500);
   }
 });
 
+// Unlock a locked username with a recovery code; the owner may not have a
+// signed-in device left
+router.post("/api/login/unlock", apiDoc({
+  operationId: "unlockLogin",
+  summary: "Unlock a locked account with a recovery code",
+  description: "For accounts with two-factor authentication: uses up one recovery code, " +
+    "ends the lockout and dismisses the lockout notice. Other accounts wait until the " +
+    "lockout ends or unlock from a signed-in device (DELETE /api/me/lockout).",
+  tag: "Auth",
+  status: 204,
+  errors: [401],
+}), validateBody(unlockLoginSchema), async (ctx) => {
+  try {
+    const { username, recoveryCode } = ctx.state.body as UnlockLoginInput;
+
+    const user = (await getUserByUsername(username)) as User | null;
+    if (!user || user.deletionRequestedAt || !(await useRecoveryCode(user.id, recoveryCode))) {
+      return unauthorized(ctx, "Invalid username or recovery code");
+    }
+
+    await unlockAccount(user.id);
+    await recordAudit(ctx, "account_unlocked", { userId: user.id, detail: "recovery code" });
+    noContent(ctx);
+  } catch (err) {
+    error(ctx, "Failed to unlock account: " + err.message, 500);
+  }
+});
+
 // Get current user info
-router.get("/api/me", authMiddleware, async (ctx) => {
+router.get("/api/me", apiDoc({
+  operationId: "getMe",
+  summary: "Current user",
+  tag: "Auth",
+  response: userModel,
+  errors: [404],
+}), authMiddleware, async (ctx) => {
   try {
     const userId = ctx.state.userId;
     const user = (await getUserById(userId)) as User | null;
@@ -110,9 +295,48 @@ router.get("/api/me", authMiddleware, async (ctx) => {
   }
 });
 
-// Logout (client-side will remove token)
-router.post("/api/logout", authMiddleware, (ctx) => {
-  noContent(ctx);
+// Exchange a refresh token for a new access token (rotates the refresh token)
+router.post("/api/token/refresh", apiDoc({
+  operationId: "refreshToken",
+  summary: "Exchange a refresh token for new tokens (rotates the refresh token)",
+  tag: "Auth",
+  response: tokenPairModel,
+}), validateBody(refreshTokenSchema), async (ctx) => {
+  try {
+    const { refreshToken } = ctx.state.body as RefreshTokenInput;
+
+    const tokens = await refreshSession(ctx, refreshToken);
+    if (!tokens) {
+      return unauthorized(ctx, "Invalid or expired refresh token");
+    }
+
+    success(ctx, tokens);
+  } catch (err) {
+    error(ctx, "Token refresh failed: " + err.message, 500);
+  }
+});
+
+// Logout: revoke the current session and access token
+router.post("/api/logout", apiDoc({
+  operationId: "logout",
+  summary: "Revoke the current session and access token",
+  tag: "Auth",
+  status: 204,
+}), authMiddleware, async (ctx) => {
+  try {
+    const { userId, sessionId, tokenId, tokenExp } = ctx.state;
+
+    const session = sessionId ? await getSession(userId, sessionId) : null;
+    if (session) {
+      await revokeSession(session as Session);
+    } else if (tokenId) {
+      await denyTokenId(tokenId, tokenExp);
+    }
+
+    noContent(ctx);
+  } catch (err) {
+    error(ctx, "Logout failed: " + err.message, 500);
+  }
 });
 
 export default router;
@@ -1,13 +1,14 @@
 // src/routes/boards.ts
-import { Router } from "https://deno.land/x/oak@v12.6.1/mod.ts";
-import type { Board } from "../types.ts";
+import { Router, type Context } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import type { Board, BoardRole } from "../types.ts";
 import { generateId } from "../utils/crypto.ts";
 import {
-  getBoard,
   getBoardsByUserId,
+  getSharedBoardRefs,
   setBoard,
-  deleteBoard as kvDeleteBoard,
+  updateBoard,
   getPublicBoard,
+  getBoardIdBySlug,
 } from "../utils/kv.ts";
 import {
   success,
@@ -16,50 +17,175 @@ import {
   noContent,
   notFound,
   forbidden,
+  validationError,
 } from "../utils/response.ts";
-import { authMiddleware } from "../middleware/authMiddleware.ts";
+import { authMiddleware, requireScope } from "../middleware/authMiddleware.ts";
+import { parseTaskTree } from "../utils/markdown.ts";
+import { getBoardAccess, requireBoardAccess } from "../utils/access.ts";
+import { ensureBaselineRevision, recordRevision } from "../utils/revisions.ts";
+import { indexBoard } from "../utils/search.ts";
+import { findTemplate, newBoardFields } from "../utils/templates.ts";
+import { boardConflict, getIfMatch, setVersionETag } from "../utils/etag.ts";
+import { TRASH_RETENTION_DAYS } from "../jobs/trashPurge.ts";
+import { recordAudit } from "../utils/audit.ts";
+import { dispatchWebhookEvent } from "../jobs/webhookDelivery.ts";
+import { validateBody, validateQuery } from "../middleware/validationMiddleware.ts";
+import { apiDoc } from "../utils/openapi.ts";
+import { DEFAULT_PAGE_SIZE, InvalidCursorError, paginateSorted } from "../utils/pagination.ts";
+import {
+  boardListQuerySchema,
+  boardModel,
+  boardPageModel,
+  boardWithRoleModel,
+  createBoardQuerySchema,
+  createBoardSchema,
+  taskTreeModel,
+  updateBoardSchema,
+  type BoardListQuery,
+  type CreateBoardInput,
+  type CreateBoardQuery,
+  type UpdateBoardInput,
+} from "../schemas.ts";
 
 const router = new Router();
 
-// Get all boards for current user
-router.get("/api/boards", authMiddleware, async (ctx) => {
+// Get boards of the current user, including boards shared with them
+// (?sort=updatedAt|createdAt|title&order=asc|desc&limit=&cursor=)
+router.get("/api/boards", apiDoc({
+  operationId: "listBoards",
+  summary: "List own boards and boards shared with the user",
+  tag: "Boards",
+  query: {
+    sort: { description: "Sort field (default updatedAt)" },
+    order: { description: "asc or desc (default desc, title: asc)" },
+    limit: { description: `Page size (default ${DEFAULT_PAGE_SIZE})` },
+    cursor: { description: "nextCursor of the previous page" },
+    archived: { description: "true lists archived boards instead (default false)" },
+  },
+  response: boardPageModel,
+}), authMiddleware, requireScope("boards:read"), validateQuery(boardListQuerySchema), async (ctx) => {
   try {
     const userId = ctx.state.userId!;
-    const boards = await getBoardsByUserId(userId);
-    success(ctx, boards);
+    const { sort = "updatedAt", order, limit = DEFAULT_PAGE_SIZE, cursor, archived = false } =
+      ctx.state.query as BoardListQuery;
+
+    // Boards in the trash are listed by GET /api/trash
+    const ownBoards = ((await getBoardsByUserId(userId)) as Board[])
+      .filter((board) => !board.deletedAt);
+    const boards: (Board & { role: BoardRole })[] = ownBoards.map((board) => ({
+      ...board,
+      role: "owner",
+    }));
+
+    for (const { boardId } of await getSharedBoardRefs(userId)) {
+      const access = await getBoardAccess(userId, boardId);
+      if (access) {
+        boards.push({ ...access.board, role: access.role });
+      }
+    }
+
+    const listed = boards.filter((board) => !!board.archivedAt === archived);
+
+    // Boards come from several owners, so they are sorted in memory
+    success(ctx, paginateSorted(listed, (board) => board[sort], {
+      order: order ?? (sort === "title" ? "asc" : "desc"),
+      limit,
+      cursor,
+    }));
   } catch (err) {
+    if (err instanceof InvalidCursorError) {
+      return validationError(ctx, [err.fieldError]);
+    }
     error(ctx, "Failed to fetch boards: " + err.message, 500);
   }
 });
 
 // Get specific board by ID
-router.get("/api/boards/:id", authMiddleware, async (ctx) => {
+router.get("/api/boards/:id", apiDoc({
+  operationId: "getBoard",
+  summary: "Get a board",
+  tag: "Boards",
+  params: { id: "Board ID" },
+  response: boardWithRoleModel,
+  headers: { ETag: "Board version, send it back as If-Match" },
+  errors: [403, 404],
+}), authMiddleware, requireScope("boards:read"), async (ctx) => {
   try {
-    const boardId = ctx.params.id;
-    const userId = ctx.state.userId!;
+    const access = await requireBoardAccess(ctx, ctx.params.id, "viewer");
+    if (!access) return;
 
-    const board = (await getBoard(userId, boardId)) as Board | null;
+    setVersionETag(ctx, access.versionstamp);
+    success(ctx, { ...access.board, role: access.role });
+  } catch (err) {
+    error(ctx, "Failed to fetch board: " + err.message, 500);
+  }
+});
 
-    if (!board) {
-      return notFound(ctx, "Board not found");
-    }
+// Get parsed task tree of a board
+router.get("/api/boards/:id/tasks", apiDoc({
+  operationId: "getBoardTasks",
+  summary: "Task tree parsed from the board markdown",
+  tag: "Boards",
+  params: { id: "Board ID" },
+  response: taskTreeModel,
+  errors: [403, 404],
+}), authMiddleware, requireScope("boards:read"), async (ctx) => {
+  try {
+    const access = await requireBoardAccess(ctx, ctx.params.id, "viewer");
+    if (!access) return;
 
-    success(ctx, board);
+    success(ctx, parseTaskTree(access.board.markdown));
   } catch (err) {
-    error(ctx, "Failed to fetch board: " + err.message, 500);
+    error(ctx, "Failed to parse board tasks: " + err.message, 500);
   }
 });
 
-// Create new board
-router.post("/api/boards", authMiddleware, async (ctx) => {
+// Create new board, optionally from a template (?template=:id). Fields
+// sent in the body override the template's.
+router.post("/api/boards", apiDoc({
+  operationId: "createBoard",
+  summary: "Create a board",
+  description: "title and markdown are required unless ?template= is given; " +
+    "placeholders such as {{date}} in the template are expanded (UTC).",
+  tag: "Boards",
+  query: { template: { description: "ID of a built-in or own template" } },
+  status: 201,
+  response: boardModel,
+  headers: { ETag: "Board version" },
+  errors: [404, 409],
+}), authMiddleware, requireScope("boards:write"), validateQuery(createBoardQuerySchema), validateBody(createBoardSchema), async (ctx) => {
   try {
     const userId = ctx.state.userId!;
-    const body = await ctx.request.body();
-    const { title, markdown, visibility, schedule, resetTime } =
-      await body.value;
+    const { template: templateId } = ctx.state.query as CreateBoardQuery;
+    const input = ctx.state.body as CreateBoardInput;
+    const { visibility, slug } = input;
+
+    const template = templateId ? await findTemplate(userId, templateId) : null;
+    if (templateId && !template) {
+      return notFound(ctx, "Template not found");
+    }
+
+    if (!template) {
+      const missing = (["title", "markdown"] as const)
+        .filter((field) => input[field] === undefined);
+      if (missing.length > 0) {
+        return validationError(ctx, missing.map((field) => ({
+          path: field,
+          code: "required",
+          message: `${field} is required`,
+        })));
+      }
+    }
 
-    if (!title || !markdown) {
-      return error(ctx, "Title and markdown are required");
+    const fields = newBoardFields(input, template, {
+      now: new Date(),
+      username: ctx.state.username!,
+    });
+
+    if (slug) {
+      if (await getBoardIdBySlug(slug)) {
+        return error(ctx, "Slug is already in use", 409);
+      }
     }
 
     const boardId = generateId();
@@ -68,76 +194,281 @@ router.post("/api/boards", authMiddleware, async (ctx) => {
     const newBoard: Board = {
       id: boardId,
       userId,
-      title,
-      markdown,
+      ...fields,
       visibility: visibility || "private",
-      schedule: schedule || "daily",
-      resetTime: resetTime || "00:00",
+      ...(slug && { slug }),
       createdAt: now,
       updatedAt: now,
     };
 
-    await setBoard(userId, boardId, newBoard);
+    const versionstamp = await setBoard(userId, boardId, newBoard, null);
+    if (!versionstamp) {
+      return error(ctx, "Slug is already in use", 409);
+    }
+    await recordRevision(newBoard, { id: userId, username: ctx.state.username! });
+    await indexBoard(userId, boardId);
+    if (newBoard.visibility === "public") {
+      await recordAudit(ctx, "board_made_public", { target: boardId, detail: newBoard.title });
+    }
+    setVersionETag(ctx, versionstamp!);
     created(ctx, newBoard);
   } catch (err) {
     error(ctx, "Failed to create board: " + err.message, 500);
   }
 });
 
-// Update board
-router.put("/api/boards/:id", authMiddleware, async (ctx) => {
+// Update board (send If-Match with the board's ETag to avoid overwriting
+// someone else's changes)
+router.put("/api/boards/:id", apiDoc({
+  operationId: "updateBoard",
+  summary: "Update a board",
+  description: "Send If-Match with the board's ETag to get a 409 (with the current board) " +
+    "instead of overwriting someone else's changes.",
+  tag: "Boards",
+  params: { id: "Board ID" },
+  response: boardModel,
+  headers: { ETag: "New board version" },
+  errors: [403, 404, 409],
+}), authMiddleware, requireScope("boards:write"), validateBody(updateBoardSchema), async (ctx) => {
   try {
     const boardId = ctx.params.id;
-    const userId = ctx.state.userId!;
 
-    const board = (await getBoard(userId, boardId)) as Board | null;
+    const access = await requireBoardAccess(ctx, boardId, "editor");
+    if (!access) return;
+    const { board } = access;
 
-    if (!board) {
-      return notFound(ctx, "Board not found");
+    const ifMatch = getIfMatch(ctx);
+    if (ifMatch && !ifMatch.includes(access.versionstamp)) {
+      return boardConflict(ctx, board, access.versionstamp);
     }
 
-    const body = await ctx.request.body();
-    const { title, markdown, visibility, schedule, resetTime } =
-      await body.value;
+    const { title, markdown, visibility, schedule, resetTime, slug } =
+      ctx.state.body as UpdateBoardInput;
 
-    const updatedBoard: Board = {
-      ...board,
-      ...(title && { title }),
-      ...(markdown && { markdown }),
-      ...(visibility && { visibility }),
-      ...(schedule && { schedule }),
-      ...(resetTime && { resetTime }),
-      updatedAt: new Date().toISOString(),
-    };
+    // Only owners decide who can see the board
+    if (visibility && visibility !== board.visibility && access.role !== "owner") {
+      return forbidden(ctx, "Only owners can change board visibility");
+    }
+
+    // slug: undefined keeps it, null or "" removes it
+    const slugChanged = slug !== undefined && (slug || undefined) !== board.slug;
+    if (slugChanged) {
+      if (access.role !== "owner") {
+        return forbidden(ctx, "Only owners can change the board slug");
+      }
+      if (slug) {
+        const slugOwner = await getBoardIdBySlug(slug);
+        if (slugOwner && slugOwner !== boardId) {
+          return error(ctx, "Slug is already in use", 409);
+        }
+      }
+    }
+
+    if (title || markdown) {
+      await ensureBaselineRevision(board);
+    }
+
+    // Apply the changes to the latest stored copy, not the one read above
+    const result = await updateBoard<Board>(access.ownerId, boardId, (current) => {
+      const next: Board = {
+        ...current,
+        ...(title && { title }),
+        ...(markdown && { markdown }),
+        ...(visibility && { visibility }),
+        ...(schedule && { schedule }),
+        ...(resetTime && { resetTime }),
+        ...(slug && { slug }),
+        updatedAt: new Date().toISOString(),
+      };
+      if (slug !== undefined && !slug) delete next.slug;
+      return next;
+    }, ifMatch ? access.versionstamp : undefined);
+
+    if (!result.ok) {
+      if (!result.board) {
+        return notFound(ctx, "Board not found");
+      }
+      if (result.slugTaken) {
+        return error(ctx, "Slug is already in use", 409);
+      }
+      return boardConflict(ctx, result.board, result.versionstamp!);
+    }
+
+    const updatedBoard = result.board;
+
+    if (updatedBoard.visibility === "public" && result.previous.visibility !== "public") {
+      await recordAudit(ctx, "board_made_public", { target: boardId, detail: updatedBoard.title });
+    }
+
+    // Keep a revision of every content change
+    if (
+      updatedBoard.title !== result.previous.title ||
+      updatedBoard.markdown !== result.previous.markdown
+    ) {
+      await recordRevision(updatedBoard, {
+        id: ctx.state.userId!,
+        username: ctx.state.username!,
+      });
+      await indexBoard(access.ownerId, boardId);
+    }
 
-    await setBoard(userId, boardId, updatedBoard);
+    // Webhook payloads leave out the markdown to stay small, receivers can fetch it
+    const { markdown: _, ...boardSummary } = updatedBoard;
+    await dispatchWebhookEvent(boardId, "board.updated", {
+      board: boardSummary,
+      username: ctx.state.username,
+    });
+
+    setVersionETag(ctx, result.versionstamp);
     success(ctx, updatedBoard);
   } catch (err) {
     error(ctx, "Failed to update board: " + err.message, 500);
   }
 });
 
-// Delete board
-router.delete("/api/boards/:id", authMiddleware, async (ctx) => {
+// Move a board to the trash. Unless restored, it is purged with its logs,
+// notifications, members and revisions once the retention period is over.
+router.delete("/api/boards/:id", apiDoc({
+  operationId: "deleteBoard",
+  summary: "Move a board to the trash",
+  description: `Trashed boards are purged after ${TRASH_RETENTION_DAYS} days ` +
+    "unless restored with POST /api/boards/{id}/restore.",
+  tag: "Boards",
+  params: { id: "Board ID" },
+  status: 204,
+  errors: [403, 404],
+}), authMiddleware, requireScope("boards:write"), async (ctx) => {
   try {
     const boardId = ctx.params.id;
-    const userId = ctx.state.userId!;
 
-    const board = await getBoard(userId, boardId);
+    const access = await requireBoardAccess(ctx, boardId, "owner");
+    if (!access) return;
 
-    if (!board) {
+    const result = await updateBoard<Board>(access.ownerId, boardId, (current) => ({
+      ...current,
+      deletedAt: new Date().toISOString(),
+    }));
+    if (!result.ok) {
       return notFound(ctx, "Board not found");
     }
 
-    await kvDeleteBoard(userId, boardId);
+    await recordAudit(ctx, "board_deleted", { target: boardId, detail: access.board.title });
+    await dispatchWebhookEvent(boardId, "board.deleted", {
+      board: { id: boardId, title: access.board.title },
+      username: ctx.state.username,
+    });
     noContent(ctx);
   } catch (err) {
     error(ctx, "Failed to delete board: " + err.message, 500);
   }
 });
 
+// Archive or unarchive a board: archived boards are left out of board
+// lists (unless ?archived=true) but otherwise work as before
+async function setArchived(ctx: Context, boardId: string, archived: boolean) {
+  const access = await requireBoardAccess(ctx, boardId, "owner");
+  if (!access) return;
+
+  const result = await updateBoard<Board>(access.ownerId, boardId, (current) => {
+    const next: Board = { ...current, archivedAt: new Date().toISOString() };
+    if (!archived) delete next.archivedAt;
+    return next;
+  });
+  if (!result.ok) {
+    return notFound(ctx, "Board not found");
+  }
+
+  setVersionETag(ctx, result.versionstamp);
+  success(ctx, result.board);
+}
+
+router.post("/api/boards/:id/archive", apiDoc({
+  operationId: "archiveBoard",
+  summary: "Archive a board (hide it from board lists)",
+  tag: "Boards",
+  params: { id: "Board ID" },
+  response: boardModel,
+  headers: { ETag: "Board version" },
+  errors: [403, 404],
+}), authMiddleware, requireScope("boards:write"), async (ctx) => {
+  try {
+    await setArchived(ctx, ctx.params.id, true);
+  } catch (err) {
+    error(ctx, "Failed to archive board: " + err.message, 500);
+  }
+});
+
+router.post("/api/boards/:id/unarchive", apiDoc({
+  operationId: "unarchiveBoard",
+  summary: "Unarchive a board",
+  tag: "Boards",
+  params: { id: "Board ID" },
+  response: boardModel,
+  headers: { ETag: "Board version" },
+  errors: [403, 404],
+}), authMiddleware, requireScope("boards:write"), async (ctx) => {
+  try {
+    await setArchived(ctx, ctx.params.id, false);
+  } catch (err) {
+    error(ctx, "Failed to unarchive board: " + err.message, 500);
+  }
+});
+
+// Get public board by share slug (no auth required)
+router.get("/api/public/s/:slug", apiDoc({
+  operationId: "getPublicBoardBySlug",
+  summary: "Get a public board by share slug",
+  tag: "Public",
+  params: { slug: "Share slug" },
+  response: boardModel,
+  errors: [404],
+}), async (ctx) => {
+  try {
+    const boardId = await getBoardIdBySlug(ctx.params.slug);
+    const board = boardId ? await getPublicBoard(boardId) : null;
+
+    if (!board) {
+      return notFound(ctx, "Public board not found");
+    }
+
+    success(ctx, board);
+  } catch (err) {
+    error(ctx, "Failed to fetch public board: " + err.message, 500);
+  }
+});
+
+// Get parsed task tree of a public board by share slug (no auth required)
+router.get("/api/public/s/:slug/tasks", apiDoc({
+  operationId: "getPublicBoardTasksBySlug",
+  summary: "Task tree of a public board by share slug",
+  tag: "Public",
+  params: { slug: "Share slug" },
+  response: taskTreeModel,
+  errors: [404],
+}), async (ctx) => {
+  try {
+    const boardId = await getBoardIdBySlug(ctx.params.slug);
+    const board = (boardId ? await getPublicBoard(boardId) : null) as Board | null;
+
+    if (!board) {
+      return notFound(ctx, "Public board not found");
+    }
+
+    success(ctx, parseTaskTree(board.markdown));
+  } catch (err) {
+    error(ctx, "Failed to parse board tasks: " + err.message, 500);
+  }
+});
+
 // BONUS: Get public board (no auth required)
-router.get("/api/public/:boardId", async (ctx) => {
+router.get("/api/public/:boardId", apiDoc({
+  operationId: "getPublicBoard",
+  summary: "Get a public board",
+  tag: "Public",
+  params: { boardId: "Board ID" },
+  response: boardModel,
+  errors: [404],
+}), async (ctx) => {
   try {
     const boardId = ctx.params.boardId;
     const board = await getPublicBoard(boardId);
@@ -152,4 +483,27 @@ router.get("/api/public/:boardId", async (ctx) => {
   }
 });
 
+// Get parsed task tree of a public board (no auth required)
+router.get("/api/public/:boardId/tasks", apiDoc({
+  operationId: "getPublicBoardTasks",
+  summary: "Task tree of a public board",
+  tag: "Public",
+  params: { boardId: "Board ID" },
+  response: taskTreeModel,
+  errors: [404],
+}), async (ctx) => {
+  try {
+    const boardId = ctx.params.boardId;
+    const board = (await getPublicBoard(boardId)) as Board | null;
+
+    if (!board) {
+      return notFound(ctx, "Public board not found");
+    }
+
+    success(ctx, parseTaskTree(board.markdown));
+  } catch (err) {
+    error(ctx, "Failed to parse board tasks: " + err.message, 500);
+  }
+});
+
 export default router;
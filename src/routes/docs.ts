@@ -0,0 +1,87 @@
+// src/routes/docs.ts
+// API catalogue, OpenAPI document and docs page, generated from the
+// route metadata of the given routers
+
+import { Router } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import {
+  apiDoc,
+  buildOpenApiDocument,
+  collectRoutes,
+  queryParameters,
+  routeOperationId,
+  routeTag,
+} from "../utils/openapi.ts";
+import type { JsonSchema } from "../utils/validation.ts";
+import { renderDocsPage } from "../utils/docsPage.ts";
+
+const OPENAPI_PATH = "/api/openapi.json";
+const DOCS_PATH = "/api/docs";
+
+export function createDocsRouter(
+  routers: Router[],
+  info: { title: string; version: string; description?: string },
+): Router {
+  const router = new Router();
+  const all = [...routers, router];
+  let spec: JsonSchema | null = null; // routes are fixed once the app starts
+
+  // Endpoint catalogue, grouped by tag
+  router.get(
+    "/api",
+    apiDoc({
+      operationId: "getCatalogue",
+      summary: "Endpoint catalogue",
+      tag: "Meta",
+    }),
+    (ctx) => {
+      const endpoints: Record<string, Record<string, string>> = {};
+
+      for (const route of collectRoutes(all)) {
+        const group = routeTag(route).toLowerCase();
+        const query = queryParameters(route).map(({ name }) => name);
+        endpoints[group] ??= {};
+        endpoints[group][routeOperationId(route)] = `${route.method} ${route.path}` +
+          (query.length > 0 ? "?" + query.map((name) => `${name}=`).join("&") : "");
+      }
+
+      ctx.response.body = {
+        status: "ok",
+        docs: DOCS_PATH,
+        openapi: OPENAPI_PATH,
+        endpoints,
+      };
+    },
+  );
+
+  // OpenAPI 3.1 document
+  router.get(
+    OPENAPI_PATH,
+    apiDoc({
+      operationId: "getOpenApiDocument",
+      summary: "OpenAPI 3.1 document of this API",
+      tag: "Meta",
+      produces: "application/json",
+    }),
+    (ctx) => {
+      spec ??= buildOpenApiDocument(all, info);
+      ctx.response.body = spec;
+    },
+  );
+
+  // Interactive docs page
+  router.get(
+    DOCS_PATH,
+    apiDoc({
+      operationId: "getDocsPage",
+      summary: "Interactive API docs",
+      tag: "Meta",
+      produces: "text/html",
+    }),
+    (ctx) => {
+      ctx.response.headers.set("Content-Type", "text/html; charset=utf-8");
+      ctx.response.body = renderDocsPage(info.title, OPENAPI_PATH);
+    },
+  );
+
+  return router;
+}
@@ -0,0 +1,135 @@
+// src/routes/events.ts
+// Real-time board sync over Server-Sent Events (or WebSocket upgrade)
+
+import { Router, ServerSentEvent } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import type { StreamTicket } from "../types.ts";
+import { created, error } from "../utils/response.ts";
+import { streamBoardEvents } from "../utils/events.ts";
+import type { BoardStreamEvent } from "../utils/events.ts";
+import { createStreamTicket, STREAM_TICKET_TTL_MS } from "../utils/streamTickets.ts";
+import { authMiddleware, hasValidCredentials, requireScope } from "../middleware/authMiddleware.ts";
+import { getBoardAccess, requireBoardAccess } from "../utils/access.ts";
+import { apiDoc } from "../utils/openapi.ts";
+import { streamTicketModel } from "../schemas.ts";
+
+const router = new Router();
+
+const KEEP_ALIVE_MS = 25 * 1000;
+// How often an open stream re-checks the credentials and board access it was opened with
+const ACCESS_CHECK_MS = 30 * 1000;
+
+// Issue a one-time ticket for opening a stream without an Authorization header
+router.post(
+  "/api/events/ticket",
+  apiDoc({
+    operationId: "createStreamTicket",
+    summary: "One-time ticket for opening an event stream",
+    description: "Pass it as ?ticket= to the events endpoint within " +
+      `${STREAM_TICKET_TTL_MS / 1000} seconds; it works once.`,
+    tag: "Boards",
+    status: 201,
+    response: streamTicketModel,
+  }),
+  authMiddleware,
+  requireScope("boards:read"),
+  async (ctx) => {
+    try {
+      const ticket = await createStreamTicket({
+        userId: ctx.state.userId,
+        username: ctx.state.username,
+        sessionId: ctx.state.sessionId,
+        tokenId: ctx.state.tokenId,
+        apiTokenId: ctx.state.apiTokenId,
+        tokenScopes: ctx.state.tokenScopes,
+      });
+      created(ctx, { ticket, expiresIn: STREAM_TICKET_TTL_MS / 1000 });
+    } catch (err) {
+      error(ctx, "Failed to create stream ticket: " + err.message, 500);
+    }
+  },
+);
+
+// Stream board updates, new log actions and due notifications
+router.get(
+  "/api/boards/:id/events",
+  apiDoc({
+    operationId: "streamBoardEvents",
+    summary: "Realtime board updates over Server-Sent Events or WebSocket",
+    description: "EventSource and WebSocket clients may authenticate with ?ticket= from " +
+      "POST /api/events/ticket. The stream closes with an access.revoked event once the " +
+      "session or token ends or the user loses access to the board.",
+    tag: "Boards",
+    params: { id: "Board ID" },
+    query: { ticket: { description: "One-time ticket for clients that cannot send headers" } },
+    produces: "text/event-stream",
+    errors: [403, 404],
+  }),
+  authMiddleware,
+  requireScope("boards:read"),
+  async (ctx) => {
+    try {
+      const boardId = ctx.params.id;
+
+      const access = await requireBoardAccess(ctx, boardId, "viewer");
+      if (!access) return;
+      const { board } = access;
+
+      const credentials: StreamTicket = {
+        userId: ctx.state.userId,
+        username: ctx.state.username,
+        sessionId: ctx.state.sessionId,
+        tokenId: ctx.state.tokenId,
+        apiTokenId: ctx.state.apiTokenId,
+      };
+
+      const controller = new AbortController();
+      const run = (send: (event: BoardStreamEvent) => void, close: () => void) => {
+        send({ type: "ready", data: board });
+        streamBoardEvents(board, send, controller.signal).catch((err) => {
+          console.error(`Event stream for board ${boardId} failed:`, err);
+        });
+
+        // Removed members, ended sessions and revoked tokens lose the stream
+        const accessCheck = setInterval(async () => {
+          try {
+            if (
+              await hasValidCredentials(credentials) &&
+              await getBoardAccess(credentials.userId, boardId)
+            ) return;
+          } catch (err) {
+            console.error(`Access check for board ${boardId} stream failed:`, err);
+            return;
+          }
+          send({ type: "access.revoked", data: { id: boardId } });
+          close();
+        }, ACCESS_CHECK_MS);
+        controller.signal.addEventListener("abort", () => clearInterval(accessCheck));
+      };
+
+      if (ctx.isUpgradable) {
+        const socket = ctx.upgrade();
+        socket.onopen = () => {
+          run((event) => {
+            if (socket.readyState === WebSocket.OPEN) {
+              socket.send(JSON.stringify(event));
+            }
+          }, () => socket.close(1008, "Access revoked"));
+        };
+        socket.onclose = () => controller.abort();
+        return;
+      }
+
+      const target = ctx.sendEvents({ keepAlive: KEEP_ALIVE_MS });
+      target.addEventListener("close", () => controller.abort());
+      run((event) => {
+        if (!target.closed) {
+          target.dispatchEvent(new ServerSentEvent(event.type, { data: event.data, id: event.id }));
+        }
+      }, () => target.close());
+    } catch (err) {
+      error(ctx, "Failed to open event stream: " + err.message, 500);
+    }
+  },
+);
+
+export default router;
@@ -1,25 +1,52 @@
 // src/routes/export.ts
-// BONUS FEATURE: Export board to Markdown or CSV
+// BONUS FEATURE: Export board to Markdown or CSV, full account export/import as JSON
 
 import { Router } from "https://deno.land/x/oak@v12.6.1/mod.ts";
-import type { Board, Log } from "../types.ts";
-import { getBoard, getLogsByBoardId } from "../utils/kv.ts";
-import { error, notFound, forbidden } from "../utils/response.ts";
-import { authMiddleware } from "../middleware/authMiddleware.ts";
+import type { Log, User } from "../types.ts";
+import { getLogsByBoardId, getUserById } from "../utils/kv.ts";
+import { created, error, notFound, validationError } from "../utils/response.ts";
+import { authMiddleware, requireScope } from "../middleware/authMiddleware.ts";
+import { rateLimitMiddleware } from "../middleware/securityMiddleware.ts";
+import { requireBoardAccess } from "../utils/access.ts";
+import { buildExport, importExport, ImportError, parseExport } from "../utils/transfer.ts";
+import type { ExportDocument } from "../utils/transfer.ts";
+import { scheduleNotification } from "../jobs/notificationDispatcher.ts";
+import { recordAudit } from "../utils/audit.ts";
+import { apiDoc } from "../utils/openapi.ts";
+import { validateQuery } from "../middleware/validationMiddleware.ts";
+import {
+  exportDocumentModel,
+  type ImportQuery,
+  importQuerySchema,
+  importResultModel,
+} from "../schemas.ts";
 
 const router = new Router();
 
+// Full account export/import touches every board and log of the account
+const transferRateLimit = rateLimitMiddleware({
+  name: "transfer",
+  windowMs: 60 * 60 * 1000,
+  maxRequests: 10,
+  by: "user",
+  message: "Too many exports or imports, please try again later",
+});
+
 // Export board as Markdown
-router.get("/api/export/:boardId/markdown", authMiddleware, async (ctx) => {
+router.get("/api/export/:boardId/markdown", apiDoc({
+  operationId: "exportBoardMarkdown",
+  summary: "Download a board as Markdown",
+  tag: "Export",
+  params: { boardId: "Board ID" },
+  produces: "text/markdown",
+  errors: [403, 404],
+}), authMiddleware, requireScope("boards:read"), async (ctx) => {
   try {
     const boardId = ctx.params.boardId;
-    const userId = ctx.state.userId!;
 
-    const board = (await getBoard(userId, boardId)) as Board | null;
-
-    if (!board) {
-      return notFound(ctx, "Board not found");
-    }
+    const access = await requireBoardAccess(ctx, boardId, "viewer");
+    if (!access) return;
+    const { board } = access;
 
     // Get all logs for this board
     const logs = (await getLogsByBoardId(boardId)) as Log[];
@@ -64,6 +91,8 @@ router.get("/api/export/:boardId/markdown", authMiddleware, async (ctx) => {
     markdown += `\n---\n\n`;
     markdown += `*Exported from MarkDash on ${new Date().toLocaleString()}*\n`;
 
+    await recordAudit(ctx, "export", { target: boardId, detail: "markdown" });
+
     // Set response headers for file download
     ctx.response.headers.set("Content-Type", "text/markdown");
     ctx.response.headers.set(
@@ -77,16 +106,20 @@ router.get("/api/export/:boardId/markdown", authMiddleware, async (ctx) => {
 });
 
 // Export board as CSV
-router.get("/api/export/:boardId/csv", authMiddleware, async (ctx) => {
+router.get("/api/export/:boardId/csv", apiDoc({
+  operationId: "exportBoardCsv",
+  summary: "Download the logs of a board as CSV",
+  tag: "Export",
+  params: { boardId: "Board ID" },
+  produces: "text/csv",
+  errors: [403, 404],
+}), authMiddleware, requireScope("boards:read"), async (ctx) => {
   try {
     const boardId = ctx.params.boardId;
-    const userId = ctx.state.userId!;
-
-    const board = (await getBoard(userId, boardId)) as Board | null;
 
-    if (!board) {
-      return notFound(ctx, "Board not found");
-    }
+    const access = await requireBoardAccess(ctx, boardId, "viewer");
+    if (!access) return;
+    const { board } = access;
 
     // Get all logs for this board
     const logs = (await getLogsByBoardId(boardId)) as Log[];
@@ -112,6 +145,8 @@ router.get("/api/export/:boardId/csv", authMiddleware, async (ctx) => {
       }
     }
 
+    await recordAudit(ctx, "export", { target: boardId, detail: "csv" });
+
     // Set response headers for file download
     ctx.response.headers.set("Content-Type", "text/csv");
     ctx.response.headers.set(
@@ -124,22 +159,25 @@ router.get("/api/export/:boardId/csv", authMiddleware, async (ctx) => {
   }
 });
 
-// Export all boards as JSON
-router.get("/api/export/all/json", authMiddleware, async (ctx) => {
+// Export all owned boards with their logs and notifications as JSON
+router.get("/api/export/all/json", apiDoc({
+  operationId: "exportAccount",
+  summary: "Download all owned boards with their logs and notifications",
+  tag: "Export",
+  produces: "application/json",
+  response: exportDocumentModel,
+  errors: [404, 429],
+}), authMiddleware, transferRateLimit, async (ctx) => {
   try {
     const userId = ctx.state.userId!;
 
-    // This would need to be implemented to get all user boards
-    // For now, return a placeholder
+    const user = (await getUserById(userId)) as User | null;
+    if (!user) {
+      return notFound(ctx, "User not found");
+    }
 
-    const exportData = {
-      exportDate: new Date().toISOString(),
-      user: {
-        id: userId,
-      },
-      boards: [], // Would fetch all boards here
-      logs: [], // Would fetch all logs here
-    };
+    const exportData = await buildExport(user);
+    await recordAudit(ctx, "export", { detail: "all boards (json)" });
 
     ctx.response.headers.set("Content-Type", "application/json");
     ctx.response.headers.set(
@@ -152,4 +190,50 @@ router.get("/api/export/all/json", authMiddleware, async (ctx) => {
   }
 });
 
+// Import a JSON export (?mode=merge keeps existing boards, ?mode=replace deletes them afterwards)
+router.post("/api/import/json", apiDoc({
+  operationId: "importAccount",
+  summary: "Import a JSON export",
+  description: "All IDs are regenerated. merge keeps existing boards, replace deletes them " +
+    "once the import has been written.",
+  tag: "Export",
+  query: {
+    mode: { description: "merge (default) or replace" },
+  },
+  body: exportDocumentModel,
+  status: 201,
+  response: importResultModel,
+  errors: [429],
+}), authMiddleware, transferRateLimit, validateQuery(importQuerySchema), async (ctx) => {
+  try {
+    const userId = ctx.state.userId!;
+    const { mode = "merge" } = ctx.state.query as ImportQuery;
+
+    const body = await ctx.request.body();
+    let doc: ExportDocument;
+    try {
+      doc = parseExport(await body.value);
+    } catch (err) {
+      if (err instanceof ImportError) {
+        return validationError(ctx, err.errors);
+      }
+      return validationError(ctx, [{
+        path: "",
+        code: "invalid_export",
+        message: "Invalid export: " + err.message,
+      }]);
+    }
+
+    const { scheduled, ...result } = await importExport(userId, doc, mode);
+
+    for (const notif of scheduled) {
+      await scheduleNotification(notif);
+    }
+
+    created(ctx, result);
+  } catch (err) {
+    error(ctx, "Failed to import data: " + err.message, 500);
+  }
+});
+
 export default router;
@@ -1,13 +1,13 @@
 // src/routes/logs.ts
 import { Router } from "https://deno.land/x/oak@v12.6.1/mod.ts";
-import type { Log } from "../types.ts";
+import type { Log, LogAction } from "../types.ts";
 import { generateId } from "../utils/crypto.ts";
 import {
   getLog,
-  getLogsByBoardId,
-  setLog,
+  getLogsPage,
+  updateLog,
   deleteLog as kvDeleteLog,
-  getBoard,
+  findLogById,
 } from "../utils/kv.ts";
 import {
   success,
@@ -15,42 +15,90 @@ import {
   created,
   noContent,
   notFound,
-  forbidden,
+  validationError,
 } from "../utils/response.ts";
-import { authMiddleware } from "../middleware/authMiddleware.ts";
+import { authMiddleware, requireScope } from "../middleware/authMiddleware.ts";
+import { getBoardAccess, requireBoardAccess } from "../utils/access.ts";
+import { validateBody, validateQuery } from "../middleware/validationMiddleware.ts";
+import { apiDoc } from "../utils/openapi.ts";
+import { DEFAULT_PAGE_SIZE, InvalidCursorError } from "../utils/pagination.ts";
+import {
+  createLogSchema,
+  logListQuerySchema,
+  logModel,
+  logPageModel,
+  type CreateLogInput,
+  type LogListQuery,
+} from "../schemas.ts";
+import { boardConflict, getIfMatch } from "../utils/etag.ts";
+import { indexLog } from "../utils/search.ts";
+import { dispatchWebhookEvent } from "../jobs/webhookDelivery.ts";
 
 const router = new Router();
 
-// Get all logs for a board
-router.get("/api/logs/:boardId", authMiddleware, async (ctx) => {
+// Get logs of a board by date, newest first
+// (?from=YYYY-MM-DD&to=YYYY-MM-DD&order=asc|desc&limit=&cursor=)
+router.get("/api/logs/:boardId", apiDoc({
+  operationId: "listLogs",
+  summary: "Logs of a board by date",
+  tag: "Logs",
+  params: { boardId: "Board ID" },
+  query: {
+    from: { description: "First date to include (YYYY-MM-DD)" },
+    to: { description: "Last date to include (YYYY-MM-DD)" },
+    order: { description: "asc or desc by date (default desc)" },
+    limit: { description: `Page size (default ${DEFAULT_PAGE_SIZE})` },
+    cursor: { description: "nextCursor of the previous page (same from/to/order)" },
+  },
+  response: logPageModel,
+  errors: [403, 404],
+}), authMiddleware, requireScope("logs:read"), validateQuery(logListQuerySchema), async (ctx) => {
   try {
     const boardId = ctx.params.boardId;
-    const userId = ctx.state.userId!;
-
-    // Verify board belongs to user
-    const board = await getBoard(userId, boardId);
-    if (!board) {
-      return forbidden(ctx, "Access denied");
+    const { from, to, order = "desc", limit = DEFAULT_PAGE_SIZE, cursor } =
+      ctx.state.query as LogListQuery;
+
+    if (from && to && from > to) {
+      return validationError(ctx, [{
+        path: "from",
+        code: "invalid_range",
+        message: "from must not be after to",
+      }]);
     }
 
-    const logs = await getLogsByBoardId(boardId);
-    success(ctx, logs);
+    const access = await requireBoardAccess(ctx, boardId, "viewer");
+    if (!access) return;
+
+    const page = await getLogsPage(boardId, {
+      from,
+      to,
+      limit,
+      cursor,
+      reverse: order === "desc",
+    });
+    success(ctx, page);
   } catch (err) {
+    if (err instanceof InvalidCursorError) {
+      return validationError(ctx, [err.fieldError]);
+    }
     error(ctx, "Failed to fetch logs: " + err.message, 500);
   }
 });
 
 // Get log for specific date
-router.get("/api/logs/:boardId/:date", authMiddleware, async (ctx) => {
+router.get("/api/logs/:boardId/:date", apiDoc({
+  operationId: "getLog",
+  summary: "Log of a board for one date",
+  tag: "Logs",
+  params: { boardId: "Board ID", date: "YYYY-MM-DD" },
+  response: logModel,
+  errors: [403, 404],
+}), authMiddleware, requireScope("logs:read"), async (ctx) => {
   try {
     const { boardId, date } = ctx.params;
-    const userId = ctx.state.userId!;
 
-    // Verify board belongs to user
-    const board = await getBoard(userId, boardId);
-    if (!board) {
-      return forbidden(ctx, "Access denied");
-    }
+    const access = await requireBoardAccess(ctx, boardId, "viewer");
+    if (!access) return;
 
     const log = await getLog(boardId, date);
 
@@ -65,48 +113,76 @@ router.get("/api/logs/:boardId/:date", authMiddleware, async (ctx) => {
 });
 
 // Create or update log entry
-router.post("/api/logs", authMiddleware, async (ctx) => {
+router.post("/api/logs", apiDoc({
+  operationId: "appendLog",
+  summary: "Append actions to the log of a date (creates the log if needed)",
+  description: "With If-Match the actions are only logged against that board version, " +
+    "otherwise 409 with the current board.",
+  tag: "Logs",
+  response: logModel,
+  errors: [403, 404, 409],
+}), authMiddleware, requireScope("logs:write"), validateBody(createLogSchema), async (ctx) => {
   try {
     const userId = ctx.state.userId!;
-    const body = await ctx.request.body();
-    const { boardId, actions, date } = await body.value;
+    const { boardId, actions: input, date } = ctx.state.body as CreateLogInput;
 
-    if (!boardId || !actions) {
-      return error(ctx, "boardId and actions are required");
-    }
+    const access = await requireBoardAccess(ctx, boardId, "editor");
+    if (!access) return;
 
-    // Verify board belongs to user
-    const board = await getBoard(userId, boardId);
-    if (!board) {
-      return forbidden(ctx, "Access denied");
+    // With If-Match the actions are only logged against that board version
+    const ifMatch = getIfMatch(ctx);
+    if (ifMatch && !ifMatch.includes(access.versionstamp)) {
+      return boardConflict(ctx, access.board, access.versionstamp);
     }
 
-    const logDate = date || new Date().toISOString().split("T")[0];
+    const now = new Date().toISOString();
+    const logDate = date || now.split("T")[0];
+    const actions: LogAction[] = input.map((action) => ({ ...action, time: action.time ?? now }));
+    const boardCheck = ifMatch
+      ? { key: ["board", access.ownerId, boardId], versionstamp: access.versionstamp }
+      : undefined;
+
+    // Append to the existing log for this date, or create it
+    const result = await updateLog<Log>(boardId, logDate, (existingLog) =>
+      existingLog
+        ? {
+          ...existingLog,
+          actions: [...existingLog.actions, ...actions],
+          completedAt: new Date().toISOString(),
+        }
+        : {
+          id: generateId(),
+          boardId,
+          userId,
+          date: logDate,
+          completedAt: new Date().toISOString(),
+          actions,
+        }, boardCheck);
+
+    if (!result) {
+      const current = await getBoardAccess(userId, boardId);
+      if (!current) {
+        return notFound(ctx, "Board not found");
+      }
+      return boardConflict(ctx, current.board, current.versionstamp);
+    }
 
-    // Check if log exists for this date
-    const existingLog = (await getLog(boardId, logDate)) as Log | null;
+    await indexLog(access.ownerId, boardId, logDate);
 
-    if (existingLog) {
-      // Append new actions to existing log
-      const updatedLog: Log = {
-        ...existingLog,
-        actions: [...existingLog.actions, ...actions],
-        completedAt: new Date().toISOString(),
-      };
-      await setLog(boardId, logDate, updatedLog);
-      success(ctx, updatedLog);
-    } else {
-      // Create new log
-      const newLog: Log = {
-        id: generateId(),
+    for (const action of actions) {
+      await dispatchWebhookEvent(boardId, `log.action.${action.type}`, {
         boardId,
-        userId,
+        boardTitle: access.board.title,
         date: logDate,
-        completedAt: new Date().toISOString(),
-        actions,
-      };
-      await setLog(boardId, logDate, newLog);
-      created(ctx, newLog);
+        action,
+        username: ctx.state.username,
+      });
+    }
+
+    if (result.created) {
+      created(ctx, result.log);
+    } else {
+      success(ctx, result.log);
     }
   } catch (err) {
     error(ctx, "Failed to create log: " + err.message, 500);
@@ -114,39 +190,29 @@ router.post("/api/logs", authMiddleware, async (ctx) => {
 });
 
 // Delete log
-router.delete("/api/logs/:id", authMiddleware, async (ctx) => {
+router.delete("/api/logs/:id", apiDoc({
+  operationId: "deleteLog",
+  summary: "Delete a log",
+  tag: "Logs",
+  params: { id: "Log ID" },
+  status: 204,
+  errors: [403, 404],
+}), authMiddleware, requireScope("logs:write"), async (ctx) => {
   try {
     const logId = ctx.params.id;
-    const userId = ctx.state.userId!;
 
     // Find the log across all boards
-    const allBoards = await getBoard(userId, "");
-    let foundLog = null;
-    let foundBoardId = "";
-    let foundDate = "";
-
-    // Search through boards to find the log
-    const logs = await getLogsByBoardId(logId);
-    for (const log of logs) {
-      if ((log as Log).id === logId) {
-        foundLog = log;
-        foundBoardId = (log as Log).boardId;
-        foundDate = (log as Log).date;
-        break;
-      }
-    }
+    const foundLog = (await findLogById(logId)) as Log | null;
 
     if (!foundLog) {
       return notFound(ctx, "Log not found");
     }
 
-    // Verify board belongs to user
-    const board = await getBoard(userId, foundBoardId);
-    if (!board) {
-      return forbidden(ctx, "Access denied");
-    }
+    const access = await requireBoardAccess(ctx, foundLog.boardId, "editor");
+    if (!access) return;
 
-    await kvDeleteLog(foundBoardId, foundDate);
+    await kvDeleteLog(foundLog.boardId, foundLog.date);
+    await indexLog(access.ownerId, foundLog.boardId, foundLog.date);
     noContent(ctx);
   } catch (err) {
     error(ctx, "Failed to delete log: " + err.message, 500);
@@ -0,0 +1,178 @@
+// src/routes/members.ts
+// Board sharing: invite users as viewer / editor / owner
+
+import { Router } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import type { BoardMember, User } from "../types.ts";
+import {
+  deleteBoardMember,
+  getBoardMember,
+  getBoardMembers,
+  getUserByUsername,
+  setBoardMember,
+} from "../utils/kv.ts";
+import { created, error, noContent, notFound, success } from "../utils/response.ts";
+import { authMiddleware } from "../middleware/authMiddleware.ts";
+import { requireBoardAccess } from "../utils/access.ts";
+import { validateBody } from "../middleware/validationMiddleware.ts";
+import { apiDoc } from "../utils/openapi.ts";
+import { array } from "../utils/validation.ts";
+import {
+  type AddMemberInput,
+  addMemberSchema,
+  boardMemberModel,
+  updateMemberSchema,
+} from "../schemas.ts";
+
+const router = new Router();
+
+// List members of a board
+router.get(
+  "/api/boards/:id/members",
+  apiDoc({
+    operationId: "listMembers",
+    summary: "Members of a board",
+    tag: "Sharing",
+    params: { id: "Board ID" },
+    response: array(boardMemberModel),
+    errors: [403, 404],
+  }),
+  authMiddleware,
+  async (ctx) => {
+    try {
+      const access = await requireBoardAccess(ctx, ctx.params.id, "viewer");
+      if (!access) return;
+
+      const members = await getBoardMembers(access.board.id);
+      success(ctx, members);
+    } catch (err) {
+      error(ctx, "Failed to fetch members: " + err.message, 500);
+    }
+  },
+);
+
+// Invite a user to a board
+router.post(
+  "/api/boards/:id/members",
+  apiDoc({
+    operationId: "addMember",
+    summary: "Invite a user to a board",
+    tag: "Sharing",
+    params: { id: "Board ID" },
+    status: 201,
+    response: boardMemberModel,
+    errors: [403, 404, 409],
+  }),
+  authMiddleware,
+  validateBody(addMemberSchema),
+  async (ctx) => {
+    try {
+      const userId = ctx.state.userId!;
+      const access = await requireBoardAccess(ctx, ctx.params.id, "owner");
+      if (!access) return;
+
+      const { username, role } = ctx.state.body as AddMemberInput;
+
+      const invitee = (await getUserByUsername(username)) as User | null;
+      if (!invitee) {
+        return notFound(ctx, "User not found");
+      }
+
+      if (invitee.id === access.ownerId) {
+        return error(ctx, "User already owns this board", 409);
+      }
+
+      const existing = await getBoardMember(access.board.id, invitee.id);
+      if (existing) {
+        return error(ctx, "User is already a member of this board", 409);
+      }
+
+      const member: BoardMember = {
+        boardId: access.board.id,
+        userId: invitee.id,
+        username: invitee.username,
+        role,
+        addedBy: userId,
+        addedAt: new Date().toISOString(),
+      };
+
+      await setBoardMember(access.ownerId, member);
+      created(ctx, member);
+    } catch (err) {
+      error(ctx, "Failed to add member: " + err.message, 500);
+    }
+  },
+);
+
+// Change a member's role
+router.put(
+  "/api/boards/:id/members/:userId",
+  apiDoc({
+    operationId: "updateMember",
+    summary: "Change a member's role",
+    tag: "Sharing",
+    params: { id: "Board ID", userId: "Member user ID" },
+    response: boardMemberModel,
+    errors: [403, 404],
+  }),
+  authMiddleware,
+  validateBody(updateMemberSchema),
+  async (ctx) => {
+    try {
+      const access = await requireBoardAccess(ctx, ctx.params.id, "owner");
+      if (!access) return;
+
+      const member = (await getBoardMember(
+        access.board.id,
+        ctx.params.userId,
+      )) as BoardMember | null;
+
+      if (!member) {
+        return notFound(ctx, "Member not found");
+      }
+
+      const { role } = ctx.state.body as Pick<BoardMember, "role">;
+
+      const updatedMember: BoardMember = { ...member, role };
+      await setBoardMember(access.ownerId, updatedMember);
+      success(ctx, updatedMember);
+    } catch (err) {
+      error(ctx, "Failed to update member: " + err.message, 500);
+    }
+  },
+);
+
+// Remove a member (members may also remove themselves)
+router.delete(
+  "/api/boards/:id/members/:userId",
+  apiDoc({
+    operationId: "removeMember",
+    summary: "Remove a member (members may also remove themselves)",
+    tag: "Sharing",
+    params: { id: "Board ID", userId: "Member user ID" },
+    status: 204,
+    errors: [403, 404],
+  }),
+  authMiddleware,
+  async (ctx) => {
+    try {
+      const userId = ctx.state.userId!;
+      const memberId = ctx.params.userId;
+      const required = memberId === userId ? "viewer" : "owner";
+
+      const access = await requireBoardAccess(ctx, ctx.params.id, required);
+      if (!access) return;
+
+      const member = await getBoardMember(access.board.id, memberId);
+      if (!member) {
+        return notFound(ctx, "Member not found");
+      }
+
+      await deleteBoardMember(access.board.id, memberId);
+      noContent(ctx);
+    } catch (err) {
+      error(ctx, "Failed to remove member: " + err.message, 500);
+    }
+  },
+);
+
+export default router;
@@ -1,13 +1,12 @@
 // src/routes/notify.ts
 import { Router } from "https://deno.land/x/oak@v12.6.1/mod.ts";
-import type { Notification } from "../types.ts";
+import type { Notification, NotificationStatus } from "../types.ts";
 import { generateId } from "../utils/crypto.ts";
 import {
-  getNotification,
+  findNotificationById,
   getNotificationsByBoardId,
   setNotification,
   deleteNotification as kvDeleteNotification,
-  getBoard,
 } from "../utils/kv.ts";
 import {
   success,
@@ -15,53 +14,88 @@ import {
   created,
   noContent,
   notFound,
-  forbidden,
+  validationError,
 } from "../utils/response.ts";
-import { authMiddleware } from "../middleware/authMiddleware.ts";
+import { authMiddleware, requireScope } from "../middleware/authMiddleware.ts";
+import { requireBoardAccess } from "../utils/access.ts";
+import {
+  NOTIFICATION_STATUSES,
+  nextRecurrence,
+  normalizeNotification,
+  scheduleNotification,
+} from "../jobs/notificationDispatcher.ts";
+import { getOccurrences, parseRRule } from "../utils/rrule.ts";
+import { validateBody, validateQuery } from "../middleware/validationMiddleware.ts";
+import { apiDoc } from "../utils/openapi.ts";
+import { array } from "../utils/validation.ts";
+import {
+  createNotificationSchema,
+  notificationListQuerySchema,
+  type NotificationListQuery,
+  notificationModel,
+  occurrencesModel,
+  type OccurrencesQuery,
+  occurrencesQuerySchema,
+  type CreateNotificationInput,
+} from "../schemas.ts";
 
 const router = new Router();
 
-// Get all notifications for a board
-router.get("/api/notify/:boardId", authMiddleware, async (ctx) => {
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Longest window an occurrence preview may cover
+const MAX_OCCURRENCE_WINDOW_DAYS = 366;
+
+// Get notifications for a board
+// ?status=due,delivered filters by status (default: everything not dismissed)
+router.get("/api/notify/:boardId", apiDoc({
+  operationId: "listNotifications",
+  summary: "Notifications of a board",
+  tag: "Notifications",
+  params: { boardId: "Board ID" },
+  query: {
+    status: {
+      description: "Comma-separated statuses to include (default: everything not dismissed)",
+    },
+  },
+  response: array(notificationModel),
+  errors: [403, 404],
+}), authMiddleware, requireScope("notify:read"), validateQuery(notificationListQuerySchema), async (ctx) => {
   try {
     const boardId = ctx.params.boardId;
-    const userId = ctx.state.userId!;
+    const query = ctx.state.query as NotificationListQuery;
 
-    // Verify board belongs to user
-    const board = await getBoard(userId, boardId);
-    if (!board) {
-      return forbidden(ctx, "Access denied");
-    }
+    const access = await requireBoardAccess(ctx, boardId, "viewer");
+    if (!access) return;
 
-    const notifications = await getNotificationsByBoardId(boardId);
+    const statuses = query.status
+      ? query.status.split(",").map((s) => s.trim()) as NotificationStatus[]
+      : NOTIFICATION_STATUSES.filter((s) => s !== "dismissed");
 
-    // Filter only active (non-dismissed) notifications
-    const activeNotifications = (notifications as Notification[]).filter(
-      (n) => !n.dismissed,
-    );
+    const notifications = (await getNotificationsByBoardId(boardId) as Notification[])
+      .map(normalizeNotification)
+      .filter((n) => statuses.includes(n.status));
 
-    success(ctx, activeNotifications);
+    success(ctx, notifications);
   } catch (err) {
     error(ctx, "Failed to fetch notifications: " + err.message, 500);
   }
 });
 
 // Create new notification
-router.post("/api/notify", authMiddleware, async (ctx) => {
+router.post("/api/notify", apiDoc({
+  operationId: "createNotification",
+  summary: "Schedule a notification (optionally recurring via rrule)",
+  tag: "Notifications",
+  status: 201,
+  response: notificationModel,
+  errors: [403, 404],
+}), authMiddleware, requireScope("notify:write"), validateBody(createNotificationSchema), async (ctx) => {
   try {
     const userId = ctx.state.userId!;
-    const body = await ctx.request.body();
-    const { boardId, message, time } = await body.value;
-
-    if (!boardId || !message || !time) {
-      return error(ctx, "boardId, message, and time are required");
-    }
+    const { boardId, message, time, rrule } = ctx.state.body as CreateNotificationInput;
 
-    // Verify board belongs to user
-    const board = await getBoard(userId, boardId);
-    if (!board) {
-      return forbidden(ctx, "Access denied");
-    }
+    const access = await requireBoardAccess(ctx, boardId, "editor");
+    if (!access) return;
 
     const notifId = generateId();
 
@@ -70,11 +104,19 @@ router.post("/api/notify", authMiddleware, async (ctx) => {
       boardId,
       userId,
       message,
-      time,
+      time: new Date(time).toISOString(),
       dismissed: false,
+      status: "scheduled",
+      attempts: 0,
+      ...(rrule && {
+        rrule,
+        dtstart: new Date(time).toISOString(),
+        occurrence: 0,
+      }),
     };
 
     await setNotification(boardId, notifId, newNotification);
+    await scheduleNotification(newNotification);
     created(ctx, newNotification);
   } catch (err) {
     error(ctx, "Failed to create notification: " + err.message, 500);
@@ -82,69 +124,183 @@ router.post("/api/notify", authMiddleware, async (ctx) => {
 });
 
 // Dismiss notification
-router.patch("/api/notify/:id/dismiss", authMiddleware, async (ctx) => {
+router.patch("/api/notify/:id/dismiss", apiDoc({
+  operationId: "dismissNotification",
+  summary: "Dismiss a notification (recurring ones move to the next occurrence)",
+  tag: "Notifications",
+  params: { id: "Notification ID" },
+  response: notificationModel,
+  errors: [403, 404],
+}), authMiddleware, requireScope("notify:write"), async (ctx) => {
   try {
     const notifId = ctx.params.id;
-    const userId = ctx.state.userId!;
 
     // Find notification across all boards
-    let foundNotif: Notification | null = null;
-    let foundBoardId = "";
-
-    // Search through user's boards
-    const allNotifications = await getNotificationsByBoardId("");
-    for (const notif of allNotifications) {
-      const n = notif as Notification;
-      if (n.id === notifId && n.userId === userId) {
-        foundNotif = n;
-        foundBoardId = n.boardId;
-        break;
-      }
-    }
+    const foundNotif = (await findNotificationById(notifId)) as Notification | null;
 
     if (!foundNotif) {
       return notFound(ctx, "Notification not found");
     }
 
+    const access = await requireBoardAccess(ctx, foundNotif.boardId, "editor");
+    if (!access) return;
+
     // Update notification
     const updatedNotif: Notification = {
-      ...foundNotif,
+      ...normalizeNotification(foundNotif),
       dismissed: true,
+      status: "dismissed",
+      dismissedAt: new Date().toISOString(),
     };
 
-    await setNotification(foundBoardId, notifId, updatedNotif);
-    success(ctx, updatedNotif);
+    // Recurring notifications move on to their next occurrence
+    const next = nextRecurrence(updatedNotif);
+    await setNotification(foundNotif.boardId, notifId, next ?? updatedNotif);
+    if (next) await scheduleNotification(next);
+
+    success(ctx, next ?? updatedNotif);
   } catch (err) {
     error(ctx, "Failed to dismiss notification: " + err.message, 500);
   }
 });
 
+// Acknowledge delivery of a due notification
+router.patch("/api/notify/:id/delivered", apiDoc({
+  operationId: "markNotificationDelivered",
+  summary: "Mark a due notification as delivered",
+  tag: "Notifications",
+  params: { id: "Notification ID" },
+  response: notificationModel,
+  errors: [403, 404, 409],
+}), authMiddleware, requireScope("notify:write"), async (ctx) => {
+  try {
+    const notifId = ctx.params.id;
+
+    const foundNotif = (await findNotificationById(notifId)) as Notification | null;
+
+    if (!foundNotif) {
+      return notFound(ctx, "Notification not found");
+    }
+
+    const access = await requireBoardAccess(ctx, foundNotif.boardId, "editor");
+    if (!access) return;
+
+    const notif = normalizeNotification(foundNotif);
+    if (notif.status !== "due") {
+      return error(ctx, `Notification is ${notif.status}, not due`, 409);
+    }
+
+    const updatedNotif: Notification = {
+      ...notif,
+      status: "delivered",
+      deliveredAt: new Date().toISOString(),
+    };
+
+    // Recurring notifications move on to their next occurrence
+    const next = nextRecurrence(updatedNotif);
+    await setNotification(notif.boardId, notifId, next ?? updatedNotif);
+    if (next) await scheduleNotification(next);
+
+    success(ctx, next ?? updatedNotif);
+  } catch (err) {
+    error(ctx, "Failed to mark notification delivered: " + err.message, 500);
+  }
+});
+
+// Preview upcoming firings of a notification
+router.get("/api/notify/:id/occurrences", apiDoc({
+  operationId: "listNotificationOccurrences",
+  summary: "Preview upcoming firings of a notification",
+  tag: "Notifications",
+  params: { id: "Notification ID" },
+  query: {
+    from: { description: "Start of the window (default: now)" },
+    to: {
+      description: "End of the window (default: from + 30 days, " +
+        `at most ${MAX_OCCURRENCE_WINDOW_DAYS} days after from)`,
+    },
+    limit: { description: "Maximum occurrences (default 100, max 500)" },
+  },
+  response: occurrencesModel,
+  errors: [403, 404],
+}), authMiddleware, requireScope("notify:read"), validateQuery(occurrencesQuerySchema), async (ctx) => {
+  try {
+    const notifId = ctx.params.id;
+    const query = ctx.state.query as OccurrencesQuery;
+
+    const from = new Date(query.from ?? Date.now());
+    const to = query.to ? new Date(query.to) : new Date(from.getTime() + 30 * DAY_MS);
+    const limit = query.limit ?? 100;
+
+    if (to < from) {
+      return validationError(ctx, [{
+        path: "to",
+        code: "invalid_range",
+        message: "to must not be before from",
+      }]);
+    }
+    if (to.getTime() - from.getTime() > MAX_OCCURRENCE_WINDOW_DAYS * DAY_MS) {
+      return validationError(ctx, [{
+        path: "to",
+        code: "invalid_range",
+        message: `to must be at most ${MAX_OCCURRENCE_WINDOW_DAYS} days after from`,
+      }]);
+    }
+
+    const foundNotif = (await findNotificationById(notifId)) as Notification | null;
+
+    if (!foundNotif) {
+      return notFound(ctx, "Notification not found");
+    }
+
+    const access = await requireBoardAccess(ctx, foundNotif.boardId, "viewer");
+    if (!access) return;
+
+    let occurrences: Date[];
+    if (foundNotif.rrule) {
+      const rule = parseRRule(foundNotif.rrule);
+      const dtstart = new Date(foundNotif.dtstart ?? foundNotif.time);
+      occurrences = getOccurrences(rule, dtstart, from, to, limit);
+    } else {
+      const time = new Date(foundNotif.time);
+      occurrences = time >= from && time <= to ? [time] : [];
+    }
+
+    success(ctx, {
+      id: foundNotif.id,
+      rrule: foundNotif.rrule ?? null,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      occurrences: occurrences.map((d) => d.toISOString()),
+    });
+  } catch (err) {
+    error(ctx, "Failed to preview occurrences: " + err.message, 500);
+  }
+});
+
 // Delete notification
-router.delete("/api/notify/:id", authMiddleware, async (ctx) => {
+router.delete("/api/notify/:id", apiDoc({
+  operationId: "deleteNotification",
+  summary: "Delete a notification",
+  tag: "Notifications",
+  params: { id: "Notification ID" },
+  status: 204,
+  errors: [403, 404],
+}), authMiddleware, requireScope("notify:write"), async (ctx) => {
   try {
     const notifId = ctx.params.id;
-    const userId = ctx.state.userId!;
 
     // Find notification across all boards
-    let foundNotif: Notification | null = null;
-    let foundBoardId = "";
-
-    // Search through user's boards
-    const allNotifications = await getNotificationsByBoardId("");
-    for (const notif of allNotifications) {
-      const n = notif as Notification;
-      if (n.id === notifId && n.userId === userId) {
-        foundNotif = n;
-        foundBoardId = n.boardId;
-        break;
-      }
-    }
+    const foundNotif = (await findNotificationById(notifId)) as Notification | null;
 
     if (!foundNotif) {
       return notFound(ctx, "Notification not found");
     }
 
-    await kvDeleteNotification(foundBoardId, notifId);
+    const access = await requireBoardAccess(ctx, foundNotif.boardId, "editor");
+    if (!access) return;
+
+    await kvDeleteNotification(foundNotif.boardId, notifId);
     noContent(ctx);
   } catch (err) {
     error(ctx, "Failed to delete notification: " + err.message, 500);
@@ -0,0 +1,186 @@
+// src/routes/revisions.ts
+// Board revision history: list, view, diff against current, restore
+
+import { Router } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import type { BoardRevision } from "../types.ts";
+import { getRevision, getRevisionsByBoardId } from "../utils/kv.ts";
+import { error, notFound, success } from "../utils/response.ts";
+import { authMiddleware } from "../middleware/authMiddleware.ts";
+import { requireBoardAccess } from "../utils/access.ts";
+import { diffLines } from "../utils/diff.ts";
+import { restoreRevision } from "../utils/revisions.ts";
+import { indexBoard } from "../utils/search.ts";
+import { boardConflict, getIfMatch, setVersionETag } from "../utils/etag.ts";
+import { apiDoc } from "../utils/openapi.ts";
+import { array } from "../utils/validation.ts";
+import { boardModel, revisionDiffModel, revisionMetaModel, revisionModel } from "../schemas.ts";
+
+const router = new Router();
+
+function parseRev(value: string): number | null {
+  const rev = Number(value);
+  return Number.isInteger(rev) && rev > 0 ? rev : null;
+}
+
+// List revisions of a board, newest first (without markdown)
+router.get(
+  "/api/boards/:id/revisions",
+  apiDoc({
+    operationId: "listRevisions",
+    summary: "Revisions of a board, newest first (without markdown)",
+    tag: "Revisions",
+    params: { id: "Board ID" },
+    response: array(revisionMetaModel),
+    errors: [403, 404],
+  }),
+  authMiddleware,
+  async (ctx) => {
+    try {
+      const boardId = ctx.params.id;
+
+      const access = await requireBoardAccess(ctx, boardId, "viewer");
+      if (!access) return;
+
+      const revisions = (await getRevisionsByBoardId(boardId)) as BoardRevision[];
+      success(ctx, revisions.map(({ markdown: _, ...meta }) => meta));
+    } catch (err) {
+      error(ctx, "Failed to fetch revisions: " + err.message, 500);
+    }
+  },
+);
+
+// Get a single revision with its markdown
+router.get(
+  "/api/boards/:id/revisions/:rev",
+  apiDoc({
+    operationId: "getRevision",
+    summary: "A single revision with its markdown",
+    tag: "Revisions",
+    params: { id: "Board ID", rev: "Revision number" },
+    response: revisionModel,
+    errors: [400, 403, 404],
+  }),
+  authMiddleware,
+  async (ctx) => {
+    try {
+      const boardId = ctx.params.id;
+      const rev = parseRev(ctx.params.rev);
+      if (rev === null) {
+        return error(ctx, "Revision must be a positive integer");
+      }
+
+      const access = await requireBoardAccess(ctx, boardId, "viewer");
+      if (!access) return;
+
+      const revision = (await getRevision(boardId, rev)) as BoardRevision | null;
+      if (!revision) {
+        return notFound(ctx, "Revision not found");
+      }
+
+      success(ctx, revision);
+    } catch (err) {
+      error(ctx, "Failed to fetch revision: " + err.message, 500);
+    }
+  },
+);
+
+// Line diff from a revision to the current markdown
+router.get(
+  "/api/boards/:id/revisions/:rev/diff",
+  apiDoc({
+    operationId: "diffRevision",
+    summary: "Line diff from a revision to the current markdown",
+    tag: "Revisions",
+    params: { id: "Board ID", rev: "Revision number" },
+    response: revisionDiffModel,
+    errors: [400, 403, 404],
+  }),
+  authMiddleware,
+  async (ctx) => {
+    try {
+      const boardId = ctx.params.id;
+      const rev = parseRev(ctx.params.rev);
+      if (rev === null) {
+        return error(ctx, "Revision must be a positive integer");
+      }
+
+      const access = await requireBoardAccess(ctx, boardId, "viewer");
+      if (!access) return;
+
+      const revision = (await getRevision(boardId, rev)) as BoardRevision | null;
+      if (!revision) {
+        return notFound(ctx, "Revision not found");
+      }
+
+      success(ctx, {
+        rev,
+        titleChanged: revision.title !== access.board.title,
+        ...diffLines(revision.markdown, access.board.markdown),
+      });
+    } catch (err) {
+      error(ctx, "Failed to diff revision: " + err.message, 500);
+    }
+  },
+);
+
+// Roll the board back to a revision (recorded as a new revision)
+router.post(
+  "/api/boards/:id/revisions/:rev/restore",
+  apiDoc({
+    operationId: "restoreRevision",
+    summary: "Roll the board back to a revision (recorded as a new revision)",
+    tag: "Revisions",
+    params: { id: "Board ID", rev: "Revision number" },
+    response: boardModel,
+    headers: { ETag: "New board version" },
+    errors: [400, 403, 404, 409],
+  }),
+  authMiddleware,
+  async (ctx) => {
+    try {
+      const boardId = ctx.params.id;
+      const rev = parseRev(ctx.params.rev);
+      if (rev === null) {
+        return error(ctx, "Revision must be a positive integer");
+      }
+
+      const access = await requireBoardAccess(ctx, boardId, "editor");
+      if (!access) return;
+      const { board } = access;
+
+      const revision = (await getRevision(boardId, rev)) as BoardRevision | null;
+      if (!revision) {
+        return notFound(ctx, "Revision not found");
+      }
+
+      const ifMatch = getIfMatch(ctx);
+      if (ifMatch && !ifMatch.includes(access.versionstamp)) {
+        return boardConflict(ctx, board, access.versionstamp);
+      }
+
+      const result = await restoreRevision(
+        access.ownerId,
+        board,
+        revision,
+        { id: ctx.state.userId!, username: ctx.state.username! },
+        ifMatch ? access.versionstamp : undefined,
+      );
+
+      if (!result.ok) {
+        if (!result.board) {
+          return notFound(ctx, "Board not found");
+        }
+        return boardConflict(ctx, result.board, result.versionstamp!);
+      }
+
+      await indexBoard(access.ownerId, boardId);
+
+      setVersionETag(ctx, result.versionstamp);
+      success(ctx, result.board);
+    } catch (err) {
+      error(ctx, "Failed to restore revision: " + err.message, 500);
+    }
+  },
+);
+
+export default router;
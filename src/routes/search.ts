@@ -0,0 +1,70 @@
+// src/routes/search.ts
+// Full-text search across the user's boards and logged tasks
+
+import { Router } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import { error, success, validationError } from "../utils/response.ts";
+import { authMiddleware, requireScope } from "../middleware/authMiddleware.ts";
+import { validateQuery } from "../middleware/validationMiddleware.ts";
+import { rateLimitMiddleware } from "../middleware/securityMiddleware.ts";
+import { apiDoc } from "../utils/openapi.ts";
+import {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_QUERY_TERMS,
+  searchBoards,
+  searchTerms,
+} from "../utils/search.ts";
+import { type SearchQuery, searchQuerySchema, searchResultsModel } from "../schemas.ts";
+
+const router = new Router();
+
+// Each search reads index ranges for every term, so keep bursts in check
+const searchRateLimit = rateLimitMiddleware({
+  name: "search",
+  windowMs: 60 * 1000,
+  maxRequests: 30,
+  by: "user",
+  message: "Too many searches, please slow down",
+});
+
+// Search boards, sections, task lines and logged tasks (?q=&limit=)
+router.get(
+  "/api/search",
+  apiDoc({
+    operationId: "search",
+    summary: "Search own and shared boards, their tasks and logged tasks",
+    description: "Every word of q must occur in the board (as a word prefix, case-insensitive). " +
+      "Snippets are HTML-escaped with matches wrapped in <mark>.",
+    tag: "Search",
+    query: {
+      q: { description: "Search words (at least one of 2+ letters or digits)" },
+      limit: { description: `Maximum number of boards (default ${DEFAULT_SEARCH_LIMIT})` },
+    },
+    response: searchResultsModel,
+    errors: [429],
+  }),
+  authMiddleware,
+  requireScope("boards:read"),
+  searchRateLimit,
+  validateQuery(searchQuerySchema),
+  async (ctx) => {
+    try {
+      const { q, limit = DEFAULT_SEARCH_LIMIT } = ctx.state.query as SearchQuery;
+
+      const terms = searchTerms(q).slice(0, MAX_QUERY_TERMS);
+      if (terms.length === 0) {
+        return validationError(ctx, [{
+          path: "q",
+          code: "no_terms",
+          message: "q must contain a word of at least 2 letters or digits",
+        }]);
+      }
+
+      const items = await searchBoards(ctx.state.userId!, terms, limit);
+      success(ctx, { query: q, terms, items });
+    } catch (err) {
+      error(ctx, "Failed to search: " + err.message, 500);
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,80 @@
+// src/routes/sessions.ts
+// List and revoke login sessions (devices)
+
+import { Router } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import type { Session } from "../types.ts";
+import { getSession, getSessionsByUserId } from "../utils/kv.ts";
+import { error, noContent, notFound, success } from "../utils/response.ts";
+import { authMiddleware } from "../middleware/authMiddleware.ts";
+import { revokeSession } from "../utils/session.ts";
+import { apiDoc } from "../utils/openapi.ts";
+import { array } from "../utils/validation.ts";
+import { type SessionInfo, sessionInfoModel } from "../schemas.ts";
+
+const router = new Router();
+
+// List active sessions of the current user
+router.get(
+  "/api/sessions",
+  apiDoc({
+    operationId: "listSessions",
+    summary: "Active sessions (devices) of the current user",
+    tag: "Auth",
+    response: array(sessionInfoModel),
+  }),
+  authMiddleware,
+  async (ctx) => {
+    try {
+      const userId = ctx.state.userId!;
+      const now = Date.now();
+
+      const sessions = ((await getSessionsByUserId(userId)) as Session[])
+        .filter((s) => new Date(s.expiresAt).getTime() > now)
+        .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt))
+        .map((s): SessionInfo => ({
+          id: s.id,
+          userAgent: s.userAgent,
+          ip: s.ip,
+          createdAt: s.createdAt,
+          lastUsedAt: s.lastUsedAt,
+          expiresAt: s.expiresAt,
+          current: s.id === ctx.state.sessionId,
+        }));
+
+      success(ctx, sessions);
+    } catch (err) {
+      error(ctx, "Failed to fetch sessions: " + err.message, 500);
+    }
+  },
+);
+
+// Revoke a session (signs that device out)
+router.delete(
+  "/api/sessions/:id",
+  apiDoc({
+    operationId: "revokeSession",
+    summary: "Revoke a session (signs that device out)",
+    tag: "Auth",
+    params: { id: "Session ID" },
+    status: 204,
+    errors: [404],
+  }),
+  authMiddleware,
+  async (ctx) => {
+    try {
+      const userId = ctx.state.userId!;
+      const session = (await getSession(userId, ctx.params.id)) as Session | null;
+
+      if (!session) {
+        return notFound(ctx, "Session not found");
+      }
+
+      await revokeSession(session);
+      noContent(ctx);
+    } catch (err) {
+      error(ctx, "Failed to revoke session: " + err.message, 500);
+    }
+  },
+);
+
+export default router;
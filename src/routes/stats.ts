@@ -0,0 +1,78 @@
+// src/routes/stats.ts
+// Completion statistics and streaks per board
+
+import { Router } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import type { Log } from "../types.ts";
+import { getLogsByBoardId } from "../utils/kv.ts";
+import { error, success, validationError } from "../utils/response.ts";
+import { authMiddleware, requireScope } from "../middleware/authMiddleware.ts";
+import { requireBoardAccess } from "../utils/access.ts";
+import { validateQuery } from "../middleware/validationMiddleware.ts";
+import {
+  computeBoardStats,
+  DEFAULT_STATS_DAYS,
+  formatDay,
+  MAX_STATS_DAYS,
+  parseDay,
+} from "../utils/stats.ts";
+import { apiDoc } from "../utils/openapi.ts";
+import { boardStatsModel, type StatsQuery, statsQuerySchema } from "../schemas.ts";
+
+const router = new Router();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Get board statistics (?from=YYYY-MM-DD&to=YYYY-MM-DD, default last 90 days)
+router.get(
+  "/api/stats/:boardId",
+  apiDoc({
+    operationId: "getBoardStats",
+    summary: "Completion rate, streaks, per-task frequency and heatmap of a board",
+    tag: "Stats",
+    params: { boardId: "Board ID" },
+    query: {
+      from: { description: "YYYY-MM-DD (default: 90 days before to)" },
+      to: { description: "YYYY-MM-DD (default: today)" },
+    },
+    response: boardStatsModel,
+    errors: [403, 404],
+  }),
+  authMiddleware,
+  requireScope("boards:read"),
+  validateQuery(statsQuerySchema),
+  async (ctx) => {
+    try {
+      const boardId = ctx.params.boardId;
+      const query = ctx.state.query as StatsQuery;
+
+      const to = parseDay(query.to ?? formatDay(Date.now()))!;
+      const from = query.from ? parseDay(query.from)! : to - (DEFAULT_STATS_DAYS - 1) * DAY_MS;
+
+      if (from > to) {
+        return validationError(ctx, [{
+          path: "from",
+          code: "invalid_range",
+          message: "from must not be after to",
+        }]);
+      }
+
+      if ((to - from) / DAY_MS + 1 > MAX_STATS_DAYS) {
+        return validationError(ctx, [{
+          path: "from",
+          code: "invalid_range",
+          message: `Date range cannot exceed ${MAX_STATS_DAYS} days`,
+        }]);
+      }
+
+      const access = await requireBoardAccess(ctx, boardId, "viewer");
+      if (!access) return;
+
+      const logs = (await getLogsByBoardId(boardId)) as Log[];
+      success(ctx, computeBoardStats(access.board, logs, from, to));
+    } catch (err) {
+      error(ctx, "Failed to compute stats: " + err.message, 500);
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,214 @@
+// src/routes/templates.ts
+// Board templates: built-in library plus templates saved from own boards
+
+import { Router } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import type { BoardTemplate } from "../types.ts";
+import { generateId } from "../utils/crypto.ts";
+import {
+  deleteTemplate as kvDeleteTemplate,
+  getTemplatesByUserId,
+  setTemplate,
+} from "../utils/kv.ts";
+import { created, error, forbidden, noContent, notFound, success } from "../utils/response.ts";
+import { authMiddleware } from "../middleware/authMiddleware.ts";
+import { requireBoardAccess } from "../utils/access.ts";
+import { uncheckAllTasks } from "../utils/markdown.ts";
+import {
+  BUILT_IN_TEMPLATES,
+  findTemplate,
+  MAX_TEMPLATES_PER_USER,
+  TEMPLATE_PLACEHOLDERS,
+} from "../utils/templates.ts";
+import { validateBody } from "../middleware/validationMiddleware.ts";
+import { apiDoc } from "../utils/openapi.ts";
+import { array } from "../utils/validation.ts";
+import {
+  type CreateTemplateInput,
+  createTemplateSchema,
+  templateModel,
+  type UpdateTemplateInput,
+  updateTemplateSchema,
+} from "../schemas.ts";
+
+const router = new Router();
+
+const PLACEHOLDER_HELP = "Placeholders expanded on board creation: " +
+  Object.keys(TEMPLATE_PLACEHOLDERS).map((name) => `{{${name}}}`).join(", ") + ".";
+
+// List built-in templates and the user's own templates
+router.get(
+  "/api/templates",
+  apiDoc({
+    operationId: "listTemplates",
+    summary: "Built-in templates followed by the user's own templates",
+    description: PLACEHOLDER_HELP,
+    tag: "Templates",
+    response: array(templateModel),
+  }),
+  authMiddleware,
+  async (ctx) => {
+    try {
+      const own = ((await getTemplatesByUserId(ctx.state.userId!)) as BoardTemplate[])
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+      success(ctx, [...BUILT_IN_TEMPLATES, ...own]);
+    } catch (err) {
+      error(ctx, "Failed to fetch templates: " + err.message, 500);
+    }
+  },
+);
+
+// Get a single template
+router.get(
+  "/api/templates/:id",
+  apiDoc({
+    operationId: "getTemplate",
+    summary: "Get a template",
+    tag: "Templates",
+    params: { id: "Template ID" },
+    response: templateModel,
+    errors: [404],
+  }),
+  authMiddleware,
+  async (ctx) => {
+    try {
+      const template = await findTemplate(ctx.state.userId!, ctx.params.id);
+      if (!template) {
+        return notFound(ctx, "Template not found");
+      }
+
+      success(ctx, template);
+    } catch (err) {
+      error(ctx, "Failed to fetch template: " + err.message, 500);
+    }
+  },
+);
+
+// Save a board as a template (tasks are stored unchecked)
+router.post(
+  "/api/templates",
+  apiDoc({
+    operationId: "createTemplate",
+    summary: "Save a board as a template",
+    description:
+      "Copies the board's title, markdown (all tasks unchecked), schedule and resetTime. " +
+      PLACEHOLDER_HELP,
+    tag: "Templates",
+    status: 201,
+    response: templateModel,
+    errors: [400, 403, 404],
+  }),
+  authMiddleware,
+  validateBody(createTemplateSchema),
+  async (ctx) => {
+    try {
+      const userId = ctx.state.userId!;
+      const { boardId, name, description } = ctx.state.body as CreateTemplateInput;
+
+      const access = await requireBoardAccess(ctx, boardId, "viewer");
+      if (!access) return;
+
+      const existing = await getTemplatesByUserId(userId);
+      if (existing.length >= MAX_TEMPLATES_PER_USER) {
+        return error(ctx, `You can save at most ${MAX_TEMPLATES_PER_USER} templates`);
+      }
+
+      const now = new Date().toISOString();
+      const template: BoardTemplate = {
+        id: generateId(),
+        userId,
+        name,
+        ...(description && { description }),
+        title: access.board.title,
+        markdown: uncheckAllTasks(access.board.markdown),
+        schedule: access.board.schedule,
+        resetTime: access.board.resetTime,
+        builtIn: false,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await setTemplate(userId, template.id, template);
+      created(ctx, template);
+    } catch (err) {
+      error(ctx, "Failed to create template: " + err.message, 500);
+    }
+  },
+);
+
+// Update one of the user's templates (e.g. to add placeholders)
+router.put(
+  "/api/templates/:id",
+  apiDoc({
+    operationId: "updateTemplate",
+    summary: "Update an own template",
+    description: PLACEHOLDER_HELP,
+    tag: "Templates",
+    params: { id: "Template ID" },
+    response: templateModel,
+    errors: [403, 404],
+  }),
+  authMiddleware,
+  validateBody(updateTemplateSchema),
+  async (ctx) => {
+    try {
+      const userId = ctx.state.userId!;
+      const { description, ...changes } = ctx.state.body as UpdateTemplateInput;
+
+      const template = await findTemplate(userId, ctx.params.id);
+      if (!template) {
+        return notFound(ctx, "Template not found");
+      }
+      if (template.builtIn) {
+        return forbidden(ctx, "Built-in templates cannot be changed");
+      }
+
+      const updated: BoardTemplate = {
+        ...template,
+        ...changes,
+        ...(description && { description }),
+        updatedAt: new Date().toISOString(),
+      };
+      if (description === null || description === "") delete updated.description;
+
+      await setTemplate(userId, updated.id, updated);
+      success(ctx, updated);
+    } catch (err) {
+      error(ctx, "Failed to update template: " + err.message, 500);
+    }
+  },
+);
+
+// Delete one of the user's templates
+router.delete(
+  "/api/templates/:id",
+  apiDoc({
+    operationId: "deleteTemplate",
+    summary: "Delete an own template",
+    tag: "Templates",
+    params: { id: "Template ID" },
+    status: 204,
+    errors: [403, 404],
+  }),
+  authMiddleware,
+  async (ctx) => {
+    try {
+      const userId = ctx.state.userId!;
+
+      const template = await findTemplate(userId, ctx.params.id);
+      if (!template) {
+        return notFound(ctx, "Template not found");
+      }
+      if (template.builtIn) {
+        return forbidden(ctx, "Built-in templates cannot be deleted");
+      }
+
+      await kvDeleteTemplate(userId, template.id);
+      noContent(ctx);
+    } catch (err) {
+      error(ctx, "Failed to delete template: " + err.message, 500);
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,127 @@
+// src/routes/tokens.ts
+// Personal access tokens for scripts and integrations (mint, list, revoke)
+
+import { Router } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import type { ApiToken } from "../types.ts";
+import { deleteApiToken, getApiToken, getApiTokensByUserId } from "../utils/kv.ts";
+import { created, error, noContent, notFound, success } from "../utils/response.ts";
+import { authMiddleware } from "../middleware/authMiddleware.ts";
+import { validateBody } from "../middleware/validationMiddleware.ts";
+import {
+  API_SCOPES,
+  API_TOKEN_PREFIX,
+  createApiToken,
+  MAX_API_TOKENS_PER_USER,
+} from "../utils/apiTokens.ts";
+import { recordAudit } from "../utils/audit.ts";
+import { apiDoc } from "../utils/openapi.ts";
+import { array } from "../utils/validation.ts";
+import {
+  type ApiTokenInfo,
+  apiTokenModel,
+  type CreateApiTokenInput,
+  createApiTokenSchema,
+  createdApiTokenModel,
+} from "../schemas.ts";
+
+const router = new Router();
+
+function toApiTokenInfo({ userId: _, tokenHash: __, ...info }: ApiToken): ApiTokenInfo {
+  return info;
+}
+
+// List the user's tokens (without the token secrets)
+router.get(
+  "/api/tokens",
+  apiDoc({
+    operationId: "listApiTokens",
+    summary: "Personal access tokens of the current user",
+    tag: "Tokens",
+    response: array(apiTokenModel),
+  }),
+  authMiddleware,
+  async (ctx) => {
+    try {
+      const now = Date.now();
+      const tokens = ((await getApiTokensByUserId(ctx.state.userId!)) as ApiToken[])
+        .filter((token) => !token.expiresAt || new Date(token.expiresAt).getTime() > now)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map(toApiTokenInfo);
+
+      success(ctx, tokens);
+    } catch (err) {
+      error(ctx, "Failed to fetch tokens: " + err.message, 500);
+    }
+  },
+);
+
+// Mint a token; the response is the only time the token is shown
+router.post(
+  "/api/tokens",
+  apiDoc({
+    operationId: "createApiToken",
+    summary: "Create a personal access token",
+    description: `Send it as "Authorization: Bearer ${API_TOKEN_PREFIX}...". ` +
+      `Scopes: ${API_SCOPES.join(", ")}; a write scope includes reading. ` +
+      "Tokens work on board, task, log, notification, event, search and stats endpoints only.",
+    tag: "Tokens",
+    status: 201,
+    response: createdApiTokenModel,
+    errors: [400],
+  }),
+  authMiddleware,
+  validateBody(createApiTokenSchema),
+  async (ctx) => {
+    try {
+      const userId = ctx.state.userId!;
+      const input = ctx.state.body as CreateApiTokenInput;
+
+      const existing = await getApiTokensByUserId(userId);
+      if (existing.length >= MAX_API_TOKENS_PER_USER) {
+        return error(ctx, `You can have at most ${MAX_API_TOKENS_PER_USER} tokens`);
+      }
+
+      const { token, apiToken } = await createApiToken(userId, input);
+      await recordAudit(ctx, "api_token_created", {
+        target: apiToken.id,
+        detail: `${apiToken.name} (${apiToken.scopes.join(", ")})`,
+      });
+      created(ctx, { ...toApiTokenInfo(apiToken), token });
+    } catch (err) {
+      error(ctx, "Failed to create token: " + err.message, 500);
+    }
+  },
+);
+
+// Revoke a token
+router.delete(
+  "/api/tokens/:id",
+  apiDoc({
+    operationId: "revokeApiToken",
+    summary: "Revoke a personal access token",
+    tag: "Tokens",
+    params: { id: "Token ID" },
+    status: 204,
+    errors: [404],
+  }),
+  authMiddleware,
+  async (ctx) => {
+    try {
+      const userId = ctx.state.userId!;
+      const tokenId = ctx.params.id;
+
+      const apiToken = (await getApiToken(userId, tokenId)) as ApiToken | null;
+      if (!apiToken) {
+        return notFound(ctx, "Token not found");
+      }
+
+      await deleteApiToken(userId, tokenId);
+      await recordAudit(ctx, "api_token_revoked", { target: tokenId, detail: apiToken.name });
+      noContent(ctx);
+    } catch (err) {
+      error(ctx, "Failed to revoke token: " + err.message, 500);
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,124 @@
+// src/routes/trash.ts
+// Boards in the trash: list, restore, delete permanently
+
+import { Router } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import type { Board } from "../types.ts";
+import { getBoardsByUserId, updateBoard } from "../utils/kv.ts";
+import { error, noContent, notFound, success } from "../utils/response.ts";
+import { authMiddleware } from "../middleware/authMiddleware.ts";
+import { requireBoardAccess } from "../utils/access.ts";
+import { setVersionETag } from "../utils/etag.ts";
+import { getPurgeAt, purgeBoard, TRASH_RETENTION_DAYS } from "../jobs/trashPurge.ts";
+import { recordAudit } from "../utils/audit.ts";
+import { apiDoc } from "../utils/openapi.ts";
+import { array } from "../utils/validation.ts";
+import { boardModel, type TrashedBoard, trashedBoardModel } from "../schemas.ts";
+
+const router = new Router();
+
+// List the user's boards in the trash, most recently deleted first
+router.get(
+  "/api/trash",
+  apiDoc({
+    operationId: "listTrash",
+    summary: "Boards in the trash",
+    description: `Boards stay in the trash for ${TRASH_RETENTION_DAYS} days (see purgeAt).`,
+    tag: "Trash",
+    response: array(trashedBoardModel),
+  }),
+  authMiddleware,
+  async (ctx) => {
+    try {
+      const boards = ((await getBoardsByUserId(ctx.state.userId!)) as Board[])
+        .filter((board) => board.deletedAt)
+        .map((board): TrashedBoard => ({ ...board, purgeAt: getPurgeAt(board)! }))
+        .sort((a, b) => b.deletedAt!.localeCompare(a.deletedAt!));
+
+      success(ctx, boards);
+    } catch (err) {
+      error(ctx, "Failed to fetch trash: " + err.message, 500);
+    }
+  },
+);
+
+// Restore a board from the trash
+router.post(
+  "/api/boards/:id/restore",
+  apiDoc({
+    operationId: "restoreBoard",
+    summary: "Restore a board from the trash",
+    tag: "Trash",
+    params: { id: "Board ID" },
+    response: boardModel,
+    headers: { ETag: "Board version" },
+    errors: [403, 404, 409],
+  }),
+  authMiddleware,
+  async (ctx) => {
+    try {
+      const boardId = ctx.params.id;
+
+      const access = await requireBoardAccess(ctx, boardId, "owner", { trashed: true });
+      if (!access) return;
+
+      if (!access.board.deletedAt) {
+        return error(ctx, "Board is not in the trash", 409);
+      }
+
+      // A board whose purge has started is left to the purge
+      const result = await updateBoard<Board>(access.ownerId, boardId, (current) => {
+        if (current.purgingAt) return current;
+        const { deletedAt: _, ...restored } = current;
+        return restored;
+      });
+      if (!result.ok) {
+        return notFound(ctx, "Board not found");
+      }
+      if (result.board.purgingAt) {
+        return error(ctx, "Board is being deleted permanently", 409);
+      }
+
+      setVersionETag(ctx, result.versionstamp);
+      success(ctx, result.board);
+    } catch (err) {
+      error(ctx, "Failed to restore board: " + err.message, 500);
+    }
+  },
+);
+
+// Delete a board in the trash permanently, without waiting for the purge
+router.delete(
+  "/api/trash/:id",
+  apiDoc({
+    operationId: "purgeBoard",
+    summary: "Permanently delete a board in the trash",
+    description: "Deletes the board with its logs, notifications, members and revisions.",
+    tag: "Trash",
+    params: { id: "Board ID" },
+    status: 204,
+    errors: [403, 404, 409],
+  }),
+  authMiddleware,
+  async (ctx) => {
+    try {
+      const boardId = ctx.params.id;
+
+      const access = await requireBoardAccess(ctx, boardId, "owner", { trashed: true });
+      if (!access) return;
+
+      if (!access.board.deletedAt) {
+        return error(ctx, "Move the board to the trash first", 409);
+      }
+
+      if (!(await purgeBoard(access.ownerId, boardId))) {
+        return error(ctx, "Board was restored or changed meanwhile, try again", 409);
+      }
+      await recordAudit(ctx, "board_purged", { target: boardId, detail: access.board.title });
+      noContent(ctx);
+    } catch (err) {
+      error(ctx, "Failed to delete board: " + err.message, 500);
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,200 @@
+// src/routes/twoFactor.ts
+// Two-factor authentication (TOTP): enroll, confirm, recovery codes, disable
+
+import { Router } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import type { User } from "../types.ts";
+import { verifyPassword } from "../utils/crypto.ts";
+import { getUserById } from "../utils/kv.ts";
+import { error, noContent, notFound, success } from "../utils/response.ts";
+import { authMiddleware } from "../middleware/authMiddleware.ts";
+import { validateBody } from "../middleware/validationMiddleware.ts";
+import {
+  confirmTwoFactorSetup,
+  disableTwoFactor,
+  getTwoFactor,
+  RECOVERY_CODE_COUNT,
+  regenerateRecoveryCodes,
+  startTwoFactorSetup,
+  verifySecondFactor,
+} from "../utils/twoFactor.ts";
+import { recordAudit } from "../utils/audit.ts";
+import { apiDoc } from "../utils/openapi.ts";
+import {
+  disableTwoFactorSchema,
+  recoveryCodesModel,
+  twoFactorCodeSchema,
+  twoFactorSetupModel,
+  type TwoFactorStatus,
+  twoFactorStatusModel,
+} from "../schemas.ts";
+
+const router = new Router();
+
+// 2FA status of the current user
+router.get(
+  "/api/me/2fa",
+  apiDoc({
+    operationId: "getTwoFactor",
+    summary: "Two-factor authentication status",
+    tag: "Account",
+    response: twoFactorStatusModel,
+  }),
+  authMiddleware,
+  async (ctx) => {
+    try {
+      const twoFactor = await getTwoFactor(ctx.state.userId!);
+      const status: TwoFactorStatus = twoFactor
+        ? {
+          enabled: true,
+          enabledAt: twoFactor.enabledAt,
+          recoveryCodesLeft: twoFactor.recoveryCodeHashes.length,
+        }
+        : { enabled: false };
+
+      success(ctx, status);
+    } catch (err) {
+      error(ctx, "Failed to fetch two-factor status: " + err.message, 500);
+    }
+  },
+);
+
+// Start enrollment: a new secret for the authenticator app
+router.post(
+  "/api/me/2fa/setup",
+  apiDoc({
+    operationId: "setupTwoFactor",
+    summary: "Start two-factor enrollment",
+    description: "Scan otpauthUri (or enter secret) in an authenticator app, then confirm " +
+      "with a code within 10 minutes.",
+    tag: "Account",
+    response: twoFactorSetupModel,
+    errors: [404, 409],
+  }),
+  authMiddleware,
+  async (ctx) => {
+    try {
+      const user = (await getUserById(ctx.state.userId!)) as User | null;
+      if (!user) {
+        return notFound(ctx, "User not found");
+      }
+      if (user.twoFactorEnabled) {
+        return error(ctx, "Two-factor authentication is already enabled", 409);
+      }
+
+      success(ctx, await startTwoFactorSetup(user));
+    } catch (err) {
+      error(ctx, "Failed to start two-factor setup: " + err.message, 500);
+    }
+  },
+);
+
+// Confirm enrollment with a code; returns the recovery codes once
+router.post(
+  "/api/me/2fa/confirm",
+  apiDoc({
+    operationId: "confirmTwoFactor",
+    summary: "Enable two-factor authentication",
+    description: `Returns ${RECOVERY_CODE_COUNT} one-time recovery codes. They are only shown now.`,
+    tag: "Account",
+    response: recoveryCodesModel,
+    errors: [400, 404],
+  }),
+  authMiddleware,
+  validateBody(twoFactorCodeSchema),
+  async (ctx) => {
+    try {
+      const { code } = ctx.state.body as { code: string };
+
+      const recoveryCodes = await confirmTwoFactorSetup(ctx.state.userId!, code);
+      if (recoveryCodes === "no_setup") {
+        return notFound(ctx, "No two-factor setup in progress, start one first");
+      }
+      if (!recoveryCodes) {
+        return error(ctx, "Invalid code");
+      }
+
+      await recordAudit(ctx, "two_factor_enabled");
+      success(ctx, { recoveryCodes });
+    } catch (err) {
+      error(ctx, "Failed to enable two-factor authentication: " + err.message, 500);
+    }
+  },
+);
+
+// Replace the recovery codes (requires a current code)
+router.post(
+  "/api/me/2fa/recovery-codes",
+  apiDoc({
+    operationId: "regenerateRecoveryCodes",
+    summary: "Replace the recovery codes",
+    description: "Invalidates all previous recovery codes.",
+    tag: "Account",
+    response: recoveryCodesModel,
+    errors: [400, 409],
+  }),
+  authMiddleware,
+  validateBody(twoFactorCodeSchema),
+  async (ctx) => {
+    try {
+      const userId = ctx.state.userId!;
+      const { code } = ctx.state.body as { code: string };
+
+      if (!(await getTwoFactor(userId))) {
+        return error(ctx, "Two-factor authentication is not enabled", 409);
+      }
+      if (!(await verifySecondFactor(userId, code))) {
+        return error(ctx, "Invalid code");
+      }
+
+      const recoveryCodes = await regenerateRecoveryCodes(userId);
+      if (!recoveryCodes) {
+        return error(ctx, "Two-factor settings changed meanwhile, try again", 409);
+      }
+      success(ctx, { recoveryCodes });
+    } catch (err) {
+      error(ctx, "Failed to regenerate recovery codes: " + err.message, 500);
+    }
+  },
+);
+
+// Disable 2FA (requires the password and a code)
+router.delete(
+  "/api/me/2fa",
+  apiDoc({
+    operationId: "disableTwoFactor",
+    summary: "Disable two-factor authentication",
+    tag: "Account",
+    status: 204,
+    errors: [403, 404, 409],
+  }),
+  authMiddleware,
+  validateBody(disableTwoFactorSchema),
+  async (ctx) => {
+    try {
+      const userId = ctx.state.userId!;
+      const { password, code } = ctx.state.body as { password: string; code: string };
+
+      const user = (await getUserById(userId)) as User | null;
+      if (!user) {
+        return notFound(ctx, "User not found");
+      }
+      if (!user.twoFactorEnabled) {
+        return error(ctx, "Two-factor authentication is not enabled", 409);
+      }
+
+      if (
+        !verifyPassword(password, user.passwordHash) || !(await verifySecondFactor(userId, code))
+      ) {
+        return error(ctx, "Password or code is incorrect", 403);
+      }
+
+      await disableTwoFactor(userId);
+      await recordAudit(ctx, "two_factor_disabled");
+      noContent(ctx);
+    } catch (err) {
+      error(ctx, "Failed to disable two-factor authentication: " + err.message, 500);
+    }
+  },
+);
+
+export default router;
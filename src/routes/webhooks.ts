@@ -0,0 +1,285 @@
+// src/routes/webhooks.ts
+// Outgoing webhooks per board: subscribe, update, delete, ping and the
+// delivery log. Only board owners manage them.
+
+import { Router } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import type { Webhook } from "../types.ts";
+import {
+  created,
+  error,
+  noContent,
+  notFound,
+  success,
+  validationError,
+} from "../utils/response.ts";
+import { authMiddleware } from "../middleware/authMiddleware.ts";
+import { requireBoardAccess } from "../utils/access.ts";
+import {
+  createWebhook,
+  DELIVERY_RETENTION_DAYS,
+  getDeliveriesPage,
+  getWebhook,
+  getWebhooksByBoardId,
+  MAX_WEBHOOKS_PER_BOARD,
+  updateWebhook,
+  WEBHOOK_EVENTS,
+} from "../utils/webhooks.ts";
+import { deleteKeys, webhookKeys } from "../utils/cascade.ts";
+import {
+  DISABLE_AFTER_FAILED_DELIVERIES,
+  MAX_DELIVERY_ATTEMPTS,
+  queueWebhookDelivery,
+} from "../jobs/webhookDelivery.ts";
+import { recordAudit } from "../utils/audit.ts";
+import { validateBody, validateQuery } from "../middleware/validationMiddleware.ts";
+import { apiDoc } from "../utils/openapi.ts";
+import { DEFAULT_PAGE_SIZE, InvalidCursorError } from "../utils/pagination.ts";
+import { array } from "../utils/validation.ts";
+import {
+  createdWebhookModel,
+  type CreateWebhookInput,
+  createWebhookSchema,
+  type PageQuery,
+  pageQuerySchema,
+  type UpdateWebhookInput,
+  updateWebhookSchema,
+  webhookDeliveryModel,
+  webhookDeliveryPageModel,
+  type WebhookInfo,
+  webhookModel,
+} from "../schemas.ts";
+
+const router = new Router();
+
+const webhookParams = { id: "Board ID", webhookId: "Webhook ID" };
+
+function toWebhookInfo({ secret: _, ...info }: Webhook): WebhookInfo {
+  return info;
+}
+
+// List the board's webhooks (without their secrets)
+router.get(
+  "/api/boards/:id/webhooks",
+  apiDoc({
+    operationId: "listWebhooks",
+    summary: "Webhooks of a board",
+    tag: "Webhooks",
+    params: { id: "Board ID" },
+    response: array(webhookModel),
+    errors: [403, 404],
+  }),
+  authMiddleware,
+  async (ctx) => {
+    try {
+      const access = await requireBoardAccess(ctx, ctx.params.id, "owner");
+      if (!access) return;
+
+      const webhooks = (await getWebhooksByBoardId(access.board.id))
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .map(toWebhookInfo);
+      success(ctx, webhooks);
+    } catch (err) {
+      error(ctx, "Failed to fetch webhooks: " + err.message, 500);
+    }
+  },
+);
+
+// Subscribe a URL to board events; the response is the only time the secret is shown
+router.post(
+  "/api/boards/:id/webhooks",
+  apiDoc({
+    operationId: "createWebhook",
+    summary: "Add a webhook to a board",
+    description: `Events: ${WEBHOOK_EVENTS.join(", ")}. Deliveries are POST requests signed ` +
+      'with X-MarkDash-Signature: sha256=HMAC-SHA256(secret, "<X-MarkDash-Timestamp>.<body>"). ' +
+      `Failed deliveries are retried up to ${MAX_DELIVERY_ATTEMPTS} attempts with exponential ` +
+      `backoff; after ${DISABLE_AFTER_FAILED_DELIVERIES} failed deliveries in a row the webhook ` +
+      "is disabled.",
+    tag: "Webhooks",
+    params: { id: "Board ID" },
+    status: 201,
+    response: createdWebhookModel,
+    errors: [400, 403, 404],
+  }),
+  authMiddleware,
+  validateBody(createWebhookSchema),
+  async (ctx) => {
+    try {
+      const access = await requireBoardAccess(ctx, ctx.params.id, "owner");
+      if (!access) return;
+      const boardId = access.board.id;
+
+      const existing = await getWebhooksByBoardId(boardId);
+      if (existing.length >= MAX_WEBHOOKS_PER_BOARD) {
+        return error(ctx, `A board can have at most ${MAX_WEBHOOKS_PER_BOARD} webhooks`);
+      }
+
+      const input = ctx.state.body as CreateWebhookInput;
+      const webhook = await createWebhook(boardId, ctx.state.userId!, input);
+      await recordAudit(ctx, "webhook_created", { target: webhook.id, detail: webhook.url });
+      created(ctx, webhook);
+    } catch (err) {
+      error(ctx, "Failed to create webhook: " + err.message, 500);
+    }
+  },
+);
+
+// Update a webhook; enabling it again clears the failure count
+router.put(
+  "/api/boards/:id/webhooks/:webhookId",
+  apiDoc({
+    operationId: "updateWebhook",
+    summary: "Update or re-enable a webhook",
+    tag: "Webhooks",
+    params: webhookParams,
+    response: webhookModel,
+    errors: [403, 404],
+  }),
+  authMiddleware,
+  validateBody(updateWebhookSchema),
+  async (ctx) => {
+    try {
+      const access = await requireBoardAccess(ctx, ctx.params.id, "owner");
+      if (!access) return;
+
+      const { url, events, active } = ctx.state.body as UpdateWebhookInput;
+
+      const updated = await updateWebhook(access.board.id, ctx.params.webhookId, (current) => {
+        const next: Webhook = {
+          ...current,
+          ...(url && { url }),
+          ...(events && { events: WEBHOOK_EVENTS.filter((event) => events.includes(event)) }),
+          ...(active !== undefined && { active }),
+          updatedAt: new Date().toISOString(),
+        };
+        if (active && !current.active) {
+          next.failedDeliveries = 0;
+          delete next.disabledAt;
+        }
+        return next;
+      });
+      if (!updated) {
+        return notFound(ctx, "Webhook not found");
+      }
+
+      success(ctx, toWebhookInfo(updated));
+    } catch (err) {
+      error(ctx, "Failed to update webhook: " + err.message, 500);
+    }
+  },
+);
+
+// Delete a webhook with its delivery log
+router.delete(
+  "/api/boards/:id/webhooks/:webhookId",
+  apiDoc({
+    operationId: "deleteWebhook",
+    summary: "Delete a webhook",
+    tag: "Webhooks",
+    params: webhookParams,
+    status: 204,
+    errors: [403, 404],
+  }),
+  authMiddleware,
+  async (ctx) => {
+    try {
+      const access = await requireBoardAccess(ctx, ctx.params.id, "owner");
+      if (!access) return;
+
+      const webhook = await getWebhook(access.board.id, ctx.params.webhookId);
+      if (!webhook) {
+        return notFound(ctx, "Webhook not found");
+      }
+
+      await deleteKeys(webhookKeys(webhook.boardId, webhook.id));
+      await recordAudit(ctx, "webhook_deleted", { target: webhook.id, detail: webhook.url });
+      noContent(ctx);
+    } catch (err) {
+      error(ctx, "Failed to delete webhook: " + err.message, 500);
+    }
+  },
+);
+
+// Send a "ping" event, e.g. to try a receiver
+router.post(
+  "/api/boards/:id/webhooks/:webhookId/ping",
+  apiDoc({
+    operationId: "pingWebhook",
+    summary: "Send a test delivery",
+    description: "Queues a ping event; its result shows up in the delivery log.",
+    tag: "Webhooks",
+    params: webhookParams,
+    status: 202,
+    response: webhookDeliveryModel,
+    errors: [403, 404, 409],
+  }),
+  authMiddleware,
+  async (ctx) => {
+    try {
+      const access = await requireBoardAccess(ctx, ctx.params.id, "owner");
+      if (!access) return;
+
+      const webhook = await getWebhook(access.board.id, ctx.params.webhookId);
+      if (!webhook) {
+        return notFound(ctx, "Webhook not found");
+      }
+      if (!webhook.active) {
+        return error(ctx, "Webhook is disabled, enable it first", 409);
+      }
+
+      const delivery = await queueWebhookDelivery(webhook, "ping", {
+        board: { id: access.board.id, title: access.board.title },
+      });
+      success(ctx, delivery, 202);
+    } catch (err) {
+      error(ctx, "Failed to ping webhook: " + err.message, 500);
+    }
+  },
+);
+
+// Delivery log of a webhook, newest first (?order=asc|desc&limit=&cursor=)
+router.get(
+  "/api/boards/:id/webhooks/:webhookId/deliveries",
+  apiDoc({
+    operationId: "listWebhookDeliveries",
+    summary: "Delivery log of a webhook",
+    description: `Deliveries are kept for ${DELIVERY_RETENTION_DAYS} days.`,
+    tag: "Webhooks",
+    params: webhookParams,
+    query: {
+      order: { description: "asc or desc by time (default desc)" },
+      limit: { description: `Page size (default ${DEFAULT_PAGE_SIZE})` },
+      cursor: { description: "nextCursor of the previous page (same order)" },
+    },
+    response: webhookDeliveryPageModel,
+    errors: [403, 404],
+  }),
+  authMiddleware,
+  validateQuery(pageQuerySchema),
+  async (ctx) => {
+    try {
+      const access = await requireBoardAccess(ctx, ctx.params.id, "owner");
+      if (!access) return;
+
+      const webhook = await getWebhook(access.board.id, ctx.params.webhookId);
+      if (!webhook) {
+        return notFound(ctx, "Webhook not found");
+      }
+
+      const { order = "desc", limit = DEFAULT_PAGE_SIZE, cursor } = ctx.state.query as PageQuery;
+      const page = await getDeliveriesPage(webhook.id, {
+        limit,
+        cursor,
+        reverse: order === "desc",
+      });
+      success(ctx, page);
+    } catch (err) {
+      if (err instanceof InvalidCursorError) {
+        return validationError(ctx, [err.fieldError]);
+      }
+      error(ctx, "Failed to fetch deliveries: " + err.message, 500);
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,1078 @@
+// src/schemas.ts
+// Request body schemas. Input types are derived from the interfaces in
+// types.ts, so a field added there fails type-checking here until the
+// schema handles it.
+
+import type {
+  ApiScope,
+  ApiToken,
+  AuditEntry,
+  Board,
+  BoardMember,
+  BoardRevision,
+  BoardRole,
+  BoardStats,
+  BoardTemplate,
+  HeatmapDay,
+  LockoutNotice,
+  Log,
+  LogAction,
+  LogTaskHit,
+  Notification,
+  Page,
+  PeriodStats,
+  SearchResult,
+  SearchResults,
+  SectionHit,
+  Session,
+  TaskHit,
+  TaskItem,
+  TaskSection,
+  TaskStats,
+  TaskTree,
+  User,
+  UserSettings,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+} from "./types.ts";
+import {
+  anyOf,
+  array,
+  boolean,
+  date,
+  dateTime,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  refine,
+  type Schema,
+  string,
+  time,
+} from "./utils/validation.ts";
+import { model, ref } from "./utils/openapi.ts";
+import { BOARD_ROLES } from "./utils/access.ts";
+import type { TokenPair } from "./utils/session.ts";
+import type { DiffLine, LineDiff } from "./utils/diff.ts";
+import {
+  EXPORT_FORMAT,
+  type ExportDocument,
+  IMPORT_MODES,
+  type ImportMode,
+  type ImportResult,
+} from "./utils/transfer.ts";
+import { NOTIFICATION_STATUSES } from "./jobs/notificationDispatcher.ts";
+import type { AccountDeletionJob } from "./jobs/accountDeletion.ts";
+import { MAX_REVISION_RETENTION } from "./utils/settings.ts";
+import { SLUG_MAX_LENGTH, SLUG_MIN_LENGTH, SLUG_RE } from "./utils/slug.ts";
+import { parseRRule } from "./utils/rrule.ts";
+import { MAX_PAGE_SIZE, SORT_ORDERS, type SortOrder } from "./utils/pagination.ts";
+import { MAX_SEARCH_LIMIT } from "./utils/search.ts";
+import { API_SCOPES, MAX_API_TOKEN_DAYS } from "./utils/apiTokens.ts";
+import { AUDIT_ACTIONS } from "./utils/audit.ts";
+import { checkWebhookUrl, WEBHOOK_EVENTS } from "./utils/webhooks.ts";
+
+// Board values are stored as single KV entries (64 KiB max)
+const MAX_MARKDOWN_LENGTH = 50_000;
+const MAX_ACTIONS_PER_REQUEST = 500;
+
+const USERNAME_RE = /^[a-zA-Z0-9_.-]+$/;
+
+const username = string({
+  min: 3,
+  max: 32,
+  pattern: USERNAME_RE,
+  patternMessage: "username may only contain letters, digits, '_', '.' and '-'",
+});
+const newPassword = string({ min: 6, max: 128 });
+const anyPassword = string({ max: 128 });
+
+// "" is accepted and means the same as null: no slug
+const slug = refine(string({ min: 0, max: SLUG_MAX_LENGTH }), (value) => {
+  if (value === "") return null;
+  if (value.length < SLUG_MIN_LENGTH) return `must be at least ${SLUG_MIN_LENGTH} characters`;
+  return SLUG_RE.test(value)
+    ? null
+    : "may only contain lowercase letters, digits and single dashes";
+});
+
+// Pagination (query parameters)
+
+export interface PageQuery {
+  cursor?: string;
+  limit?: number;
+  order?: SortOrder;
+}
+
+const pageQueryFields = {
+  cursor: optional(string({ max: 1000 })),
+  limit: optional(number({ integer: true, min: 1, max: MAX_PAGE_SIZE, coerce: true })),
+  order: optional(oneOf(SORT_ORDERS)),
+};
+
+// For lists without filters of their own
+export const pageQuerySchema = object<PageQuery>(pageQueryFields);
+
+// Auth
+
+export interface CredentialsInput {
+  username: string;
+  password: string;
+}
+
+export const registerSchema = model(
+  "RegisterInput",
+  object<CredentialsInput>({
+    username,
+    password: newPassword,
+  }),
+);
+
+// Existing accounts may predate the username rules
+export const loginSchema = model(
+  "LoginInput",
+  object<CredentialsInput>({
+    username: string({ max: 64 }),
+    password: anyPassword,
+  }),
+);
+
+export interface RefreshTokenInput {
+  refreshToken: string;
+}
+
+export const refreshTokenSchema = model(
+  "RefreshTokenInput",
+  object<RefreshTokenInput>({
+    refreshToken: string({ max: 512 }),
+  }),
+);
+
+// A TOTP code from the authenticator app, or a recovery code
+const secondFactorCode = string({ min: 6, max: 32, trim: true });
+
+export interface TwoFactorLoginInput {
+  challengeToken: string;
+  code: string;
+}
+
+export const twoFactorLoginSchema = model(
+  "TwoFactorLoginInput",
+  object<TwoFactorLoginInput>({
+    challengeToken: string({ max: 512 }),
+    code: secondFactorCode,
+  }),
+);
+
+export interface UnlockLoginInput {
+  username: string;
+  recoveryCode: string;
+}
+
+export const unlockLoginSchema = model(
+  "UnlockLoginInput",
+  object<UnlockLoginInput>({
+    username: string({ max: 64 }),
+    recoveryCode: secondFactorCode,
+  }),
+);
+
+// Account
+
+export interface ChangePasswordInput {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export const changePasswordSchema = model(
+  "ChangePasswordInput",
+  object<ChangePasswordInput>({
+    currentPassword: anyPassword,
+    newPassword,
+  }),
+);
+
+export const changeUsernameSchema = model(
+  "ChangeUsernameInput",
+  object<Pick<User, "username">>({ username }),
+);
+
+export const deleteAccountSchema = model(
+  "DeleteAccountInput",
+  object<{ password: string }>({ password: anyPassword }),
+);
+
+export const twoFactorCodeSchema = model(
+  "TwoFactorCodeInput",
+  object<{ code: string }>({ code: secondFactorCode }),
+);
+
+export const disableTwoFactorSchema = model(
+  "DisableTwoFactorInput",
+  object<{ password: string; code: string }>({ password: anyPassword, code: secondFactorCode }),
+);
+
+export const updateSettingsSchema = model(
+  "UpdateSettingsInput",
+  object<Partial<UserSettings>>({
+    revisionRetention: optional(number({ integer: true, min: 1, max: MAX_REVISION_RETENTION })),
+  }),
+);
+
+// Boards
+
+// title and markdown may only be left out when creating from a template
+export type CreateBoardInput =
+  & Partial<Pick<Board, "title" | "markdown" | "visibility" | "schedule" | "resetTime">>
+  & { slug?: string | null }; // null removes the slug
+
+export type UpdateBoardInput = CreateBoardInput;
+
+const boardFields = {
+  title: string({ max: 200, trim: true }),
+  markdown: string({ max: MAX_MARKDOWN_LENGTH }),
+  visibility: optional(oneOf<Board["visibility"]>(["private", "public"])),
+  schedule: optional(oneOf<Board["schedule"]>(["daily", "weekly", "custom"])),
+  resetTime: optional(time()),
+  slug: optional(nullable(slug)),
+};
+
+export const createBoardSchema = model(
+  "CreateBoardInput",
+  object<CreateBoardInput>({
+    ...boardFields,
+    title: optional(boardFields.title),
+    markdown: optional(boardFields.markdown),
+  }),
+);
+
+export const updateBoardSchema = model(
+  "UpdateBoardInput",
+  object<UpdateBoardInput>({
+    ...boardFields,
+    title: optional(boardFields.title),
+    markdown: optional(boardFields.markdown),
+  }),
+);
+
+export interface CreateBoardQuery {
+  template?: string;
+}
+
+export const createBoardQuerySchema = object<CreateBoardQuery>({
+  template: optional(string({ max: 100 })),
+});
+
+// Templates
+
+export interface CreateTemplateInput {
+  boardId: string;
+  name: string;
+  description?: string;
+}
+
+export const createTemplateSchema = model(
+  "CreateTemplateInput",
+  object<CreateTemplateInput>({
+    boardId: string(),
+    name: string({ max: 100, trim: true }),
+    description: optional(string({ max: 500 })),
+  }),
+);
+
+export type UpdateTemplateInput =
+  & Partial<
+    Pick<BoardTemplate, "name" | "title" | "markdown" | "schedule" | "resetTime">
+  >
+  & { description?: string | null }; // null removes the description
+
+export const updateTemplateSchema = model(
+  "UpdateTemplateInput",
+  object<UpdateTemplateInput>({
+    name: optional(string({ max: 100, trim: true })),
+    description: optional(nullable(string({ max: 500 }))),
+    title: optional(boardFields.title),
+    markdown: optional(boardFields.markdown),
+    schedule: boardFields.schedule,
+    resetTime: boardFields.resetTime,
+  }),
+);
+
+// API tokens
+
+export interface CreateApiTokenInput {
+  name: string;
+  scopes: ApiScope[];
+  expiresInDays?: number; // no expiry when absent
+}
+
+export const createApiTokenSchema = model(
+  "CreateApiTokenInput",
+  object<CreateApiTokenInput>({
+    name: string({ max: 100, trim: true }),
+    scopes: array(oneOf(API_SCOPES), { min: 1, max: API_SCOPES.length }),
+    expiresInDays: optional(number({ integer: true, min: 1, max: MAX_API_TOKEN_DAYS })),
+  }),
+);
+
+export type BoardSort = "updatedAt" | "createdAt" | "title";
+
+export interface BoardListQuery extends PageQuery {
+  sort?: BoardSort;
+  archived?: boolean;
+}
+
+export const boardListQuerySchema = object<BoardListQuery>({
+  ...pageQueryFields,
+  sort: optional(oneOf<BoardSort>(["updatedAt", "createdAt", "title"])),
+  archived: optional(boolean({ coerce: true })),
+});
+
+// Webhooks
+
+export type CreateWebhookInput =
+  & Pick<Webhook, "url" | "events">
+  & Partial<Pick<Webhook, "active">>;
+
+export type UpdateWebhookInput = Partial<CreateWebhookInput>;
+
+const webhookUrl = refine(string({ max: 2000, trim: true }), checkWebhookUrl);
+const webhookEvents = array(oneOf(WEBHOOK_EVENTS), { min: 1, max: WEBHOOK_EVENTS.length });
+
+export const createWebhookSchema = model(
+  "CreateWebhookInput",
+  object<CreateWebhookInput>({
+    url: webhookUrl,
+    events: webhookEvents,
+    active: optional(boolean()),
+  }),
+);
+
+export const updateWebhookSchema = model(
+  "UpdateWebhookInput",
+  object<UpdateWebhookInput>({
+    url: optional(webhookUrl),
+    events: optional(webhookEvents),
+    active: optional(boolean()),
+  }),
+);
+
+// Logs
+
+// `time` defaults to the time the server receives the action
+export type LogActionInput = Omit<LogAction, "time"> & Partial<Pick<LogAction, "time">>;
+
+export interface CreateLogInput {
+  boardId: string;
+  actions: LogActionInput[];
+  date?: string;
+}
+
+const logActionSchema = model(
+  "LogActionInput",
+  object<LogActionInput>({
+    type: oneOf<LogAction["type"]>(["check", "reset", "done"]),
+    task: optional(string({ max: 1000 })),
+    time: optional(dateTime()),
+  }),
+);
+
+export const createLogSchema = model(
+  "CreateLogInput",
+  object<CreateLogInput>({
+    boardId: string(),
+    actions: array(logActionSchema, { min: 1, max: MAX_ACTIONS_PER_REQUEST }),
+    date: optional(date()),
+  }),
+);
+
+export interface LogListQuery extends PageQuery {
+  from?: string;
+  to?: string;
+}
+
+export const logListQuerySchema = object<LogListQuery>({
+  ...pageQueryFields,
+  from: optional(date()),
+  to: optional(date()),
+});
+
+// Notifications
+
+export type CreateNotificationInput =
+  & Pick<Notification, "boardId" | "message" | "time">
+  & Partial<Pick<Notification, "rrule">>;
+
+export const createNotificationSchema = model(
+  "CreateNotificationInput",
+  object<CreateNotificationInput>({
+    boardId: string(),
+    message: string({ max: 1000 }),
+    time: dateTime(),
+    rrule: optional(refine(string({ max: 500 }), (rule) => {
+      try {
+        parseRRule(rule);
+        return null;
+      } catch (err) {
+        return "is invalid: " + (err as Error).message;
+      }
+    }, "invalid_rrule")),
+  }),
+);
+
+export interface NotificationListQuery {
+  status?: string; // comma-separated NotificationStatus values
+}
+
+export const notificationListQuerySchema = object<NotificationListQuery>({
+  status: optional(refine(string({ max: 200 }), (value) => {
+    const invalid = value.split(",").map((s) => s.trim())
+      .find((s) => !NOTIFICATION_STATUSES.includes(s as Notification["status"]));
+    return invalid === undefined
+      ? null
+      : `contains "${invalid}", expected one of: ${NOTIFICATION_STATUSES.join(", ")}`;
+  }, "invalid_enum")),
+});
+
+export interface OccurrencesQuery {
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+// Keeps previews well inside the range of Date
+const occurrenceBound = refine(
+  dateTime(),
+  (value) => new Date(value).getUTCFullYear() > 9999 ? "must not be after the year 9999" : null,
+);
+
+export const occurrencesQuerySchema = object<OccurrencesQuery>({
+  from: optional(occurrenceBound),
+  to: optional(occurrenceBound),
+  limit: optional(number({ integer: true, min: 1, max: 500, coerce: true })),
+});
+
+// Search
+
+export interface SearchQuery {
+  q: string;
+  limit?: number;
+}
+
+export const searchQuerySchema = object<SearchQuery>({
+  q: string({ max: 200 }),
+  limit: optional(number({ integer: true, min: 1, max: MAX_SEARCH_LIMIT, coerce: true })),
+});
+
+// Stats
+
+export interface StatsQuery {
+  from?: string;
+  to?: string;
+}
+
+export const statsQuerySchema = object<StatsQuery>({
+  from: optional(date()),
+  to: optional(date()),
+});
+
+// Export
+
+export interface ImportQuery {
+  mode?: ImportMode;
+}
+
+export const importQuerySchema = object<ImportQuery>({
+  mode: optional(oneOf(IMPORT_MODES)),
+});
+
+// Sharing
+
+export type AddMemberInput = Pick<BoardMember, "username" | "role">;
+
+export const addMemberSchema = model(
+  "AddMemberInput",
+  object<AddMemberInput>({
+    username: string({ max: 64 }),
+    role: oneOf(BOARD_ROLES),
+  }),
+);
+
+export const updateMemberSchema = model(
+  "UpdateMemberInput",
+  object<Pick<BoardMember, "role">>({
+    role: oneOf(BOARD_ROLES),
+  }),
+);
+
+// Response models. Only used to describe responses in the OpenAPI
+// document, typed against types.ts like the request schemas above.
+
+const text = string({ min: 0 });
+const integer = number({ integer: true });
+const timestamp = dateTime();
+
+export type SessionInfo =
+  & Pick<Session, "id" | "userAgent" | "ip" | "createdAt" | "lastUsedAt" | "expiresAt">
+  & { current: boolean }; // the session of the calling token
+
+export type RevisionDiff = LineDiff & { rev: number; titleChanged: boolean };
+
+export const userModel = model(
+  "User",
+  object<Omit<User, "passwordHash">>({
+    id: text,
+    username: text,
+    createdAt: timestamp,
+    updatedAt: optional(timestamp),
+    deletionRequestedAt: optional(timestamp),
+    settings: optional(object<Partial<UserSettings>>({
+      revisionRetention: optional(integer),
+    })),
+    twoFactorEnabled: optional(boolean()),
+    lockout: optional(object<LockoutNotice>({
+      lockedAt: timestamp,
+      lockedUntil: timestamp,
+      failures: integer,
+      ip: text,
+    })),
+  }),
+);
+
+export const userSettingsModel = model(
+  "UserSettings",
+  object<UserSettings>({
+    revisionRetention: integer,
+  }),
+);
+
+export const tokenPairModel = model(
+  "TokenPair",
+  object<TokenPair>({
+    token: text,
+    refreshToken: text,
+    expiresIn: integer,
+  }),
+);
+
+export const streamTicketModel = model(
+  "StreamTicket",
+  object<{ ticket: string; expiresIn: number }>({
+    ticket: text,
+    expiresIn: integer,
+  }),
+);
+
+export const registerResultModel = model(
+  "RegisterResult",
+  object<{
+    message: string;
+    user: Omit<User, "passwordHash">;
+  }>({
+    message: text,
+    user: userModel,
+  }),
+);
+
+export type LoginResult = TokenPair & { user: Omit<User, "passwordHash"> };
+
+export const loginResultModel = model(
+  "LoginResult",
+  object<LoginResult>({
+    token: text,
+    refreshToken: text,
+    expiresIn: integer,
+    user: userModel,
+  }),
+);
+
+export interface TwoFactorChallenge {
+  twoFactorRequired: boolean; // always true
+  challengeToken: string;
+  expiresIn: number; // seconds
+}
+
+export const loginResponseModel = anyOf(
+  loginResultModel,
+  model(
+    "TwoFactorChallenge",
+    object<TwoFactorChallenge>({
+      twoFactorRequired: boolean(),
+      challengeToken: text,
+      expiresIn: integer,
+    }),
+  ),
+);
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt?: string;
+  recoveryCodesLeft?: number;
+}
+
+export const twoFactorStatusModel = model(
+  "TwoFactorStatus",
+  object<TwoFactorStatus>({
+    enabled: boolean(),
+    enabledAt: optional(timestamp),
+    recoveryCodesLeft: optional(integer),
+  }),
+);
+
+export const twoFactorSetupModel = model(
+  "TwoFactorSetup",
+  object<{ secret: string; otpauthUri: string }>({ secret: text, otpauthUri: text }),
+);
+
+export const recoveryCodesModel = model(
+  "RecoveryCodes",
+  object<{ recoveryCodes: string[] }>({ recoveryCodes: array(text) }),
+);
+
+export const sessionInfoModel = model(
+  "SessionInfo",
+  object<SessionInfo>({
+    id: text,
+    userAgent: text,
+    ip: text,
+    createdAt: timestamp,
+    lastUsedAt: timestamp,
+    expiresAt: timestamp,
+    current: boolean(),
+  }),
+);
+
+export const auditEntryModel = model(
+  "AuditEntry",
+  object<AuditEntry>({
+    id: text,
+    userId: text,
+    action: oneOf(AUDIT_ACTIONS),
+    at: timestamp,
+    ip: text,
+    userAgent: text,
+    requestId: text,
+    apiTokenId: optional(text),
+    target: optional(text),
+    detail: optional(text),
+  }),
+);
+
+export const auditPageModel = model(
+  "AuditPage",
+  object<Page<AuditEntry>>({
+    items: array(auditEntryModel),
+    nextCursor: nullable(text),
+  }),
+);
+
+export const messageModel = model("Message", object<{ message: string }>({ message: text }));
+
+export const accountDeletionJobModel = model(
+  "AccountDeletionJob",
+  object<AccountDeletionJob>({
+    userId: text,
+    username: text,
+    status: oneOf<AccountDeletionJob["status"]>(["pending", "done"]),
+    deletedKeys: integer,
+    requestedAt: timestamp,
+    updatedAt: timestamp,
+    completedAt: optional(timestamp),
+  }),
+);
+
+export const accountDeletionModel = model(
+  "AccountDeletion",
+  object<{
+    message: string;
+    job: AccountDeletionJob;
+  }>({
+    message: text,
+    job: accountDeletionJobModel,
+  }),
+);
+
+const boardModelFields = {
+  id: text,
+  userId: text,
+  title: text,
+  markdown: text,
+  visibility: oneOf<Board["visibility"]>(["private", "public"]),
+  slug: optional(text),
+  schedule: oneOf<Board["schedule"]>(["daily", "weekly", "custom"]),
+  resetTime: time(),
+  lastResetAt: optional(timestamp),
+  archivedAt: optional(timestamp),
+  deletedAt: optional(timestamp),
+  purgingAt: optional(timestamp),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+};
+
+export const boardModel = model("Board", object<Board>(boardModelFields));
+
+export const boardWithRoleModel = model(
+  "BoardWithRole",
+  object<Board & { role: BoardRole }>({
+    ...boardModelFields,
+    role: oneOf(BOARD_ROLES),
+  }),
+);
+
+export const boardPageModel = model(
+  "BoardPage",
+  object<Page<Board & { role: BoardRole }>>({
+    items: array(boardWithRoleModel),
+    nextCursor: nullable(text),
+  }),
+);
+
+export type TrashedBoard = Board & { purgeAt: string };
+
+export const trashedBoardModel = model(
+  "TrashedBoard",
+  object<TrashedBoard>({
+    ...boardModelFields,
+    purgeAt: timestamp,
+  }),
+);
+
+export const templateModel = model(
+  "BoardTemplate",
+  object<BoardTemplate>({
+    id: text,
+    userId: optional(text),
+    name: text,
+    description: optional(text),
+    title: text,
+    markdown: text,
+    schedule: oneOf<Board["schedule"]>(["daily", "weekly", "custom"]),
+    resetTime: time(),
+    builtIn: boolean(),
+    createdAt: optional(timestamp),
+    updatedAt: optional(timestamp),
+  }),
+);
+
+export type ApiTokenInfo = Omit<ApiToken, "userId" | "tokenHash">;
+
+const apiTokenFields = {
+  id: text,
+  name: text,
+  scopes: array(oneOf(API_SCOPES)),
+  createdAt: timestamp,
+  expiresAt: optional(timestamp),
+  lastUsedAt: optional(timestamp),
+};
+
+export const apiTokenModel = model("ApiToken", object<ApiTokenInfo>(apiTokenFields));
+
+export const createdApiTokenModel = model(
+  "CreatedApiToken",
+  object<ApiTokenInfo & { token: string }>({
+    ...apiTokenFields,
+    token: text, // shown only once
+  }),
+);
+
+export type WebhookInfo = Omit<Webhook, "secret">;
+
+const webhookFields = {
+  id: text,
+  boardId: text,
+  userId: text,
+  url: text,
+  events: array(oneOf(WEBHOOK_EVENTS)),
+  active: boolean(),
+  failedDeliveries: integer,
+  disabledAt: optional(timestamp),
+  lastDeliveryAt: optional(timestamp),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+};
+
+export const webhookModel = model("Webhook", object<WebhookInfo>(webhookFields));
+
+export const createdWebhookModel = model(
+  "CreatedWebhook",
+  object<Webhook>({
+    ...webhookFields,
+    secret: text, // shown only once
+  }),
+);
+
+export const webhookDeliveryModel = model(
+  "WebhookDelivery",
+  object<WebhookDelivery>({
+    id: text,
+    webhookId: text,
+    event: oneOf<WebhookEvent>([...WEBHOOK_EVENTS, "ping"]),
+    payload: text,
+    status: oneOf<WebhookDeliveryStatus>(["pending", "succeeded", "failed"]),
+    attempts: integer,
+    responseStatus: optional(integer),
+    error: optional(text),
+    durationMs: optional(integer),
+    nextAttemptAt: optional(timestamp),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  }),
+);
+
+export const webhookDeliveryPageModel = model(
+  "WebhookDeliveryPage",
+  object<Page<WebhookDelivery>>({
+    items: array(webhookDeliveryModel),
+    nextCursor: nullable(text),
+  }),
+);
+
+export const taskTreeModel = model(
+  "TaskTree",
+  object<TaskTree>({
+    tasks: array(ref<TaskItem>("TaskItem")),
+    sections: array(ref<TaskSection>("TaskSection")),
+    total: integer,
+    checked: integer,
+  }),
+);
+
+model(
+  "TaskItem",
+  object<TaskItem>({
+    id: text,
+    text,
+    checked: boolean(),
+    line: integer,
+    depth: integer,
+    children: array(ref<TaskItem>("TaskItem")),
+  }),
+);
+
+model(
+  "TaskSection",
+  object<TaskSection>({
+    id: text,
+    title: text,
+    level: integer,
+    line: integer,
+    tasks: array(ref<TaskItem>("TaskItem")),
+    sections: array(ref<TaskSection>("TaskSection")),
+  }),
+);
+
+export const boardMemberModel = model(
+  "BoardMember",
+  object<BoardMember>({
+    boardId: text,
+    userId: text,
+    username: text,
+    role: oneOf(BOARD_ROLES),
+    addedBy: text,
+    addedAt: timestamp,
+  }),
+);
+
+const revisionFields = {
+  rev: integer,
+  boardId: text,
+  title: text,
+  authorId: text,
+  authorUsername: text,
+  createdAt: timestamp,
+  size: integer,
+  restoredFrom: optional(integer),
+};
+
+export const revisionModel = model(
+  "BoardRevision",
+  object<BoardRevision>({
+    ...revisionFields,
+    markdown: text,
+  }),
+);
+
+export const revisionMetaModel = model(
+  "BoardRevisionMeta",
+  object<Omit<BoardRevision, "markdown">>(revisionFields),
+);
+
+export const revisionDiffModel = model(
+  "RevisionDiff",
+  object<RevisionDiff>({
+    rev: integer,
+    titleChanged: boolean(),
+    added: integer,
+    removed: integer,
+    lines: array(object<DiffLine>({
+      op: oneOf<DiffLine["op"]>(["equal", "add", "remove"]),
+      text,
+      oldLine: optional(integer),
+      newLine: optional(integer),
+    })),
+    unified: text,
+  }),
+);
+
+export const logModel = model(
+  "Log",
+  object<Log>({
+    id: text,
+    boardId: text,
+    userId: text,
+    date: date(),
+    completedAt: timestamp,
+    actions: array(object<LogAction>({
+      type: oneOf<LogAction["type"]>(["check", "reset", "done"]),
+      task: optional(text),
+      time: timestamp,
+    })),
+  }),
+);
+
+export const logPageModel = model(
+  "LogPage",
+  object<Page<Log>>({
+    items: array(logModel),
+    nextCursor: nullable(text),
+  }),
+);
+
+export const notificationModel = model(
+  "Notification",
+  object<Notification>({
+    id: text,
+    boardId: text,
+    userId: text,
+    message: text,
+    time: timestamp,
+    dismissed: boolean(),
+    status: oneOf(NOTIFICATION_STATUSES),
+    attempts: integer,
+    dueAt: optional(timestamp),
+    deliveredAt: optional(timestamp),
+    dismissedAt: optional(timestamp),
+    rrule: optional(text),
+    dtstart: optional(timestamp),
+    occurrence: optional(integer),
+  }),
+);
+
+export const occurrencesModel = model(
+  "NotificationOccurrences",
+  object<{
+    id: string;
+    rrule: string | null;
+    from: string;
+    to: string;
+    occurrences: string[];
+  }>({
+    id: text,
+    rrule: nullable(text),
+    from: timestamp,
+    to: timestamp,
+    occurrences: array(timestamp),
+  }),
+);
+
+export const exportDocumentModel = model(
+  "ExportDocument",
+  object<ExportDocument>({
+    format: oneOf([EXPORT_FORMAT]),
+    version: integer,
+    exportedAt: timestamp,
+    user: object<ExportDocument["user"]>({ id: text, username: text, createdAt: timestamp }),
+    boards: array(boardModel),
+    logs: array(logModel),
+    notifications: array(notificationModel),
+  }),
+);
+
+export const importResultModel = model(
+  "ImportResult",
+  object<Omit<ImportResult, "scheduled">>({
+    mode: oneOf(IMPORT_MODES),
+    boards: integer,
+    logs: integer,
+    notifications: integer,
+    removedBoards: integer,
+    boardIdMap: {
+      validate: (value) => value as Record<string, string>,
+      json: { type: "object", additionalProperties: { type: "string" } },
+    },
+  }),
+);
+
+export const boardStatsModel = model(
+  "BoardStats",
+  object<BoardStats>({
+    boardId: text,
+    schedule: oneOf<Board["schedule"]>(["daily", "weekly", "custom"]),
+    period: oneOf<BoardStats["period"]>(["day", "week"]),
+    range: object<BoardStats["range"]>({ from: date(), to: date() }),
+    completion: object<BoardStats["completion"]>({
+      periods: integer,
+      active: integer,
+      done: integer,
+      rate: number(),
+    }),
+    streaks: object<BoardStats["streaks"]>({
+      current: integer,
+      longest: integer,
+      lastDoneAt: optional(timestamp),
+    }),
+    series: array(object<PeriodStats>({
+      start: date(),
+      end: date(),
+      checks: integer,
+      done: boolean(),
+    })),
+    tasks: array(object<TaskStats>({
+      task: text,
+      checks: integer,
+      periods: integer,
+      rate: number(),
+      lastCheckedAt: optional(timestamp),
+    })),
+    heatmap: array(object<HeatmapDay>({
+      date: date(),
+      checks: integer,
+      done: boolean(),
+      level: number({ integer: true, min: 0, max: 4 }) as Schema<HeatmapDay["level"]>,
+    })),
+  }),
+);
+
+export const searchResultsModel = model(
+  "SearchResults",
+  object<SearchResults>({
+    query: text,
+    terms: array(text),
+    items: array(object<SearchResult>({
+      boardId: text,
+      title: text,
+      role: oneOf(BOARD_ROLES),
+      updatedAt: timestamp,
+      titleSnippet: optional(text),
+      sections: array(object<SectionHit>({ id: text, title: text, line: integer, snippet: text })),
+      tasks: array(object<TaskHit>({
+        id: text,
+        text,
+        checked: boolean(),
+        line: integer,
+        section: optional(text),
+        snippet: text,
+      })),
+      logs: array(object<LogTaskHit>({
+        date: date(),
+        time: timestamp,
+        type: oneOf<LogAction["type"]>(["check", "reset", "done"]),
+        task: text,
+        snippet: text,
+      })),
+    })),
+  }),
+);
@@ -5,6 +5,46 @@ export interface User {
   username: string;
   passwordHash: string;
   createdAt: string;
+  updatedAt?: string;
+  deletionRequestedAt?: string; // account is being deleted, login is blocked
+  settings?: Partial<UserSettings>;
+  lockout?: LockoutNotice; // last lockout, shown until the user dismisses it
+  twoFactorEnabled?: boolean; // login needs a TOTP or recovery code as well
+}
+
+// TOTP settings, kept apart from User so they never end up in a response
+export interface TwoFactor {
+  secret: string; // base32
+  enabledAt: string;
+  lastStep: number; // TOTP step of the last accepted code, to reject replays
+  recoveryCodeHashes: string[]; // unused one-time codes
+}
+
+// Second login step after a correct password, when 2FA is enabled
+export interface LoginChallenge {
+  id: string;
+  userId: string;
+  secretHash: string;
+  attempts: number;
+  expiresAt: string;
+}
+
+export interface LockoutNotice {
+  lockedAt: string;
+  lockedUntil: string;
+  failures: number; // failed attempts that led to the lockout
+  ip: string; // client of the attempt that triggered it
+}
+
+// Failed logins for a username (whether or not the account exists)
+export interface LoginFailures {
+  count: number; // consecutive failures
+  lastFailedAt: string;
+  retryAt?: string; // attempts before this time are rejected unchecked
+}
+
+export interface UserSettings {
+  revisionRetention: number; // board revisions kept per board
 }
 
 export interface Board {
@@ -13,12 +53,56 @@ export interface Board {
   title: string;
   markdown: string;
   visibility: "private" | "public";
+  slug?: string; // unique share slug, e.g. "team-standup" (set by the owner)
   schedule: "daily" | "weekly" | "custom";
   resetTime: string; // e.g. "00:00"
+  lastResetAt?: string;
+  archivedAt?: string; // hidden from board lists until unarchived
+  deletedAt?: string; // in the trash, purged once the retention period ends
+  purgingAt?: string; // purge has started, the board can no longer be restored
   createdAt: string;
   updatedAt: string;
 }
 
+export interface BoardRevision {
+  rev: number; // increasing per board, starting at 1
+  boardId: string;
+  title: string;
+  markdown: string;
+  authorId: string;
+  authorUsername: string;
+  createdAt: string;
+  size: number; // markdown size in bytes
+  restoredFrom?: number; // rev this revision was restored from
+}
+
+export type BoardRole = "viewer" | "editor" | "owner";
+
+export interface BoardMember {
+  boardId: string;
+  userId: string;
+  username: string;
+  role: BoardRole;
+  addedBy: string;
+  addedAt: string;
+}
+
+// Starting point for new boards. Title and markdown may contain
+// placeholders such as {{date}}, expanded when a board is created from it.
+export interface BoardTemplate {
+  id: string; // slug for built-in templates, generated for user templates
+  userId?: string; // absent for built-in templates
+  name: string;
+  description?: string;
+  title: string;
+  markdown: string;
+  schedule: Board["schedule"];
+  resetTime: string;
+  builtIn: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
 export interface LogAction {
   type: "check" | "reset" | "done";
   task?: string;
@@ -34,6 +118,8 @@ export interface Log {
   actions: LogAction[];
 }
 
+export type NotificationStatus = "scheduled" | "due" | "delivered" | "dismissed";
+
 export interface Notification {
   id: string;
   boardId: string;
@@ -41,12 +127,143 @@ export interface Notification {
   message: string;
   time: string;
   dismissed: boolean;
+  status: NotificationStatus;
+  attempts: number; // dispatch attempts
+  dueAt?: string;
+  deliveredAt?: string;
+  dismissedAt?: string;
+  rrule?: string; // RRULE subset, e.g. "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR"
+  dtstart?: string; // first occurrence of a recurring notification
+  occurrence?: number; // index of `time` within the recurrence
+}
+
+export type WebhookEvent =
+  | "log.action.check"
+  | "log.action.reset"
+  | "log.action.done"
+  | "board.updated"
+  | "board.deleted"
+  | "notification.due"
+  | "ping";
+
+export interface Webhook {
+  id: string;
+  boardId: string;
+  userId: string; // who created it
+  url: string;
+  events: WebhookEvent[];
+  secret: string; // HMAC-SHA256 key for the signature header
+  active: boolean;
+  failedDeliveries: number; // consecutive deliveries that ran out of retries
+  disabledAt?: string; // set when disabled after too many failures
+  lastDeliveryAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEvent;
+  payload: string; // the JSON body as sent
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number; // of the last attempt
+  error?: string; // of the last attempt
+  durationMs?: number; // of the last attempt
+  nextAttemptAt?: string; // while pending a retry
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface JWTPayload {
   userId: string;
   username: string;
   exp: number;
+  jti?: string; // token ID, checked against the revocation denylist
+  sid?: string; // session the token was issued for
+}
+
+export interface Session {
+  id: string;
+  userId: string;
+  userAgent: string;
+  ip: string;
+  refreshTokenHash: string;
+  previousRefreshTokenHash?: string; // detects reuse of a rotated token
+  accessJti: string; // latest access token, revoked with the session
+  accessExp: number;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+}
+
+// One-time credential for opening an event stream: EventSource and browser
+// WebSockets cannot send headers, and a token in the URL ends up in logs
+export interface StreamTicket {
+  userId: string;
+  username: string;
+  sessionId?: string; // set for logins
+  tokenId?: string; // jti of the access token the ticket was issued with
+  apiTokenId?: string; // set for API tokens
+  tokenScopes?: ApiScope[];
+}
+
+export type ApiScope =
+  | "boards:read"
+  | "boards:write"
+  | "logs:read"
+  | "logs:write"
+  | "notify:read"
+  | "notify:write";
+
+// Personal access token for scripts and integrations; the token itself is shown once
+export interface ApiToken {
+  id: string;
+  userId: string;
+  name: string;
+  scopes: ApiScope[];
+  tokenHash: string;
+  createdAt: string;
+  expiresAt?: string; // no expiry when absent
+  lastUsedAt?: string;
+}
+
+export type AuditAction =
+  | "login"
+  | "login_failed"
+  | "account_unlocked"
+  | "password_changed"
+  | "two_factor_enabled"
+  | "two_factor_disabled"
+  | "api_token_created"
+  | "api_token_revoked"
+  | "board_made_public"
+  | "board_deleted"
+  | "board_purged"
+  | "webhook_created"
+  | "webhook_deleted"
+  | "export";
+
+export interface AuditEntry {
+  id: string;
+  userId: string; // whose audit trail the entry belongs to
+  action: AuditAction;
+  at: string;
+  ip: string;
+  userAgent: string;
+  requestId: string;
+  apiTokenId?: string; // set when the request used an API token
+  target?: string; // ID of the board or token acted on
+  detail?: string; // e.g. the export format or why a login failed
+}
+
+export interface FieldError {
+  path: string; // e.g. "actions[0].type", "" for the whole body
+  code: string; // e.g. "required", "invalid_type", "invalid_format"
+  message: string;
 }
 
 export interface ApiResponse<T = any> {
@@ -54,11 +271,134 @@ export interface ApiResponse<T = any> {
   data?: T;
   error?: string;
   message?: string;
+  errors?: FieldError[];
+}
+
+// Envelope of every paginated list
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null; // pass as ?cursor= for the next page
 }
 
 export interface RouterContext {
   state: {
     userId?: string;
     username?: string;
+    sessionId?: string;
+    tokenId?: string;
+    tokenExp?: number;
   };
 }
+
+export interface TaskItem {
+  id: string;
+  text: string;
+  checked: boolean;
+  line: number; // 1-based line in Board.markdown
+  depth: number;
+  children: TaskItem[];
+}
+
+export interface TaskSection {
+  id: string;
+  title: string;
+  level: number; // heading level 1-6
+  line: number;
+  tasks: TaskItem[];
+  sections: TaskSection[];
+}
+
+export interface TaskTree {
+  tasks: TaskItem[]; // tasks before the first heading
+  sections: TaskSection[];
+  total: number;
+  checked: number;
+}
+
+export type StatsPeriod = "day" | "week";
+
+export interface PeriodStats {
+  start: string; // YYYY-MM-DD
+  end: string;
+  checks: number;
+  done: boolean;
+}
+
+export interface TaskStats {
+  task: string;
+  checks: number;
+  periods: number; // periods in which the task was checked at least once
+  rate: number; // periods / completion.periods
+  lastCheckedAt?: string;
+}
+
+export interface HeatmapDay {
+  date: string;
+  checks: number;
+  done: boolean;
+  level: 0 | 1 | 2 | 3 | 4; // intensity relative to the busiest day
+}
+
+export interface BoardStats {
+  boardId: string;
+  schedule: Board["schedule"];
+  period: StatsPeriod; // weekly boards are measured in weeks
+  range: { from: string; to: string };
+  completion: {
+    periods: number;
+    active: number; // periods with at least one check
+    done: number; // periods with a "done" action
+    rate: number; // done / periods
+  };
+  streaks: {
+    current: number; // in periods, computed over the full history
+    longest: number;
+    lastDoneAt?: string;
+  };
+  series: PeriodStats[];
+  tasks: TaskStats[];
+  heatmap: HeatmapDay[];
+}
+
+// Search results: text fields of hits are HTML-escaped snippets with the
+// matched words wrapped in <mark>
+export interface SectionHit {
+  id: string;
+  title: string;
+  line: number;
+  snippet: string;
+}
+
+export interface TaskHit {
+  id: string;
+  text: string;
+  checked: boolean;
+  line: number;
+  section?: string; // title of the enclosing section
+  snippet: string;
+}
+
+export interface LogTaskHit {
+  date: string;
+  time: string;
+  type: LogAction["type"];
+  task: string;
+  snippet: string;
+}
+
+export interface SearchResult {
+  boardId: string;
+  title: string;
+  role: BoardRole;
+  updatedAt: string;
+  titleSnippet?: string; // set when the title matches
+  sections: SectionHit[];
+  tasks: TaskHit[];
+  logs: LogTaskHit[]; // newest first
+}
+
+export interface SearchResults {
+  query: string;
+  terms: string[];
+  items: SearchResult[];
+}
@@ -0,0 +1,81 @@
+// src/utils/access.ts
+// Single permission check for boards and everything hanging off them
+
+import type { Context } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import type { Board, BoardMember, BoardRole } from "../types.ts";
+import { getBoardEntry, getBoardMember, getMemberBoardOwner } from "./kv.ts";
+import { forbidden, notFound } from "./response.ts";
+
+const ROLE_RANK: Record<BoardRole, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3,
+};
+
+export const BOARD_ROLES = Object.keys(ROLE_RANK) as BoardRole[];
+
+export interface BoardAccess {
+  board: Board;
+  role: BoardRole;
+  ownerId: string; // userId the board is stored under
+  versionstamp: string; // board version, exposed as ETag
+}
+
+export function hasRole(role: BoardRole, required: BoardRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Resolve a user's access to a board: either they own it, or it has been
+ * shared with them through a board_member record. Boards in the trash are
+ * only resolved with `trashed`.
+ */
+export async function getBoardAccess(
+  userId: string,
+  boardId: string,
+  options: { trashed?: boolean } = {},
+): Promise<BoardAccess | null> {
+  const visible = (board: Board) => !board.deletedAt || options.trashed === true;
+
+  const own = (await getBoardEntry(userId, boardId)) as Deno.KvEntryMaybe<Board>;
+  if (own.value) {
+    if (!visible(own.value)) return null;
+    return { board: own.value, role: "owner", ownerId: userId, versionstamp: own.versionstamp };
+  }
+
+  const member = (await getBoardMember(boardId, userId)) as BoardMember | null;
+  if (!member) return null;
+
+  const ownerId = await getMemberBoardOwner(userId, boardId);
+  if (!ownerId) return null;
+
+  const entry = (await getBoardEntry(ownerId, boardId)) as Deno.KvEntryMaybe<Board>;
+  if (!entry.value || !visible(entry.value)) return null;
+
+  return { board: entry.value, role: member.role, ownerId, versionstamp: entry.versionstamp };
+}
+
+/**
+ * Check the current user's role on a board. Responds 404 when the board
+ * is not visible to the user and 403 when the role is too low.
+ */
+export async function requireBoardAccess(
+  ctx: Context,
+  boardId: string,
+  required: BoardRole,
+  options: { trashed?: boolean } = {},
+): Promise<BoardAccess | null> {
+  const access = await getBoardAccess(ctx.state.userId, boardId, options);
+
+  if (!access) {
+    notFound(ctx, "Board not found");
+    return null;
+  }
+
+  if (!hasRole(access.role, required)) {
+    forbidden(ctx, `This action requires the ${required} role`);
+    return null;
+  }
+
+  return access;
+}
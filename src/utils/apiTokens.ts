@@ -0,0 +1,117 @@
+// src/utils/apiTokens.ts
+// Personal access tokens for scripts and integrations:
+//   mdp_<userId>.<tokenId>.<secret>
+// Like refresh tokens they carry their own key, and only a hash of the
+// secret is stored. Tokens are limited to the scopes picked at creation.
+
+import type { ApiScope, ApiToken } from "../types.ts";
+import { generateId, generateSecret, hashToken } from "./crypto.ts";
+import { deleteApiToken, getApiToken, getApiTokensByUserId, getKV, setApiToken } from "./kv.ts";
+
+export const API_TOKEN_PREFIX = "mdp_";
+
+export const API_SCOPES: ApiScope[] = [
+  "boards:read",
+  "boards:write",
+  "logs:read",
+  "logs:write",
+  "notify:read",
+  "notify:write",
+];
+
+export const MAX_API_TOKENS_PER_USER = 50;
+export const MAX_API_TOKEN_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LAST_USED_RESOLUTION_MS = 60 * 1000; // lastUsedAt is written at most once a minute
+
+export function isApiToken(token: string): boolean {
+  return token.startsWith(API_TOKEN_PREFIX);
+}
+
+/**
+ * Whether `scopes` grant `required`; a write scope includes reading
+ */
+export function hasScope(scopes: ApiScope[], required: ApiScope): boolean {
+  if (scopes.includes(required)) return true;
+  return required.endsWith(":read") &&
+    scopes.includes(required.replace(/:read$/, ":write") as ApiScope);
+}
+
+function parseApiToken(token: string) {
+  const [userId, tokenId, secret] = token.slice(API_TOKEN_PREFIX.length).split(".");
+  if (!userId || !tokenId || !secret) return null;
+  return { userId, tokenId, secret };
+}
+
+function expireInFor(apiToken: ApiToken) {
+  if (!apiToken.expiresAt) return undefined;
+  return { expireIn: Math.max(new Date(apiToken.expiresAt).getTime() - Date.now(), 1000) };
+}
+
+/**
+ * Mint a token. The returned token string is the only copy of the secret.
+ */
+export async function createApiToken(
+  userId: string,
+  input: { name: string; scopes: ApiScope[]; expiresInDays?: number },
+): Promise<{ token: string; apiToken: ApiToken }> {
+  const id = generateId();
+  const secret = generateSecret();
+  const now = Date.now();
+
+  const apiToken: ApiToken = {
+    id,
+    userId,
+    name: input.name,
+    scopes: API_SCOPES.filter((scope) => input.scopes.includes(scope)),
+    tokenHash: await hashToken(secret),
+    createdAt: new Date(now).toISOString(),
+    ...(input.expiresInDays && {
+      expiresAt: new Date(now + input.expiresInDays * DAY_MS).toISOString(),
+    }),
+  };
+
+  await setApiToken(userId, id, apiToken, expireInFor(apiToken));
+  return { token: `${API_TOKEN_PREFIX}${userId}.${id}.${secret}`, apiToken };
+}
+
+/**
+ * The stored token for a presented token string, if valid and not expired
+ */
+export async function verifyApiToken(token: string): Promise<ApiToken | null> {
+  const parsed = parseApiToken(token);
+  if (!parsed) return null;
+
+  const apiToken = (await getApiToken(parsed.userId, parsed.tokenId)) as ApiToken | null;
+  if (!apiToken) return null;
+  if (apiToken.expiresAt && new Date(apiToken.expiresAt).getTime() <= Date.now()) return null;
+
+  return (await hashToken(parsed.secret)) === apiToken.tokenHash ? apiToken : null;
+}
+
+/**
+ * Record a use of the token. Checked against the stored version so a
+ * token revoked meanwhile is not written back.
+ */
+export async function touchApiToken(apiToken: ApiToken) {
+  const now = Date.now();
+  const lastUsed = apiToken.lastUsedAt ? new Date(apiToken.lastUsedAt).getTime() : 0;
+  if (now - lastUsed < LAST_USED_RESOLUTION_MS) return;
+
+  const kv = getKV();
+  const entry = await kv.get<ApiToken>(["api_token", apiToken.userId, apiToken.id]);
+  if (!entry.value) return;
+
+  const touched = { ...entry.value, lastUsedAt: new Date(now).toISOString() };
+  await kv.atomic().check(entry).set(entry.key, touched, expireInFor(touched)).commit();
+}
+
+/**
+ * Revoke every token of a user, e.g. when the account is being deleted
+ */
+export async function revokeAllApiTokens(userId: string) {
+  for (const apiToken of (await getApiTokensByUserId(userId)) as ApiToken[]) {
+    await deleteApiToken(userId, apiToken.id);
+  }
+}
@@ -0,0 +1,66 @@
+// src/utils/apiTokens_test.ts
+import { assertEquals } from "@std/assert";
+import type { ApiToken } from "../types.ts";
+import { getKV, initKV } from "./kv.ts";
+import { createApiToken, hasScope, isApiToken, verifyApiToken } from "./apiTokens.ts";
+
+function withKV(fn: () => Promise<void>) {
+  return async () => {
+    await initKV(":memory:");
+    try {
+      await fn();
+    } finally {
+      getKV().close();
+    }
+  };
+}
+
+Deno.test("a write scope includes reading, not the other way around", () => {
+  assertEquals(hasScope(["boards:read"], "boards:read"), true);
+  assertEquals(hasScope(["boards:write"], "boards:read"), true);
+  assertEquals(hasScope(["boards:read"], "boards:write"), false);
+  assertEquals(hasScope(["logs:write"], "boards:read"), false);
+  assertEquals(hasScope([], "notify:read"), false);
+});
+
+Deno.test(
+  "a created token verifies until its secret or parts change",
+  withKV(async () => {
+    const { token, apiToken } = await createApiToken("u1", {
+      name: "CI",
+      scopes: ["logs:write", "boards:read"],
+    });
+
+    assertEquals(isApiToken(token), true);
+    assertEquals(token.startsWith(`mdp_u1.${apiToken.id}.`), true);
+    // Scopes are stored in their canonical order
+    assertEquals(apiToken.scopes, ["boards:read", "logs:write"]);
+    assertEquals((await verifyApiToken(token))?.id, apiToken.id);
+
+    const secret = token.split(".")[2];
+    assertEquals(await verifyApiToken(token.slice(0, -1)), null);
+    assertEquals(await verifyApiToken(`mdp_u2.${apiToken.id}.${secret}`), null);
+    assertEquals(await verifyApiToken(`mdp_u1.other.${secret}`), null);
+    assertEquals(await verifyApiToken(`mdp_u1.${apiToken.id}`), null);
+    assertEquals(await verifyApiToken("mdp_"), null);
+  }),
+);
+
+Deno.test(
+  "a token stops verifying once it expires",
+  withKV(async () => {
+    const { token, apiToken } = await createApiToken("u1", {
+      name: "Script",
+      scopes: ["boards:read"],
+      expiresInDays: 7,
+    });
+    assertEquals(apiToken.expiresAt !== undefined, true);
+    assertEquals((await verifyApiToken(token))?.id, apiToken.id);
+
+    // Backdate the expiry; KV would drop the entry at the same time
+    const key = ["api_token", "u1", apiToken.id];
+    const expired: ApiToken = { ...apiToken, expiresAt: new Date(Date.now() - 1000).toISOString() };
+    await getKV().set(key, expired);
+    assertEquals(await verifyApiToken(token), null);
+  }),
+);
@@ -0,0 +1,82 @@
+// src/utils/audit.ts
+// Append-only audit trail of security relevant events per user, shown at
+// GET /api/me/audit.
+//   ["audit", userId, at, entryId] -> AuditEntry (expires after the retention period)
+
+import type { Context } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import type { AuditAction, AuditEntry, Page } from "../types.ts";
+import { generateId } from "./crypto.ts";
+import { getKV } from "./kv.ts";
+import { getClientIp } from "./clientIp.ts";
+import { listPage } from "./pagination.ts";
+
+export const AUDIT_RETENTION_DAYS = 90;
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  "login",
+  "login_failed",
+  "account_unlocked",
+  "password_changed",
+  "two_factor_enabled",
+  "two_factor_disabled",
+  "api_token_created",
+  "api_token_revoked",
+  "board_made_public",
+  "board_deleted",
+  "board_purged",
+  "webhook_created",
+  "webhook_deleted",
+  "export",
+];
+
+const AUDIT_RETENTION_MS = AUDIT_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+/**
+ * Record `action` for the signed-in user, or for `options.userId` on
+ * requests that are not authenticated yet (logins). Never fails the
+ * request: a lost entry is logged instead.
+ */
+export async function recordAudit(
+  ctx: Context,
+  action: AuditAction,
+  options: { userId?: string; target?: string; detail?: string } = {},
+) {
+  const userId = options.userId ?? ctx.state.userId;
+  if (!userId) return;
+
+  const entry: AuditEntry = {
+    id: generateId(),
+    userId,
+    action,
+    at: new Date().toISOString(),
+    ip: getClientIp(ctx),
+    userAgent: ctx.request.headers.get("user-agent") || "unknown",
+    requestId: ctx.state.requestId ?? "unknown",
+    ...(ctx.state.apiTokenId && { apiTokenId: ctx.state.apiTokenId }),
+    ...(options.target && { target: options.target }),
+    ...(options.detail && { detail: options.detail }),
+  };
+
+  try {
+    await getKV().set(["audit", userId, entry.at, entry.id], entry, {
+      expireIn: AUDIT_RETENTION_MS,
+    });
+  } catch (err) {
+    console.error(`Failed to record audit entry ${action} for ${userId}:`, err);
+  }
+}
+
+/**
+ * One page of a user's audit trail in time order
+ */
+export async function getAuditPage(userId: string, options: {
+  limit: number;
+  cursor?: string;
+  reverse?: boolean;
+}): Promise<Page<AuditEntry>> {
+  const page = await listPage<AuditEntry>(getKV(), { prefix: ["audit", userId] }, options);
+
+  // Expired entries can linger in KV for a while after expireIn
+  const cutoff = new Date(Date.now() - AUDIT_RETENTION_MS).toISOString();
+  return { ...page, items: page.items.filter((entry) => entry.at > cutoff) };
+}
@@ -0,0 +1,151 @@
+// src/utils/audit_test.ts
+import { assertEquals, assertMatch } from "@std/assert";
+import { Application, Router } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import type { AuditEntry } from "../types.ts";
+
+// Read when clientIp.ts is loaded; requests below come "through" one proxy
+Deno.env.set("TRUST_PROXY", "true");
+const { getKV, initKV, setUser } = await import("./kv.ts");
+const { AUDIT_RETENTION_DAYS, recordAudit } = await import("./audit.ts");
+const { generateToken } = await import("./crypto.ts");
+const { requestId } = await import("../middleware/performanceMiddleware.ts");
+const { default: accountRouter } = await import("../routes/account.ts");
+Deno.env.delete("TRUST_PROXY");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const router = new Router();
+router.post("/record", async (ctx) => {
+  ctx.state.userId = ctx.request.headers.get("X-User") ?? undefined;
+  ctx.state.apiTokenId = ctx.request.headers.get("X-Api-Token") ?? undefined;
+  await recordAudit(ctx, "export", { target: "b1", detail: "json" });
+  ctx.response.status = 204;
+});
+
+const app = new Application();
+app.use(requestId());
+app.use(router.routes());
+app.use(accountRouter.routes());
+
+async function send(path: string, init: RequestInit = {}) {
+  const response = (await app.handle(new Request(`http://localhost${path}`, init)))!;
+  const body = response.status === 204 ? null : await response.json();
+  return { status: response.status, headers: response.headers, body };
+}
+
+function withKV(fn: () => Promise<void>) {
+  return async () => {
+    await initKV(":memory:");
+    try {
+      await fn();
+    } finally {
+      getKV().close();
+    }
+  };
+}
+
+async function entriesOf(userId: string) {
+  const entries: AuditEntry[] = [];
+  for await (const entry of getKV().list<AuditEntry>({ prefix: ["audit", userId] })) {
+    entries.push(entry.value);
+  }
+  return entries;
+}
+
+Deno.test(
+  "recordAudit stores who, from where and with which request",
+  withKV(async () => {
+    const { headers } = await send("/record", {
+      method: "POST",
+      headers: {
+        "X-User": "u1",
+        "X-Api-Token": "t1",
+        "X-Forwarded-For": "198.51.100.4",
+        "User-Agent": "audit-test/1.0",
+      },
+    });
+
+    const [entry] = await entriesOf("u1");
+    assertEquals(entry.userId, "u1");
+    assertEquals(entry.action, "export");
+    assertEquals(entry.ip, "198.51.100.4");
+    assertEquals(entry.userAgent, "audit-test/1.0");
+    assertEquals(entry.requestId, headers.get("X-Request-Id"));
+    assertEquals(entry.apiTokenId, "t1");
+    assertEquals([entry.target, entry.detail], ["b1", "json"]);
+    assertMatch(entry.at, /^\d{4}-\d{2}-\d{2}T/);
+  }),
+);
+
+Deno.test(
+  "recordAudit skips requests without a user",
+  withKV(async () => {
+    await send("/record", { method: "POST" });
+    assertEquals((await getKV().list({ prefix: ["audit"] }).next()).done, true);
+  }),
+);
+
+Deno.test(
+  "audit entries expire after the retention period",
+  withKV(async () => {
+    const kv = getKV();
+    const set = kv.set.bind(kv);
+    const expiries: (number | undefined)[] = [];
+    kv.set = (key, value, options) => {
+      expiries.push(options?.expireIn);
+      return set(key, value, options);
+    };
+
+    await send("/record", { method: "POST", headers: { "X-User": "u1" } });
+    assertEquals(expiries, [AUDIT_RETENTION_DAYS * DAY_MS]);
+  }),
+);
+
+Deno.test(
+  "GET /api/me/audit pages through the user's own entries",
+  withKV(async () => {
+    await setUser("u1", { id: "u1", username: "alice", passwordHash: "", createdAt: "" });
+    const { token } = await generateToken("u1", "alice");
+    const auth = { Authorization: `Bearer ${token}` };
+
+    const now = Date.now();
+    const entry = (userId: string, id: string, daysAgo: number): AuditEntry => ({
+      id,
+      userId,
+      action: "login",
+      at: new Date(now - daysAgo * DAY_MS).toISOString(),
+      ip: "198.51.100.4",
+      userAgent: "test",
+      requestId: `req-${id}`,
+    });
+    for (const [id, daysAgo] of [["e1", 5], ["e2", 4], ["e3", 3], ["e4", 2], ["e5", 1]] as const) {
+      const value = entry("u1", id, daysAgo);
+      await getKV().set(["audit", "u1", value.at, id], value);
+    }
+    // Past the retention period but not yet removed by KV
+    const stale = entry("u1", "old", AUDIT_RETENTION_DAYS + 1);
+    await getKV().set(["audit", "u1", stale.at, stale.id], stale);
+    const other = entry("u2", "theirs", 1);
+    await getKV().set(["audit", "u2", other.at, other.id], other);
+
+    const ids = async (query: string) => {
+      const pages: string[][] = [];
+      let cursor = "";
+      do {
+        const { status, body } = await send(`/api/me/audit?${query}${cursor}`, { headers: auth });
+        assertEquals(status, 200);
+        pages.push(body.data.items.map((item: AuditEntry) => item.id));
+        cursor = body.data.nextCursor ? `&cursor=${body.data.nextCursor}` : "";
+      } while (cursor);
+      return pages;
+    };
+
+    assertEquals(await ids("limit=2"), [["e5", "e4"], ["e3", "e2"], ["e1"]]);
+    // The expired entry is left out, though it may still take a place on a page
+    assertEquals((await ids("limit=3&order=asc")).flat(), ["e1", "e2", "e3", "e4", "e5"]);
+
+    assertEquals((await send("/api/me/audit?limit=0", { headers: auth })).status, 422);
+    assertEquals((await send("/api/me/audit?cursor=bogus", { headers: auth })).status, 422);
+    assertEquals((await send("/api/me/audit")).status, 401);
+  }),
+);
@@ -0,0 +1,153 @@
+// src/utils/cascade.ts
+// Every KV key that hangs off a board or an account, in safe deletion order
+// (dependent keys first, the owning record last, so a partial run can resume)
+
+import type { Board } from "../types.ts";
+import { getKV } from "./kv.ts";
+import type { SearchDoc } from "./search.ts";
+
+const DELETE_BATCH_SIZE = 100;
+
+/**
+ * Keys belonging to a board, excluding the board key itself
+ */
+export async function* boardKeys(
+  board: Pick<Board, "id" | "slug">,
+): AsyncGenerator<Deno.KvKey> {
+  const kv = getKV();
+  const boardId = board.id;
+
+  for await (const entry of kv.list<{ id: string }>({ prefix: ["log", boardId] })) {
+    yield ["log_by_id", entry.value.id];
+    yield entry.key;
+  }
+
+  for await (const entry of kv.list({ prefix: ["notif", boardId] })) {
+    yield ["notif_by_id", entry.key[2]];
+    yield entry.key;
+  }
+
+  for await (const entry of kv.list({ prefix: ["board_rev", boardId] })) {
+    yield entry.key;
+  }
+
+  for await (const entry of kv.list({ prefix: ["board_member", boardId] })) {
+    yield ["member_board", entry.key[2], boardId];
+    yield entry.key;
+  }
+
+  // Search postings of the board and its logs, then what was indexed
+  for await (const entry of kv.list<SearchDoc>({ prefix: ["search_doc", boardId] })) {
+    for (const term of entry.value.terms) {
+      yield ["search_idx", entry.value.ownerId, term, boardId, entry.key[2]];
+    }
+    yield entry.key;
+  }
+
+  for await (const entry of kv.list({ prefix: ["webhook", boardId] })) {
+    yield* webhookKeys(boardId, entry.key[2] as string);
+  }
+
+  yield ["board_event", boardId];
+  yield ["public_board", boardId];
+
+  if (board.slug) {
+    const slug = await kv.get<string>(["board_slug", board.slug]);
+    if (slug.value === boardId) yield slug.key;
+  }
+}
+
+/**
+ * A webhook's delivery log, then the webhook itself
+ */
+export async function* webhookKeys(
+  boardId: string,
+  webhookId: string,
+): AsyncGenerator<Deno.KvKey> {
+  for await (const entry of getKV().list({ prefix: ["webhook_delivery", webhookId] })) {
+    yield entry.key;
+  }
+  yield ["webhook", boardId, webhookId];
+}
+
+/**
+ * Keys belonging to a user account, ending with the user record
+ */
+export async function* accountKeys(
+  userId: string,
+  username: string,
+): AsyncGenerator<Deno.KvKey> {
+  const kv = getKV();
+
+  for await (const entry of kv.list<Board>({ prefix: ["board", userId] })) {
+    yield* boardKeys(entry.value);
+    yield entry.key;
+  }
+
+  // Memberships on other people's boards
+  for await (const entry of kv.list({ prefix: ["member_board", userId] })) {
+    yield ["board_member", entry.key[2], userId];
+    yield entry.key;
+  }
+
+  for await (const entry of kv.list({ prefix: ["session", userId] })) {
+    yield entry.key;
+  }
+
+  for await (const entry of kv.list({ prefix: ["template", userId] })) {
+    yield entry.key;
+  }
+
+  for await (const entry of kv.list({ prefix: ["api_token", userId] })) {
+    yield entry.key;
+  }
+
+  for await (const entry of kv.list({ prefix: ["audit", userId] })) {
+    yield entry.key;
+  }
+
+  yield ["two_factor", userId];
+  yield ["two_factor_setup", userId];
+
+  // The username may already belong to someone else after a rename
+  const index = await kv.get<string>(["user_by_username", username]);
+  if (index.value === userId) {
+    yield index.key;
+    yield ["login_failures", username];
+  }
+
+  yield ["user", userId];
+}
+
+/**
+ * Delete keys in atomic batches, stopping after `limit` keys.
+ * Returns how many keys were deleted and whether the source ran dry.
+ */
+export async function deleteKeys(
+  keys: AsyncIterable<Deno.KvKey>,
+  limit = Infinity,
+): Promise<{ deleted: number; done: boolean }> {
+  const kv = getKV();
+  let batch: Deno.KvKey[] = [];
+  let deleted = 0;
+
+  const flush = async () => {
+    const op = kv.atomic();
+    for (const key of batch) op.delete(key);
+    await op.commit();
+    deleted += batch.length;
+    batch = [];
+  };
+
+  for await (const key of keys) {
+    batch.push(key);
+    if (batch.length >= DELETE_BATCH_SIZE) await flush();
+    if (deleted + batch.length >= limit) {
+      await flush();
+      return { deleted, done: false };
+    }
+  }
+
+  if (batch.length > 0) await flush();
+  return { deleted, done: true };
+}
@@ -0,0 +1,51 @@
+// src/utils/clientIp.ts
+// Client IP address of a request. Proxy headers like X-Forwarded-For are
+// only trusted when TRUST_PROXY is set, otherwise any client could pick its
+// own address (and its own rate limit bucket). TRUST_PROXY=true means one
+// proxy in front of the server, a number means that many.
+
+import type { Context } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+
+// Remote addresses from Deno.serve; app.handle() has no connection to read them from
+const remoteAddrs = new WeakMap<Request, string>();
+
+// Number of trusted proxies in front of the server
+function parseTrustedHops(value: string | undefined): number {
+  if (value === "true") return 1;
+  const hops = Number(value);
+  return Number.isInteger(hops) && hops > 0 ? hops : 0;
+}
+
+const trustedHops = parseTrustedHops(Deno.env.get("TRUST_PROXY"));
+
+/**
+ * Remember the remote address of a request received by Deno.serve
+ */
+export function setRemoteAddr(request: Request, info: Deno.ServeHandlerInfo) {
+  const addr = info.remoteAddr as Partial<Deno.NetAddr>;
+  if (addr.hostname) {
+    remoteAddrs.set(request, addr.hostname);
+  }
+}
+
+function getRemoteAddr(ctx: Context): string | undefined {
+  const original = ctx.request.originalRequest as { request?: Request };
+  return ctx.request.ip || (original.request && remoteAddrs.get(original.request));
+}
+
+export function getClientIp(ctx: Context): string {
+  if (trustedHops > 0) {
+    // Each proxy appends the address it received the request from, so the
+    // entry added by the outermost trusted proxy is the client. Entries left
+    // of it came from the client itself and can be forged.
+    const forwarded = (ctx.request.headers.get("x-forwarded-for") ?? "")
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+    const proxied = forwarded[Math.max(forwarded.length - trustedHops, 0)] ||
+      ctx.request.headers.get("x-real-ip");
+    if (proxied) return proxied;
+  }
+
+  return getRemoteAddr(ctx) || "unknown";
+}
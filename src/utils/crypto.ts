@@ -30,20 +30,39 @@ export function verifyPassword(password: string, hash: string): boolean {
   return bcrypt.compareSync(password, hash);
 }
 
-// Generate JWT token
+// Hash to verify against when a login names no account, so that the
+// response takes as long as a wrong password for a real one
+let dummyPasswordHash: string | undefined;
+
+export function getDummyPasswordHash(): string {
+  dummyPasswordHash ??= hashPassword(generateSecret());
+  return dummyPasswordHash;
+}
+
+// Access tokens are short-lived, sessions are kept alive with refresh tokens
+export const ACCESS_TOKEN_TTL = 15 * 60; // 15 minutes (seconds)
+export const REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60; // 30 days (seconds)
+
+// Generate JWT access token
 export async function generateToken(
   userId: string,
   username: string,
-): Promise<string> {
+  sessionId?: string,
+): Promise<{ token: string; jti: string; exp: number }> {
   const key = await getKey();
+  const jti = generateId();
+  const exp = Math.floor(Date.now() / 1000) + ACCESS_TOKEN_TTL;
 
   const payload: JWTPayload = {
     userId,
     username,
-    exp: Math.floor(Date.now() / 1000) + 60 * 60 * 24, // 1 day
+    exp,
+    jti,
+    ...(sessionId && { sid: sessionId }),
   };
 
-  return await create({ alg: "HS256", typ: "JWT" }, payload, key);
+  const token = await create({ alg: "HS256", typ: "JWT" }, payload, key);
+  return { token, jti, exp };
 }
 
 // Verify JWT token
@@ -61,3 +80,112 @@ export async function verifyToken(token: string): Promise<JWTPayload | null> {
 export function generateId(): string {
   return crypto.randomUUID();
 }
+
+// Generate random URL-safe secret
+export function generateSecret(bytes = 32): string {
+  const data = crypto.getRandomValues(new Uint8Array(bytes));
+  return btoa(String.fromCharCode(...data))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+// Hash opaque tokens before storing them (SHA-256, hex)
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(token));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// TOTP (RFC 6238): HMAC-SHA1 over 30-second steps, 6 digits
+export const TOTP_PERIOD = 30; // seconds
+export const TOTP_DIGITS = 6;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+// Base32 without padding, the format authenticator apps expect for secrets
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(text: string): Uint8Array<ArrayBuffer> {
+  const clean = text.toUpperCase().replace(/=+$/, "");
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 character");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+// Generate a TOTP secret (160 bits, base32)
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+}
+
+// TOTP code for a time step
+export async function totpCode(secret: string, step: number): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    base32Decode(secret),
+    { name: "HMAC", hash: "SHA-1" },
+    false,
+    ["sign"],
+  );
+
+  const counter = new DataView(new ArrayBuffer(8));
+  counter.setUint32(0, Math.floor(step / 2 ** 32));
+  counter.setUint32(4, step >>> 0);
+  const hmac = new Uint8Array(await crypto.subtle.sign("HMAC", key, counter.buffer));
+
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = ((hmac[offset] & 127) << 24) | (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) | hmac[offset + 3];
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+/**
+ * Check a TOTP code, allowing one step of clock drift either way.
+ * Returns the matching step, or null. Steps up to `afterStep` are
+ * rejected so a code cannot be used twice.
+ */
+export async function verifyTotp(
+  secret: string,
+  code: string,
+  options: { now?: number; afterStep?: number } = {},
+): Promise<number | null> {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) return null;
+
+  const current = Math.floor((options.now ?? Date.now()) / 1000 / TOTP_PERIOD);
+  for (const step of [current - 1, current, current + 1]) {
+    if (options.afterStep !== undefined && step <= options.afterStep) continue;
+    if ((await totpCode(secret, step)) === code) return step;
+  }
+  return null;
+}
@@ -0,0 +1,49 @@
+// src/utils/crypto_test.ts
+import { assertEquals } from "@std/assert";
+import {
+  base32Decode,
+  base32Encode,
+  generateTotpSecret,
+  TOTP_PERIOD,
+  totpCode,
+  verifyTotp,
+} from "./crypto.ts";
+
+// Seed of the SHA-1 test vectors in RFC 6238 appendix B ("12345678901234567890")
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+Deno.test("base32 round-trips and matches RFC 4648", () => {
+  const bytes = new TextEncoder().encode("12345678901234567890");
+  assertEquals(base32Encode(bytes), RFC_SECRET);
+  assertEquals(base32Decode(RFC_SECRET.toLowerCase()), bytes);
+  assertEquals(base32Encode(new TextEncoder().encode("foobar")), "MZXW6YTBOI");
+  assertEquals(base32Decode(generateTotpSecret()).length, 20);
+});
+
+Deno.test("totpCode matches the RFC 6238 test vectors", async () => {
+  // The RFC lists 8 digits; the last 6 are the 6-digit codes
+  const vectors: [number, string][] = [
+    [59, "287082"],
+    [1111111109, "081804"],
+    [1111111111, "050471"],
+    [1234567890, "005924"],
+    [2000000000, "279037"],
+    [20000000000, "353130"],
+  ];
+
+  for (const [seconds, code] of vectors) {
+    assertEquals(await totpCode(RFC_SECRET, Math.floor(seconds / TOTP_PERIOD)), code);
+  }
+});
+
+Deno.test("verifyTotp allows one step of drift and rejects reused steps", async () => {
+  const now = 1111111111 * 1000;
+  const step = Math.floor(now / 1000 / TOTP_PERIOD);
+  const previous = await totpCode(RFC_SECRET, step - 1);
+
+  assertEquals(await verifyTotp(RFC_SECRET, "050471", { now }), step);
+  assertEquals(await verifyTotp(RFC_SECRET, previous, { now }), step - 1);
+  assertEquals(await verifyTotp(RFC_SECRET, await totpCode(RFC_SECRET, step - 2), { now }), null);
+  assertEquals(await verifyTotp(RFC_SECRET, "050471", { now, afterStep: step }), null);
+  assertEquals(await verifyTotp(RFC_SECRET, "50471", { now }), null);
+});
@@ -0,0 +1,168 @@
+// src/utils/diff.ts
+// Line diff (Myers O(ND)) between two markdown documents
+
+export type DiffOp = "equal" | "add" | "remove";
+
+export interface DiffLine {
+  op: DiffOp;
+  text: string;
+  oldLine?: number; // 1-based, absent for added lines
+  newLine?: number; // 1-based, absent for removed lines
+}
+
+export interface LineDiff {
+  added: number;
+  removed: number;
+  lines: DiffLine[];
+  unified: string; // unified diff with 3 lines of context
+}
+
+const CONTEXT_LINES = 3;
+
+// Past this many edits the trace gets too big; the diff degrades to
+// "remove everything, add everything" for the differing middle part
+const MAX_EDIT_DISTANCE = 4000;
+
+function splitLines(text: string): string[] {
+  return text === "" ? [] : text.split(/\r?\n/);
+}
+
+/**
+ * Shortest edit script between two line arrays. Returns the matched
+ * (oldIndex, newIndex) pairs in order.
+ */
+function matchLines(a: string[], b: string[]): [number, number][] {
+  // Common prefix and suffix never take part in the edit script
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (
+    tail < a.length - head && tail < b.length - head &&
+    a[a.length - 1 - tail] === b[b.length - 1 - tail]
+  ) tail++;
+
+  const middle = myers(a.slice(head, a.length - tail), b.slice(head, b.length - tail));
+  const pairs: [number, number][] = [];
+  for (let i = 0; i < head; i++) pairs.push([i, i]);
+  for (const [x, y] of middle) pairs.push([x + head, y + head]);
+  for (let i = tail; i > 0; i--) pairs.push([a.length - i, b.length - i]);
+  return pairs;
+}
+
+function myers(a: string[], b: string[]): [number, number][] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = []; // trace[d] holds v[-d..d] before step d
+
+  outer: for (let d = 0; d <= max; d++) {
+    if (d > MAX_EDIT_DISTANCE) return [];
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) break outer;
+    }
+  }
+
+  // Walk the trace backwards to recover the matched lines
+  const pairs: [number, number][] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && vd[d + k - 1] < vd[d + k + 1]) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : vd[d + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      pairs.push([x - 1, y - 1]);
+      x--;
+      y--;
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return pairs.reverse();
+}
+
+function formatUnified(lines: DiffLine[]): string {
+  const changed = lines.map((line) => line.op !== "equal");
+  const out: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    if (!changed[i]) {
+      i++;
+      continue;
+    }
+
+    // Grow the hunk while changes are within 2 * context of each other
+    const start = Math.max(0, i - CONTEXT_LINES);
+    let end = i;
+    while (end < lines.length) {
+      let next = end;
+      while (next < lines.length && !changed[next]) next++;
+      if (next >= lines.length || next - end > 2 * CONTEXT_LINES) break;
+      end = next + 1;
+    }
+    end = Math.min(lines.length, end + CONTEXT_LINES);
+
+    const hunk = lines.slice(start, end);
+    const oldStart = hunk.find((l) => l.oldLine)?.oldLine ?? 0;
+    const newStart = hunk.find((l) => l.newLine)?.newLine ?? 0;
+    const oldCount = hunk.filter((l) => l.op !== "add").length;
+    const newCount = hunk.filter((l) => l.op !== "remove").length;
+
+    out.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const line of hunk) {
+      const prefix = line.op === "add" ? "+" : line.op === "remove" ? "-" : " ";
+      out.push(prefix + line.text);
+    }
+    i = end;
+  }
+
+  return out.join("\n");
+}
+
+/**
+ * Diff `before` against `after` line by line
+ */
+export function diffLines(before: string, after: string): LineDiff {
+  const a = splitLines(before);
+  const b = splitLines(after);
+  const lines: DiffLine[] = [];
+  let added = 0;
+  let removed = 0;
+  let x = 0;
+  let y = 0;
+
+  for (const [mx, my] of [...matchLines(a, b), [a.length, b.length]]) {
+    for (; x < mx; x++) {
+      lines.push({ op: "remove", text: a[x], oldLine: x + 1 });
+      removed++;
+    }
+    for (; y < my; y++) {
+      lines.push({ op: "add", text: b[y], newLine: y + 1 });
+      added++;
+    }
+    if (mx < a.length) {
+      lines.push({ op: "equal", text: a[mx], oldLine: mx + 1, newLine: my + 1 });
+      x++;
+      y++;
+    }
+  }
+
+  return { added, removed, lines, unified: formatUnified(lines) };
+}
@@ -0,0 +1,61 @@
+// src/utils/diff_test.ts
+import { assertEquals } from "@std/assert";
+import { diffLines } from "./diff.ts";
+
+Deno.test("identical documents have no changes", () => {
+  const diff = diffLines("a\nb", "a\nb");
+
+  assertEquals(diff.added, 0);
+  assertEquals(diff.removed, 0);
+  assertEquals(diff.unified, "");
+  assertEquals(diff.lines.map((line) => line.op), ["equal", "equal"]);
+});
+
+Deno.test("changed lines are a removal followed by an addition", () => {
+  const diff = diffLines("# Todo\n- [ ] a\n- [ ] b\n", "# Todo\n- [x] a\n- [ ] b\n- [ ] c\n");
+
+  assertEquals(diff.added, 2);
+  assertEquals(diff.removed, 1);
+  assertEquals(diff.lines, [
+    { op: "equal", text: "# Todo", oldLine: 1, newLine: 1 },
+    { op: "remove", text: "- [ ] a", oldLine: 2 },
+    { op: "add", text: "- [x] a", newLine: 2 },
+    { op: "equal", text: "- [ ] b", oldLine: 3, newLine: 3 },
+    { op: "add", text: "- [ ] c", newLine: 4 },
+    { op: "equal", text: "", oldLine: 4, newLine: 5 },
+  ]);
+});
+
+Deno.test("unified output groups changes into hunks with context", () => {
+  const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+  const after = [...before];
+  after[1] = "changed 2";
+  after[17] = "changed 18";
+
+  assertEquals(
+    diffLines(before.join("\n"), after.join("\n")).unified,
+    [
+      "@@ -1,5 +1,5 @@",
+      " line 1",
+      "-line 2",
+      "+changed 2",
+      " line 3",
+      " line 4",
+      " line 5",
+      "@@ -15,6 +15,6 @@",
+      " line 15",
+      " line 16",
+      " line 17",
+      "-line 18",
+      "+changed 18",
+      " line 19",
+      " line 20",
+    ].join("\n"),
+  );
+});
+
+Deno.test("empty documents diff to pure additions or removals", () => {
+  assertEquals(diffLines("", "a\nb").added, 2);
+  assertEquals(diffLines("a\nb", "").removed, 2);
+  assertEquals(diffLines("", "").lines, []);
+});
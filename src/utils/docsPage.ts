@@ -0,0 +1,171 @@
+// src/utils/docsPage.ts
+// Self-hosted API docs page (no CDN). Renders the OpenAPI document in the
+// browser and lets you send requests with your own token.
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+export function renderDocsPage(title: string, specUrl: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)} docs</title>
+<style>
+  body { font: 14px/1.5 system-ui, sans-serif; margin: 0; color: #1f2328; background: #f6f8fa; }
+  header { background: #24292f; color: #fff; padding: 12px 24px; display: flex; gap: 16px; align-items: center; }
+  header h1 { font-size: 18px; margin: 0; flex: 1; }
+  header input { width: 360px; padding: 4px 8px; }
+  main { max-width: 1000px; margin: 0 auto; padding: 16px 24px; }
+  h2 { margin: 24px 0 8px; font-size: 16px; }
+  details { background: #fff; border: 1px solid #d0d7de; border-radius: 6px; margin: 6px 0; }
+  summary { cursor: pointer; padding: 8px 12px; display: flex; gap: 12px; align-items: baseline; }
+  .method { font: bold 12px monospace; width: 56px; text-align: center; border-radius: 4px; padding: 2px 0; color: #fff; }
+  .GET { background: #0969da; } .POST { background: #1a7f37; } .PUT { background: #9a6700; }
+  .PATCH { background: #8250df; } .DELETE { background: #cf222e; }
+  .path { font-family: monospace; }
+  .lock { color: #57606a; }
+  .body { padding: 0 12px 12px; }
+  pre { background: #f6f8fa; padding: 8px; overflow: auto; max-height: 320px; margin: 4px 0; }
+  table { border-collapse: collapse; margin: 4px 0; }
+  td, th { border: 1px solid #d0d7de; padding: 2px 8px; text-align: left; vertical-align: top; }
+  textarea { width: 100%; min-height: 120px; font-family: monospace; box-sizing: border-box; }
+  button { margin-top: 8px; }
+</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(title)}</h1>
+  <input id="token" placeholder="Bearer token (from POST /api/login)" autocomplete="off">
+</header>
+<main id="content">Loading ${escapeHtml(specUrl)}…</main>
+<script>
+const SPEC_URL = ${JSON.stringify(specUrl)};
+const tokenInput = document.getElementById("token");
+tokenInput.value = localStorage.getItem("markdash-docs-token") || "";
+tokenInput.addEventListener("change", () => localStorage.setItem("markdash-docs-token", tokenInput.value));
+
+function el(tag, attrs, ...children) {
+  const node = document.createElement(tag);
+  for (const [key, value] of Object.entries(attrs || {})) node.setAttribute(key, value);
+  for (const child of children) node.append(child);
+  return node;
+}
+
+function resolve(spec, schema) {
+  while (schema && schema.$ref) schema = spec.components.schemas[schema.$ref.split("/").pop()];
+  return schema || {};
+}
+
+function example(spec, schema, depth = 0) {
+  schema = resolve(spec, schema);
+  if (depth > 4) return null;
+  if (schema.anyOf) return example(spec, schema.anyOf[0], depth);
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum) return schema.enum[0];
+  if (schema.type === "object") {
+    const out = {};
+    for (const [key, value] of Object.entries(schema.properties || {})) {
+      out[key] = example(spec, value, depth + 1);
+    }
+    return out;
+  }
+  if (schema.type === "array") return [example(spec, schema.items, depth + 1)];
+  if (schema.type === "integer" || schema.type === "number") return schema.minimum ?? 0;
+  if (schema.type === "boolean") return false;
+  if (schema.format === "date") return new Date().toISOString().slice(0, 10);
+  if (schema.format === "date-time") return new Date().toISOString();
+  if (schema.pattern && schema.pattern.includes(":")) return "08:00"; // HH:MM
+  return "string";
+}
+
+function operationView(spec, path, method, op) {
+  const body = el("div", { class: "body" });
+  if (op.description) body.append(el("p", {}, op.description));
+
+  const inputs = {};
+  if (op.parameters && op.parameters.length) {
+    const table = el("table", {}, el("tr", {}, el("th", {}, "Parameter"), el("th", {}, "In"), el("th", {}, "Description"), el("th", {}, "Value")));
+    for (const param of op.parameters) {
+      const input = el("input", { placeholder: param.required ? "required" : "optional" });
+      inputs[param.name] = { param, input };
+      table.append(el("tr", {}, el("td", {}, param.name), el("td", {}, param.in), el("td", {}, param.description || ""), el("td", {}, input)));
+    }
+    body.append(table);
+  }
+
+  let bodyInput = null;
+  const requestSchema = op.requestBody && op.requestBody.content["application/json"].schema;
+  if (requestSchema) {
+    const name = requestSchema.$ref ? requestSchema.$ref.split("/").pop() : "JSON";
+    bodyInput = el("textarea", {});
+    bodyInput.value = JSON.stringify(example(spec, requestSchema), null, 2);
+    body.append(el("div", {}, "Request body (" + name + ")"), bodyInput);
+  }
+
+  const responses = el("table", {}, el("tr", {}, el("th", {}, "Status"), el("th", {}, "Description")));
+  for (const [status, response] of Object.entries(op.responses)) {
+    responses.append(el("tr", {}, el("td", {}, status), el("td", {}, response.description || "")));
+  }
+  body.append(el("div", {}, "Responses"), responses);
+
+  const output = el("pre", {}, "");
+  const send = el("button", {}, "Send request");
+  send.addEventListener("click", async () => {
+    let url = path;
+    const query = new URLSearchParams();
+    for (const { param, input } of Object.values(inputs)) {
+      if (param.in === "path") url = url.replace("{" + param.name + "}", encodeURIComponent(input.value));
+      else if (input.value) query.set(param.name, input.value);
+    }
+    if ([...query].length) url += "?" + query;
+
+    const headers = {};
+    if (tokenInput.value) headers.Authorization = "Bearer " + tokenInput.value.replace(/^Bearer /, "");
+    if (bodyInput) headers["Content-Type"] = "application/json";
+
+    output.textContent = "…";
+    try {
+      const res = await fetch(url, { method: method.toUpperCase(), headers, body: bodyInput ? bodyInput.value : undefined });
+      const text = await res.text();
+      let pretty = text;
+      try { pretty = JSON.stringify(JSON.parse(text), null, 2); } catch {}
+      output.textContent = res.status + " " + res.statusText + "\\n\\n" + pretty;
+    } catch (err) {
+      output.textContent = String(err);
+    }
+  });
+  body.append(send, output);
+
+  const summary = el("summary", {},
+    el("span", { class: "method " + method.toUpperCase() }, method.toUpperCase()),
+    el("span", { class: "path" }, path),
+    el("span", {}, op.summary || ""),
+    el("span", { class: "lock" }, op.security && op.security.length ? "🔒" : ""));
+  return el("details", {}, summary, body);
+}
+
+fetch(SPEC_URL).then((res) => res.json()).then((spec) => {
+  const content = document.getElementById("content");
+  content.textContent = "";
+  content.append(el("p", {}, spec.info.description || "", " OpenAPI document: ", el("a", { href: SPEC_URL }, SPEC_URL)));
+
+  const byTag = new Map();
+  for (const [path, methods] of Object.entries(spec.paths)) {
+    for (const [method, op] of Object.entries(methods)) {
+      const tag = (op.tags && op.tags[0]) || "Other";
+      if (!byTag.has(tag)) byTag.set(tag, []);
+      byTag.get(tag).push(operationView(spec, path, method, op));
+    }
+  }
+  for (const [tag, views] of byTag) content.append(el("h2", {}, tag), ...views);
+}).catch((err) => {
+  document.getElementById("content").textContent = "Failed to load " + SPEC_URL + ": " + err;
+});
+</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,39 @@
+// src/utils/etag.ts
+// Board versions as strong ETags, for If-Match (optimistic concurrency)
+
+import type { Context } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import type { Board } from "../types.ts";
+import { conflict } from "./response.ts";
+
+/**
+ * Format a KV versionstamp as an ETag
+ */
+export function versionETag(versionstamp: string): string {
+  return `"${versionstamp}"`;
+}
+
+export function setVersionETag(ctx: Context, versionstamp: string) {
+  ctx.response.headers.set("ETag", versionETag(versionstamp));
+}
+
+/**
+ * Read the version the client expects from If-Match. Returns undefined
+ * when there is no precondition ("*" or no header), otherwise the set
+ * of acceptable versionstamps. Weak tags never match (strong comparison).
+ */
+export function getIfMatch(ctx: Context): string[] | undefined {
+  const header = ctx.request.headers.get("If-Match");
+  if (!header || header.trim() === "*") return undefined;
+
+  return header.split(",")
+    .map((tag) => tag.trim().replace(/^"(.*)"$/, "$1"))
+    .filter((tag) => tag !== "");
+}
+
+/**
+ * Respond 409 with the current server copy of the board and its ETag
+ */
+export function boardConflict(ctx: Context, board: Board, versionstamp: string) {
+  setVersionETag(ctx, versionstamp);
+  conflict(ctx, "Board has been modified, reload and try again", board);
+}
@@ -0,0 +1,129 @@
+// src/utils/events.ts
+// Real-time board events, delivered across isolates through Deno.Kv.watch
+
+import type { Board, Log } from "../types.ts";
+import { getKV } from "./kv.ts";
+
+export interface BoardEvent {
+  seq: number;
+  type: string;
+  data: unknown;
+  time: string;
+}
+
+export interface BoardStreamEvent {
+  type: string;
+  data: unknown;
+  id?: number;
+}
+
+// Only the most recent events are kept, watchers only need what they missed
+const MAX_STORED_EVENTS = 20;
+const EVENT_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+function today(now = new Date()): string {
+  return now.toISOString().split("T")[0];
+}
+
+function msUntilNextDay(now = new Date()): number {
+  const next = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return next - now.getTime();
+}
+
+/**
+ * Publish an event that is not a board/log write itself
+ * (e.g. a notification becoming due)
+ */
+export async function publishBoardEvent(boardId: string, type: string, data: unknown) {
+  const kv = getKV();
+  const key = ["board_event", boardId];
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const entry = await kv.get<BoardEvent[]>(key);
+    const events = entry.value ?? [];
+    // Time-based so sequences keep increasing after the stored events expire
+    const seq = Math.max(Date.now(), (events[events.length - 1]?.seq ?? 0) + 1);
+    const next = [...events, { seq, type, data, time: new Date().toISOString() }]
+      .slice(-MAX_STORED_EVENTS);
+
+    const result = await kv.atomic()
+      .check(entry)
+      .set(key, next, { expireIn: EVENT_TTL_MS })
+      .commit();
+    if (result.ok) return;
+  }
+
+  console.warn(`Dropped board event ${type} for ${boardId}`);
+}
+
+/**
+ * Watch a board's board, log and event keys and forward changes:
+ * - `board.updated` / `board.deleted` when the board key changes
+ * - `log.action` for every action appended to today's log
+ * - published events (e.g. `notification.due`)
+ * Runs until `signal` is aborted or the board is deleted.
+ */
+export async function streamBoardEvents(
+  board: Board,
+  send: (event: BoardStreamEvent) => void,
+  signal: AbortSignal,
+) {
+  const kv = getKV();
+  let boardStamp: string | null = null;
+  let logDate = "";
+  let logLength = 0;
+  let lastSeq: number | null = null;
+
+  while (!signal.aborted) {
+    const date = today();
+    const reader = kv.watch([
+      ["board", board.userId, board.id],
+      ["log", board.id, date],
+      ["board_event", board.id],
+    ]).getReader();
+
+    // Re-watch at midnight UTC so the new day's log key is followed
+    const rollover = setTimeout(() => reader.cancel(), msUntilNextDay());
+    const onAbort = () => reader.cancel();
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      while (true) {
+        const { value: entries, done } = await reader.read();
+        if (done) break;
+        const [boardEntry, logEntry, eventEntry] = entries;
+
+        if (boardStamp !== null && boardEntry.versionstamp !== boardStamp) {
+          if (boardEntry.value === null) {
+            send({ type: "board.deleted", data: { id: board.id } });
+            return;
+          }
+          send({ type: "board.updated", data: boardEntry.value });
+        }
+        boardStamp = boardEntry.versionstamp;
+
+        const log = logEntry.value as Log | null;
+        const actions = log?.actions ?? [];
+        // First read of the first day is the baseline, a new day starts from zero
+        const seen = logDate === date ? logLength : logDate === "" ? actions.length : 0;
+        for (const action of actions.slice(seen)) {
+          send({ type: "log.action", data: { boardId: board.id, date, action } });
+        }
+        logDate = date;
+        logLength = actions.length;
+
+        const events = (eventEntry.value as BoardEvent[] | null) ?? [];
+        const latestSeq = events[events.length - 1]?.seq ?? 0;
+        if (lastSeq !== null) {
+          for (const event of events.filter((e) => e.seq > lastSeq!)) {
+            send({ type: event.type, data: event.data, id: event.seq });
+          }
+        }
+        lastSeq = Math.max(lastSeq ?? 0, latestSeq);
+      }
+    } finally {
+      clearTimeout(rollover);
+      signal.removeEventListener("abort", onAbort);
+    }
+  }
+}
@@ -1,9 +1,16 @@
 // src/utils/kv.ts
+import type { ApiToken, BoardTemplate } from "../types.ts";
+import { listPage } from "./pagination.ts";
+import { clearCache } from "../middleware/performanceMiddleware.ts";
 
 let kv: Deno.Kv;
 
-export async function initKV() {
-  kv = await Deno.openKv();
+// Retries for read-modify-write helpers that lose a race
+const MAX_WRITE_ATTEMPTS = 10;
+
+// `path` is for tests, e.g. ":memory:"
+export async function initKV(path?: string) {
+  kv = await Deno.openKv(path);
   return kv;
 }
 
@@ -32,6 +39,86 @@ export async function setUser(id: string, user: any) {
   await kv.set(["user_by_username", user.username], id);
 }
 
+// Rename a user, keeping the user_by_username index consistent.
+// Returns null if the new username is taken (or the user changed meanwhile).
+export async function renameUser(id: string, newUsername: string) {
+  const kv = getKV();
+  const userEntry = await kv.get<{ username: string }>(["user", id]);
+  if (!userEntry.value) return null;
+
+  const renamed = {
+    ...userEntry.value,
+    username: newUsername,
+    updatedAt: new Date().toISOString(),
+  };
+
+  const result = await kv.atomic()
+    .check(userEntry)
+    .check({ key: ["user_by_username", newUsername], versionstamp: null })
+    .set(["user", id], renamed)
+    .delete(["user_by_username", userEntry.value.username])
+    .set(["user_by_username", newUsername], id)
+    .commit();
+
+  return result.ok ? renamed : null;
+}
+
+// Session operations
+export async function getSession(userId: string, sessionId: string) {
+  const result = await getKV().get(["session", userId, sessionId]);
+  return result.value;
+}
+
+export async function getSessionsByUserId(userId: string) {
+  const sessions = [];
+  const iter = getKV().list({ prefix: ["session", userId] });
+  for await (const entry of iter) {
+    sessions.push(entry.value);
+  }
+  return sessions;
+}
+
+export async function setSession(
+  userId: string,
+  sessionId: string,
+  session: { expiresAt: string },
+) {
+  const expireIn = new Date(session.expiresAt).getTime() - Date.now();
+  await getKV().set(["session", userId, sessionId], session, { expireIn });
+}
+
+export async function getSessionEntry<T>(userId: string, sessionId: string) {
+  return await getKV().get<T>(["session", userId, sessionId]);
+}
+
+// Replace a session only if it has not changed since `entry` was read
+export async function replaceSession(
+  entry: Deno.KvEntryMaybe<unknown>,
+  session: { expiresAt: string },
+): Promise<boolean> {
+  const expireIn = new Date(session.expiresAt).getTime() - Date.now();
+  const result = await getKV().atomic()
+    .check(entry)
+    .set(entry.key, session, { expireIn })
+    .commit();
+  return result.ok;
+}
+
+export async function deleteSession(userId: string, sessionId: string) {
+  await getKV().delete(["session", userId, sessionId]);
+}
+
+// Revoked access token IDs, kept until the token would have expired anyway
+export async function denyTokenId(jti: string, exp: number) {
+  const expireIn = Math.max(exp * 1000 - Date.now(), 1000);
+  await getKV().set(["jti_denylist", jti], true, { expireIn });
+}
+
+export async function isTokenIdDenied(jti: string) {
+  const result = await getKV().get(["jti_denylist", jti]);
+  return result.value === true;
+}
+
 // Board operations
 export async function getBoard(userId: string, boardId: string) {
   const result = await getKV().get(["board", userId, boardId]);
@@ -47,24 +134,272 @@ export async function getBoardsByUserId(userId: string) {
   return boards;
 }
 
-export async function setBoard(userId: string, boardId: string, board: any) {
-  await getKV().set(["board", userId, boardId], board);
+// Board entry with its versionstamp (used as the board version / ETag)
+export async function getBoardEntry(userId: string, boardId: string) {
+  return await getKV().get(["board", userId, boardId]);
+}
+
+// Board fields mirrored into secondary indexes
+interface IndexedBoard {
+  id: string;
+  visibility: string;
+  slug?: string;
+  deletedAt?: string;
+}
+
+// Boards in the trash are not public, but keep their slug for a restore
+function isPublic(board: IndexedBoard | null) {
+  return board?.visibility === "public" && !board.deletedAt;
+}
+
+// Add the public_board / board_slug index changes for a board write to an
+// atomic operation. A new slug must not exist yet, so the commit fails if
+// another board took it in the meantime.
+function syncBoardIndexes(
+  op: Deno.AtomicOperation,
+  ownerId: string,
+  previous: IndexedBoard | null,
+  board: IndexedBoard,
+) {
+  if (isPublic(board)) {
+    op.set(["public_board", board.id], ownerId);
+  } else if (isPublic(previous)) {
+    op.delete(["public_board", board.id]);
+  }
+
+  if (previous?.slug !== board.slug) {
+    if (previous?.slug) op.delete(["board_slug", previous.slug]);
+    if (board.slug) {
+      op.check({ key: ["board_slug", board.slug], versionstamp: null })
+        .set(["board_slug", board.slug], board.id);
+    }
+  }
+}
+
+// Public board responses are cached (see cacheMiddleware); drop the ones a
+// write to a board that was or became public may have changed, under its id
+// and under its old and new share slug
+export function clearPublicBoardCache(
+  previous: IndexedBoard | null,
+  board: IndexedBoard | null,
+) {
+  if (!isPublic(previous) && !isPublic(board)) return;
+
+  const boardId = (board ?? previous)!.id;
+  clearCache(`/api/public/${boardId}`);
+  for (const slug of new Set([previous?.slug, board?.slug])) {
+    if (slug) clearCache(`/api/public/s/${slug}`);
+  }
+}
+
+// Write a board (with `versionstamp`, only if the board is still at that
+// version) and keep its indexes in sync. Returns the new versionstamp, or
+// null when the version check or the slug check failed.
+export async function setBoard(
+  userId: string,
+  boardId: string,
+  board: any,
+  versionstamp?: string | null,
+) {
+  const result = await updateBoard<IndexedBoard | null>(
+    userId,
+    boardId,
+    () => board,
+    versionstamp,
+    true,
+  );
+  return result.ok ? result.versionstamp : null;
+}
+
+export type BoardUpdate<T> =
+  | { ok: true; board: T; previous: T; versionstamp: string }
+  | {
+    ok: false;
+    board: T | null;
+    versionstamp: string | null;
+    slugTaken?: boolean; // the requested slug belongs to another board
+  };
+
+// Read-modify-write a board from its latest stored value. With
+// `expectedVersion` the update is refused (ok: false, current copy
+// returned) once the board has moved past that version; without it,
+// lost races are retried. `upsert` allows creating the board.
+export async function updateBoard<T extends IndexedBoard | null>(
+  userId: string,
+  boardId: string,
+  apply: (board: T) => T,
+  expectedVersion?: string | null,
+  upsert = false,
+): Promise<BoardUpdate<T>> {
+  const kv = getKV();
+  const key = ["board", userId, boardId];
+
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const entry = await kv.get<T>(key);
+    if (
+      (entry.value === null && !upsert) ||
+      (expectedVersion !== undefined && entry.versionstamp !== expectedVersion)
+    ) {
+      return { ok: false, board: entry.value, versionstamp: entry.versionstamp };
+    }
+
+    const board = apply(entry.value as T);
+    const op = kv.atomic().check(entry).set(key, board);
+    syncBoardIndexes(op, userId, entry.value, board!);
+
+    const result = await op.commit();
+    if (result.ok) {
+      clearPublicBoardCache(entry.value, board);
+      return { ok: true, board, previous: entry.value as T, versionstamp: result.versionstamp };
+    }
+
+    if (board?.slug && board.slug !== entry.value?.slug) {
+      const owner = await kv.get<string>(["board_slug", board.slug]);
+      if (owner.value && owner.value !== boardId) {
+        return { ok: false, board: entry.value, versionstamp: entry.versionstamp, slugTaken: true };
+      }
+    }
+  }
+
+  throw new Error("Board is being updated too often, try again");
 }
 
 export async function deleteBoard(userId: string, boardId: string) {
   await getKV().delete(["board", userId, boardId]);
 }
 
-// Public board access
+// Board revisions, keyed by an increasing number
+export async function getRevision(boardId: string, rev: number) {
+  const result = await getKV().get(["board_rev", boardId, rev]);
+  return result.value;
+}
+
+export async function getRevisionsByBoardId(boardId: string) {
+  const revisions = [];
+  const iter = getKV().list({ prefix: ["board_rev", boardId] }, { reverse: true });
+  for await (const entry of iter) {
+    revisions.push(entry.value);
+  }
+  return revisions;
+}
+
+// Board membership (sharing)
+export async function getBoardMember(boardId: string, userId: string) {
+  const result = await getKV().get(["board_member", boardId, userId]);
+  return result.value;
+}
+
+export async function getBoardMembers(boardId: string) {
+  const members = [];
+  const iter = getKV().list({ prefix: ["board_member", boardId] });
+  for await (const entry of iter) {
+    members.push(entry.value);
+  }
+  return members;
+}
+
+export async function getMemberBoardOwner(userId: string, boardId: string) {
+  const result = await getKV().get<string>(["member_board", userId, boardId]);
+  return result.value;
+}
+
+// Boards shared with a user, as { boardId, ownerId }
+export async function getSharedBoardRefs(userId: string) {
+  const refs = [];
+  const iter = getKV().list<string>({ prefix: ["member_board", userId] });
+  for await (const entry of iter) {
+    refs.push({ boardId: entry.key[2] as string, ownerId: entry.value });
+  }
+  return refs;
+}
+
+export async function setBoardMember(
+  ownerId: string,
+  member: { boardId: string; userId: string },
+) {
+  await getKV().atomic()
+    .set(["board_member", member.boardId, member.userId], member)
+    .set(["member_board", member.userId, member.boardId], ownerId)
+    .commit();
+}
+
+export async function deleteBoardMember(boardId: string, userId: string) {
+  await getKV().atomic()
+    .delete(["board_member", boardId, userId])
+    .delete(["member_board", userId, boardId])
+    .commit();
+}
+
+export async function deleteBoardMembers(boardId: string) {
+  const iter = getKV().list({ prefix: ["board_member", boardId] });
+  for await (const entry of iter) {
+    await deleteBoardMember(boardId, entry.key[2] as string);
+  }
+}
+
+// Public board access, through the public_board index
 export async function getPublicBoard(boardId: string) {
-  const iter = getKV().list({ prefix: ["board"] });
+  const ownerId = await getKV().get<string>(["public_board", boardId]);
+  if (!ownerId.value) return null;
+
+  const board = (await getBoard(ownerId.value, boardId)) as IndexedBoard | null;
+  return isPublic(board) ? board : null;
+}
+
+export async function getBoardIdBySlug(slug: string) {
+  const result = await getKV().get<string>(["board_slug", slug]);
+  return result.value;
+}
+
+// User board templates
+export async function getTemplate(userId: string, templateId: string) {
+  const result = await getKV().get(["template", userId, templateId]);
+  return result.value;
+}
+
+export async function getTemplatesByUserId(userId: string) {
+  const templates = [];
+  const iter = getKV().list({ prefix: ["template", userId] });
   for await (const entry of iter) {
-    const board = entry.value as any;
-    if (board.id === boardId && board.visibility === "public") {
-      return board;
-    }
+    templates.push(entry.value);
   }
-  return null;
+  return templates;
+}
+
+export async function setTemplate(userId: string, templateId: string, template: BoardTemplate) {
+  await getKV().set(["template", userId, templateId], template);
+}
+
+export async function deleteTemplate(userId: string, templateId: string) {
+  await getKV().delete(["template", userId, templateId]);
+}
+
+// Personal access tokens
+export async function getApiToken(userId: string, tokenId: string) {
+  const result = await getKV().get(["api_token", userId, tokenId]);
+  return result.value;
+}
+
+export async function getApiTokensByUserId(userId: string) {
+  const tokens = [];
+  const iter = getKV().list({ prefix: ["api_token", userId] });
+  for await (const entry of iter) {
+    tokens.push(entry.value);
+  }
+  return tokens;
+}
+
+export async function setApiToken(
+  userId: string,
+  tokenId: string,
+  token: ApiToken,
+  options?: { expireIn?: number },
+) {
+  await getKV().set(["api_token", userId, tokenId], token, options);
+}
+
+export async function deleteApiToken(userId: string, tokenId: string) {
+  await getKV().delete(["api_token", userId, tokenId]);
 }
 
 // Log operations
@@ -82,12 +417,89 @@ export async function getLogsByBoardId(boardId: string) {
   return logs;
 }
 
+// One page of a board's logs in date order. `from`/`to` (YYYY-MM-DD,
+// inclusive) become a key range on ["log", boardId, date].
+export async function getLogsPage(boardId: string, options: {
+  from?: string;
+  to?: string;
+  limit: number;
+  cursor?: string;
+  reverse?: boolean;
+}) {
+  const prefix = ["log", boardId];
+  const start = options.from ? [...prefix, options.from] : undefined;
+  // "\0" sorts right after the date itself, so `to` is included
+  const end = options.to ? [...prefix, options.to + "\0"] : undefined;
+
+  const selector: Deno.KvListSelector = start && end
+    ? { start, end }
+    : start
+    ? { prefix, start }
+    : end
+    ? { prefix, end }
+    : { prefix };
+
+  return await listPage(getKV(), selector, options);
+}
+
 export async function setLog(boardId: string, date: string, log: any) {
-  await getKV().set(["log", boardId, date], log);
+  await getKV().atomic()
+    .set(["log", boardId, date], log)
+    .set(["log_by_id", log.id], [boardId, date])
+    .commit();
+}
+
+// Read-modify-write a day's log so concurrent appends never drop actions.
+// With `boardCheck` the write only happens while the board is still at
+// that version; returns null once it is not.
+export async function updateLog<T extends { id: string }>(
+  boardId: string,
+  date: string,
+  apply: (log: T | null) => T,
+  boardCheck?: Deno.AtomicCheck,
+): Promise<{ log: T; created: boolean } | null> {
+  const kv = getKV();
+  const key = ["log", boardId, date];
+
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const entry = await kv.get<T>(key);
+    const log = apply(entry.value);
+
+    const op = kv.atomic()
+      .check(entry)
+      .set(key, log)
+      .set(["log_by_id", log.id], [boardId, date]);
+    if (boardCheck) op.check(boardCheck);
+
+    if ((await op.commit()).ok) {
+      return { log, created: entry.value === null };
+    }
+
+    if (boardCheck) {
+      const board = await kv.get(boardCheck.key);
+      if (board.versionstamp !== boardCheck.versionstamp) return null;
+    }
+  }
+
+  throw new Error("Log is being updated too often, try again");
+}
+
+// Log IDs are unique; ["log_by_id", logId] -> [boardId, date] finds the log
+export async function findLogById(logId: string) {
+  const index = await getKV().get<[string, string]>(["log_by_id", logId]);
+  if (!index.value) return null;
+  return await getLog(...index.value);
 }
 
 export async function deleteLog(boardId: string, date: string) {
-  await getKV().delete(["log", boardId, date]);
+  const kv = getKV();
+  const entry = await kv.get<{ id: string }>(["log", boardId, date]);
+  if (!entry.value) return;
+
+  await kv.atomic()
+    .delete(entry.key)
+    .delete(["log_by_id", entry.value.id])
+    .commit();
 }
 
 // Notification operations
@@ -105,14 +517,27 @@ export async function getNotificationsByBoardId(boardId: string) {
   return notifs;
 }
 
+// Notification IDs are unique; ["notif_by_id", notifId] -> boardId finds the board
+export async function findNotificationById(notifId: string) {
+  const boardId = await getKV().get<string>(["notif_by_id", notifId]);
+  if (!boardId.value) return null;
+  return await getNotification(boardId.value, notifId);
+}
+
 export async function setNotification(
   boardId: string,
   notifId: string,
   notif: any,
 ) {
-  await getKV().set(["notif", boardId, notifId], notif);
+  await getKV().atomic()
+    .set(["notif", boardId, notifId], notif)
+    .set(["notif_by_id", notifId], boardId)
+    .commit();
 }
 
 export async function deleteNotification(boardId: string, notifId: string) {
-  await getKV().delete(["notif", boardId, notifId]);
+  await getKV().atomic()
+    .delete(["notif", boardId, notifId])
+    .delete(["notif_by_id", notifId])
+    .commit();
 }
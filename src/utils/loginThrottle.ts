@@ -0,0 +1,169 @@
+// src/utils/loginThrottle.ts
+// Failed login tracking per username. After a few free attempts every
+// failure doubles the wait before the next attempt is checked; too many
+// failures lock the username for a while and leave a notice on the account.
+// Unknown usernames are tracked the same way, so responses don't reveal
+// which accounts exist. Attempts are counted before the password is checked
+// and cleared once a login succeeds; a correct password that leads to a
+// two-factor challenge gives its attempt back, so the code is the one charged.
+//   ["login_failures", username] -> LoginFailures (expires a day after the last failure)
+
+import type { LockoutNotice, LoginFailures, User } from "../types.ts";
+import { getKV } from "./kv.ts";
+
+export const FREE_ATTEMPTS = 3;
+export const LOCKOUT_ATTEMPTS = 10; // failures that lock the username
+export const LOCKOUT_MS = 15 * 60 * 1000;
+
+const BASE_DELAY_MS = 1000;
+const FAILURE_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_UPDATE_ATTEMPTS = 5;
+
+export interface LoginBlock {
+  locked: boolean;
+  retryAfterMs: number;
+}
+
+// Wait after the n-th consecutive failure
+function failureDelay(count: number): number {
+  if (count >= LOCKOUT_ATTEMPTS) return LOCKOUT_MS;
+  if (count <= FREE_ATTEMPTS) return 0;
+  return BASE_DELAY_MS * 2 ** (count - FREE_ATTEMPTS - 1);
+}
+
+function toBlock(failures: LoginFailures | null, now: number): LoginBlock | null {
+  if (!failures?.retryAt) return null;
+
+  const retryAfterMs = new Date(failures.retryAt).getTime() - now;
+  if (retryAfterMs <= 0) return null;
+  return { locked: failures.count >= LOCKOUT_ATTEMPTS, retryAfterMs };
+}
+
+/**
+ * Claim a login attempt before the password is checked. Returns the block
+ * while attempts are held back; otherwise the attempt is counted as a
+ * failure right away, so concurrent attempts cannot all get in before the
+ * first failure is recorded. A successful login clears the count again.
+ */
+export async function reserveLoginAttempt(
+  username: string,
+  now = Date.now(),
+): Promise<LoginBlock | null> {
+  const kv = getKV();
+  const key = ["login_failures", username];
+
+  for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+    const entry = await kv.get<LoginFailures>(key);
+    const block = toBlock(entry.value, now);
+    if (block) return block;
+
+    const count = (entry.value?.count ?? 0) + 1;
+    const delay = failureDelay(count);
+    const failures: LoginFailures = {
+      count,
+      lastFailedAt: new Date(now).toISOString(),
+      ...(delay > 0 && { retryAt: new Date(now + delay).toISOString() }),
+    };
+
+    const result = await kv.atomic()
+      .check(entry)
+      .set(key, failures, { expireIn: FAILURE_TTL_MS })
+      .commit();
+    if (result.ok) return null;
+  }
+
+  // Lost every race: other attempts for the username are in flight
+  return { locked: false, retryAfterMs: BASE_DELAY_MS };
+}
+
+/**
+ * Give back an attempt claimed with reserveLoginAttempt that turned out
+ * to be only the first step of a login, e.g. a correct password before the
+ * two-factor code. The second step claims its own attempt. Any wait the
+ * claim started is dropped; the one before it had passed already.
+ */
+export async function releaseLoginAttempt(username: string) {
+  const kv = getKV();
+  const key = ["login_failures", username];
+
+  for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+    const entry = await kv.get<LoginFailures>(key);
+    if (!entry.value) return;
+
+    const { retryAt: _, ...failures } = entry.value;
+    const op = kv.atomic().check(entry);
+    if (failures.count > 1) {
+      op.set(key, { ...failures, count: failures.count - 1 }, { expireIn: FAILURE_TTL_MS });
+    } else {
+      op.delete(key);
+    }
+    if ((await op.commit()).ok) return;
+  }
+}
+
+/**
+ * Finish a failed attempt claimed with reserveLoginAttempt. Returns the
+ * resulting block, if any. The attempt that locks an existing account
+ * leaves a lockout notice on it.
+ */
+export async function recordLoginFailure(
+  username: string,
+  user: User | null,
+  ip: string,
+  now = Date.now(),
+): Promise<LoginBlock | null> {
+  const failures = (await getKV().get<LoginFailures>(["login_failures", username])).value;
+  if (!failures) return null;
+
+  if (user && failures.count >= LOCKOUT_ATTEMPTS && failures.retryAt) {
+    await setLockoutNotice(user.id, {
+      lockedAt: failures.lastFailedAt,
+      lockedUntil: failures.retryAt,
+      failures: failures.count,
+      ip,
+    });
+  }
+  return toBlock(failures, now);
+}
+
+/**
+ * Forget failed logins, after a successful login or an unlock
+ */
+export async function clearLoginFailures(username: string) {
+  await getKV().delete(["login_failures", username]);
+}
+
+async function setLockoutNotice(userId: string, lockout: LockoutNotice) {
+  const kv = getKV();
+  for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+    const entry = await kv.get<User>(["user", userId]);
+    if (!entry.value) return;
+
+    const result = await kv.atomic()
+      .check(entry)
+      .set(entry.key, { ...entry.value, lockout })
+      .commit();
+    if (result.ok) return;
+  }
+}
+
+/**
+ * Unlock the account's username and dismiss its lockout notice
+ */
+export async function unlockAccount(userId: string): Promise<User | null> {
+  const kv = getKV();
+  for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+    const entry = await kv.get<User>(["user", userId]);
+    if (!entry.value) return null;
+
+    const { lockout: _, ...user } = entry.value;
+    const result = await kv.atomic()
+      .check(entry)
+      .set(entry.key, user)
+      .delete(["login_failures", user.username])
+      .commit();
+    if (result.ok) return user;
+  }
+
+  throw new Error("Account was changed concurrently, try again");
+}
@@ -0,0 +1,160 @@
+// src/utils/loginThrottle_test.ts
+import { assertEquals } from "@std/assert";
+import type { LoginFailures, User } from "../types.ts";
+import { getKV, getUserById, initKV, setUser } from "./kv.ts";
+import {
+  clearLoginFailures,
+  FREE_ATTEMPTS,
+  LOCKOUT_ATTEMPTS,
+  LOCKOUT_MS,
+  recordLoginFailure,
+  releaseLoginAttempt,
+  reserveLoginAttempt,
+  unlockAccount,
+} from "./loginThrottle.ts";
+
+const NOW = Date.parse("2024-03-10T12:00:00Z");
+
+const user: User = {
+  id: "u1",
+  username: "alice",
+  passwordHash: "hash",
+  createdAt: "2024-01-01T00:00:00.000Z",
+};
+
+function withKV(fn: () => Promise<void>) {
+  return async () => {
+    await initKV(":memory:");
+    try {
+      await setUser(user.id, user);
+      await fn();
+    } finally {
+      getKV().close();
+    }
+  };
+}
+
+async function failureCount(username = "alice") {
+  return (await getKV().get<LoginFailures>(["login_failures", username])).value?.count ?? 0;
+}
+
+// A wrong password at `now`: the claim followed by the failure
+async function failLogin(now: number) {
+  const block = await reserveLoginAttempt("alice", now);
+  return block ?? await recordLoginFailure("alice", user, "203.0.113.7", now);
+}
+
+Deno.test(
+  "failures after the free attempts double the wait",
+  withKV(async () => {
+    for (let i = 0; i < FREE_ATTEMPTS; i++) {
+      assertEquals(await failLogin(NOW), null);
+    }
+
+    assertEquals(await failLogin(NOW), { locked: false, retryAfterMs: 1000 });
+    // Held back attempts are not counted and do not check the password
+    assertEquals(await reserveLoginAttempt("alice", NOW + 999), {
+      locked: false,
+      retryAfterMs: 1,
+    });
+    assertEquals(await failureCount(), FREE_ATTEMPTS + 1);
+
+    assertEquals(await failLogin(NOW + 1000), { locked: false, retryAfterMs: 2000 });
+    assertEquals(await failLogin(NOW + 3000), { locked: false, retryAfterMs: 4000 });
+
+    // Other usernames are counted separately
+    assertEquals(await reserveLoginAttempt("bob", NOW + 3000), null);
+  }),
+);
+
+Deno.test(
+  "too many failures lock the username and leave a notice",
+  withKV(async () => {
+    let now = NOW;
+    for (let i = 1; i < LOCKOUT_ATTEMPTS; i++) {
+      const block = await failLogin(now);
+      now += block?.retryAfterMs ?? 0;
+    }
+
+    assertEquals(await failLogin(now), { locked: true, retryAfterMs: LOCKOUT_MS });
+    assertEquals(await reserveLoginAttempt("alice", now + LOCKOUT_MS - 1), {
+      locked: true,
+      retryAfterMs: 1,
+    });
+
+    const { lockout } = (await getUserById(user.id)) as User;
+    assertEquals(lockout, {
+      lockedAt: new Date(now).toISOString(),
+      lockedUntil: new Date(now + LOCKOUT_MS).toISOString(),
+      failures: LOCKOUT_ATTEMPTS,
+      ip: "203.0.113.7",
+    });
+
+    // Once the lockout ends the next attempt is checked again
+    assertEquals(await reserveLoginAttempt("alice", now + LOCKOUT_MS), null);
+  }),
+);
+
+Deno.test(
+  "unlocking ends the lockout and dismisses the notice",
+  withKV(async () => {
+    let now = NOW;
+    for (let i = 0; i < LOCKOUT_ATTEMPTS; i++) {
+      now += (await failLogin(now))?.retryAfterMs ?? 0;
+    }
+    assertEquals((await reserveLoginAttempt("alice", now - 1))?.locked, true);
+
+    const unlocked = await unlockAccount(user.id);
+    assertEquals(unlocked?.lockout, undefined);
+    assertEquals(((await getUserById(user.id)) as User).lockout, undefined);
+    assertEquals(await failureCount(), 0);
+    assertEquals(await reserveLoginAttempt("alice", now - 1), null);
+  }),
+);
+
+Deno.test(
+  "a successful login clears the count",
+  withKV(async () => {
+    await failLogin(NOW);
+    await failLogin(NOW);
+    assertEquals(await reserveLoginAttempt("alice", NOW), null);
+    await clearLoginFailures("alice");
+    assertEquals(await failureCount(), 0);
+  }),
+);
+
+Deno.test(
+  "a two-factor login with a correct code is charged once and then cleared",
+  withKV(async () => {
+    await failLogin(NOW); // an earlier typo
+
+    // Correct password: the challenge is issued and the attempt given back
+    assertEquals(await reserveLoginAttempt("alice", NOW), null);
+    await releaseLoginAttempt("alice");
+    assertEquals(await failureCount(), 1);
+
+    // The code step claims its own attempt and clears everything on success
+    assertEquals(await reserveLoginAttempt("alice", NOW), null);
+    assertEquals(await failureCount(), 2);
+    await clearLoginFailures("alice");
+    assertEquals(await failureCount(), 0);
+  }),
+);
+
+Deno.test(
+  "a wrong two-factor code counts as one failure",
+  withKV(async () => {
+    for (let i = 0; i < FREE_ATTEMPTS; i++) {
+      assertEquals(await reserveLoginAttempt("alice", NOW), null);
+      await releaseLoginAttempt("alice");
+      assertEquals(await failLogin(NOW), null);
+    }
+    assertEquals(await failureCount(), FREE_ATTEMPTS);
+
+    // The password step that starts a wait gives the wait back as well
+    assertEquals(await reserveLoginAttempt("alice", NOW), null);
+    await releaseLoginAttempt("alice");
+    assertEquals(await failLogin(NOW), { locked: false, retryAfterMs: 1000 });
+    assertEquals(await failureCount(), FREE_ATTEMPTS + 1);
+  }),
+);
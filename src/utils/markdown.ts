@@ -0,0 +1,190 @@
+// src/utils/markdown.ts
+// Parse Board.markdown into a structured task tree (GFM task lists + headings)
+
+import type { TaskItem, TaskSection, TaskTree } from "../types.ts";
+
+const FENCE_RE = /^\s{0,3}(`{3,}|~{3,})/;
+const HEADING_RE = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const LIST_ITEM_RE = /^([ \t]*)(?:[-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TASK_RE = /^\[([ xX])\]\s+(.*)$/;
+
+// 32-bit FNV-1a, enough to keep IDs short and deterministic
+function hash(input: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+}
+
+function normalize(text: string): string {
+  return text.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function indentWidth(indent: string): number {
+  let width = 0;
+  for (const ch of indent) {
+    width += ch === "\t" ? 4 - (width % 4) : 1;
+  }
+  return width;
+}
+
+/**
+ * Build stable IDs from the normalized text. Duplicate texts get an
+ * occurrence suffix so the Nth "Standup" keeps its ID when other tasks
+ * are added, removed or moved between sections.
+ */
+function idFactory(prefix: string) {
+  const seen = new Map<string, number>();
+  return (text: string) => {
+    const key = normalize(text);
+    const n = seen.get(key) ?? 0;
+    seen.set(key, n + 1);
+    return `${prefix}_${hash(`${key}#${n}`)}`;
+  };
+}
+
+/**
+ * Parse markdown into a task tree.
+ * - ATX headings (`#` .. `######`) become nested sections
+ * - `- [ ]` / `- [x]` items become tasks, nested by indentation
+ * - Plain list items are not tasks, but still close deeper task levels
+ * - Content inside fenced code blocks is ignored
+ */
+export function parseTaskTree(markdown: string): TaskTree {
+  const tree: TaskTree = { tasks: [], sections: [], total: 0, checked: 0 };
+  const taskId = idFactory("t");
+  const sectionId = idFactory("s");
+
+  const sectionStack: TaskSection[] = [];
+  let taskStack: { indent: number; item: TaskItem }[] = [];
+  let fence: string | null = null;
+
+  const lines = markdown.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fenceMatch = line.match(FENCE_RE);
+    if (fenceMatch) {
+      const marker = fenceMatch[1];
+      if (fence === null) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = null;
+      }
+      continue;
+    }
+    if (fence !== null) continue;
+
+    const headingMatch = line.match(HEADING_RE);
+    if (headingMatch) {
+      const level = headingMatch[1].length;
+      const title = headingMatch[2].trim();
+      const section: TaskSection = {
+        id: sectionId(title),
+        title,
+        level,
+        line: i + 1,
+        tasks: [],
+        sections: [],
+      };
+
+      while (
+        sectionStack.length > 0 &&
+        sectionStack[sectionStack.length - 1].level >= level
+      ) {
+        sectionStack.pop();
+      }
+
+      const parent = sectionStack[sectionStack.length - 1];
+      (parent ? parent.sections : tree.sections).push(section);
+      sectionStack.push(section);
+      taskStack = [];
+      continue;
+    }
+
+    const itemMatch = line.match(LIST_ITEM_RE);
+    if (!itemMatch) continue;
+
+    const indent = indentWidth(itemMatch[1]);
+    while (taskStack.length > 0 && taskStack[taskStack.length - 1].indent >= indent) {
+      taskStack.pop();
+    }
+
+    const taskMatch = itemMatch[2].match(TASK_RE);
+    if (!taskMatch) continue;
+
+    const text = taskMatch[2].trim();
+    const checked = taskMatch[1] !== " ";
+    const item: TaskItem = {
+      id: taskId(text),
+      text,
+      checked,
+      line: i + 1,
+      depth: taskStack.length,
+      children: [],
+    };
+
+    const parentTask = taskStack[taskStack.length - 1];
+    if (parentTask) {
+      parentTask.item.children.push(item);
+    } else {
+      const section = sectionStack[sectionStack.length - 1];
+      (section ? section.tasks : tree.tasks).push(item);
+    }
+    taskStack.push({ indent, item });
+
+    tree.total++;
+    if (checked) tree.checked++;
+  }
+
+  return tree;
+}
+
+/**
+ * All tasks of a tree in document order, nested tasks included
+ */
+export function flattenTasks(tree: TaskTree): TaskItem[] {
+  const result: TaskItem[] = [];
+  const visitTasks = (tasks: TaskItem[]) => {
+    for (const task of tasks) {
+      result.push(task);
+      visitTasks(task.children);
+    }
+  };
+  const visitSections = (sections: TaskSection[]) => {
+    for (const section of sections) {
+      visitTasks(section.tasks);
+      visitSections(section.sections);
+    }
+  };
+
+  visitTasks(tree.tasks);
+  visitSections(tree.sections);
+  return result;
+}
+
+/**
+ * Clear every checked task (`[x]` -> `[ ]`), leaving code blocks untouched
+ */
+export function uncheckAllTasks(markdown: string): string {
+  let fence: string | null = null;
+
+  return markdown.split("\n").map((line) => {
+    const fenceMatch = line.match(FENCE_RE);
+    if (fenceMatch) {
+      const marker = fenceMatch[1];
+      if (fence === null) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = null;
+      }
+      return line;
+    }
+    if (fence !== null) return line;
+
+    return line.replace(/^([ \t]*(?:[-*+]|\d{1,9}[.)])\s+)\[[xX]\](\s)/, "$1[ ]$2");
+  }).join("\n");
+}
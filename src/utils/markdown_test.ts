@@ -0,0 +1,60 @@
+// src/utils/markdown_test.ts
+import { assertEquals, assertNotEquals } from "@std/assert";
+import { flattenTasks, parseTaskTree, uncheckAllTasks } from "./markdown.ts";
+
+const BOARD = [
+  "- [ ] Inbox",
+  "# Morning",
+  "- [x] Standup",
+  "  - [ ] Notes",
+  "- plain item",
+  "## Focus",
+  "1. [X] Deep work",
+  "```",
+  "- [ ] not a task",
+  "```",
+  "# Evening",
+  "- [ ] Standup",
+].join("\n");
+
+Deno.test("parseTaskTree nests tasks under headings and parent tasks", () => {
+  const tree = parseTaskTree(BOARD);
+
+  assertEquals(tree.total, 5);
+  assertEquals(tree.checked, 2);
+  assertEquals(tree.tasks.map((task) => task.text), ["Inbox"]);
+
+  const [morning, evening] = tree.sections;
+  assertEquals(morning.title, "Morning");
+  assertEquals(morning.tasks.map((task) => task.text), ["Standup"]);
+  assertEquals(morning.tasks[0].children.map((task) => [task.text, task.depth]), [["Notes", 1]]);
+  assertEquals(morning.sections[0].title, "Focus");
+  assertEquals(morning.sections[0].tasks[0].checked, true);
+  assertEquals(evening.tasks[0].line, 12);
+});
+
+Deno.test("task IDs are stable and unique for duplicate texts", () => {
+  const ids = flattenTasks(parseTaskTree(BOARD)).map((task) => task.id);
+  assertEquals(new Set(ids).size, ids.length);
+
+  // Adding a task elsewhere keeps the IDs of the existing ones
+  const edited = flattenTasks(parseTaskTree("- [ ] New\n" + BOARD)).map((task) => task.id);
+  assertEquals(edited.slice(1), ids);
+
+  const [first, second] = flattenTasks(parseTaskTree("- [ ] Standup\n- [ ] standup"));
+  assertNotEquals(first.id, second.id);
+});
+
+Deno.test("flattenTasks lists tasks in document order", () => {
+  assertEquals(
+    flattenTasks(parseTaskTree(BOARD)).map((task) => task.text),
+    ["Inbox", "Standup", "Notes", "Deep work", "Standup"],
+  );
+});
+
+Deno.test("uncheckAllTasks clears tasks outside code blocks", () => {
+  assertEquals(
+    uncheckAllTasks("- [x] a\n  * [X] b\n```\n- [x] code\n```\n2) [x] c\n[x] not a list"),
+    "- [ ] a\n  * [ ] b\n```\n- [x] code\n```\n2) [ ] c\n[x] not a list",
+  );
+});
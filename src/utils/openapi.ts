@@ -0,0 +1,323 @@
+// src/utils/openapi.ts
+// OpenAPI 3.1 document generated from the routers. Routes carry their
+// metadata as middleware (apiDoc), request bodies come from validateBody
+// schemas and auth from authMiddleware, so the document cannot drift
+// from what the routers actually serve.
+
+import type { Middleware, Router } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import type { JsonSchema, Schema } from "./validation.ts";
+import { authMiddleware, getRouteScope } from "../middleware/authMiddleware.ts";
+
+export interface RouteDoc {
+  operationId: string; // stable name for generated clients, e.g. "getBoard"
+  summary: string;
+  description?: string;
+  tag?: string; // defaults to the first path segment after /api
+  params?: Record<string, string>; // path parameter descriptions
+  // Query parameters; with validateQuery only the descriptions are needed
+  query?: Record<string, { description: string; schema?: Schema<unknown>; required?: boolean }>;
+  body?: Schema<unknown>; // request body read without validateBody
+  status?: number; // success status, default 200
+  response?: Schema<unknown>; // `data` of the success envelope
+  produces?: string; // body sent as is (no envelope), e.g. "text/csv"
+  errors?: number[]; // besides 401 (auth) and 422 (body), added automatically
+  headers?: Record<string, string>; // response headers on success
+}
+
+const routeDocs = new WeakMap<object, RouteDoc>();
+const bodySchemas = new WeakMap<object, Schema<unknown>>();
+const querySchemas = new WeakMap<object, Schema<unknown>>();
+const models = new Map<string, Schema<unknown>>();
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: "Bad request",
+  401: "Missing, invalid or revoked token",
+  403: "Not allowed",
+  404: "Not found",
+  409: "Conflict",
+  422: "Validation failed",
+  429: "Too many requests (see Retry-After)",
+  500: "Server error",
+};
+
+/**
+ * Route metadata. Place it first in the middleware list; it only
+ * annotates the route and passes the request on.
+ */
+export function apiDoc(doc: RouteDoc): Middleware {
+  const middleware: Middleware = (_ctx, next) => next();
+  routeDocs.set(middleware, doc);
+  return middleware;
+}
+
+/**
+ * Mark a middleware as validating the request body with `schema`
+ */
+export function documentBody(middleware: object, schema: Schema<unknown>) {
+  bodySchemas.set(middleware, schema);
+}
+
+/**
+ * Mark a middleware as validating the query string with `schema`
+ */
+export function documentQuery(middleware: object, schema: Schema<unknown>) {
+  querySchemas.set(middleware, schema);
+}
+
+/**
+ * Register a schema as a named component (#/components/schemas/<name>)
+ */
+export function model<T>(name: string, schema: Schema<T>): Schema<T> {
+  models.set(name, schema as Schema<unknown>);
+  return { ...schema, json: { $ref: `#/components/schemas/${name}` } };
+}
+
+/**
+ * Reference a component by name, e.g. for recursive models. Only
+ * describes the value; it is never validated.
+ */
+export function ref<T>(name: string): Schema<T> {
+  return {
+    validate: (value) => value as T,
+    json: { $ref: `#/components/schemas/${name}` },
+  };
+}
+
+export interface DocumentedRoute {
+  method: string;
+  path: string; // Oak syntax, e.g. /api/boards/:id
+  doc?: RouteDoc;
+  body?: Schema<unknown>;
+  query?: Schema<unknown>;
+  auth: boolean;
+  scope?: string; // required from API tokens, which can't call routes without one
+  paramNames: string[];
+}
+
+/**
+ * Every route of the routers, with its metadata
+ */
+export function collectRoutes(routers: Router[]): DocumentedRoute[] {
+  const routes: DocumentedRoute[] = [];
+
+  for (const router of routers) {
+    for (const route of router.values()) {
+      const middleware = route.middleware as object[];
+      const doc = middleware.map((m) => routeDocs.get(m)).find(Boolean);
+      const body = middleware.map((m) => bodySchemas.get(m)).find(Boolean) ?? doc?.body;
+      const query = middleware.map((m) => querySchemas.get(m)).find(Boolean);
+
+      for (const method of route.methods) {
+        if (method === "HEAD" || method === "OPTIONS") continue;
+        routes.push({
+          method,
+          path: route.path,
+          doc,
+          body,
+          query,
+          auth: middleware.includes(authMiddleware),
+          scope: getRouteScope(middleware),
+          paramNames: route.paramNames.map(String),
+        });
+      }
+    }
+  }
+
+  return routes;
+}
+
+function defaultTag(path: string): string {
+  const segment = path.split("/")[2] ?? "api";
+  return segment.charAt(0).toUpperCase() + segment.slice(1);
+}
+
+function defaultOperationId(method: string, path: string): string {
+  const words = path.split("/").slice(2).map((part) =>
+    part.startsWith(":") ? "By" + part.charAt(1).toUpperCase() + part.slice(2) : part
+  );
+  return [method.toLowerCase(), ...words]
+    .map((word, i) => i === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1))
+    .join("")
+    .replace(/[^a-zA-Z0-9]/g, "");
+}
+
+export function routeTag(route: DocumentedRoute): string {
+  return route.doc?.tag ?? defaultTag(route.path);
+}
+
+export function routeOperationId(route: DocumentedRoute): string {
+  return route.doc?.operationId ?? defaultOperationId(route.method, route.path);
+}
+
+/**
+ * Query parameters of a route: the validateQuery schema's fields plus
+ * any documented only in RouteDoc.query
+ */
+export function queryParameters(route: DocumentedRoute) {
+  const documented = route.doc?.query ?? {};
+  const json = route.query?.json as
+    | { properties?: Record<string, JsonSchema>; required?: string[] }
+    | undefined;
+  const properties = json?.properties ?? {};
+
+  return [...new Set([...Object.keys(properties), ...Object.keys(documented)])].map((name) => ({
+    name,
+    required: json?.required?.includes(name) ?? documented[name]?.required ?? false,
+    ...(documented[name]?.description && { description: documented[name].description }),
+    schema: properties[name] ?? documented[name]?.schema?.json ?? { type: "string" },
+  }));
+}
+
+function errorResponse(status: number): JsonSchema {
+  const schema = status === 422 ? "ValidationErrorResponse" : "ErrorResponse";
+  return {
+    description: ERROR_DESCRIPTIONS[status] ?? "Error",
+    content: {
+      "application/json": { schema: { $ref: `#/components/schemas/${schema}` } },
+    },
+  };
+}
+
+function successResponse(doc: RouteDoc | undefined): JsonSchema {
+  const status = doc?.status ?? 200;
+  const headers = doc?.headers && Object.fromEntries(
+    Object.entries(doc.headers).map(([name, description]) => [
+      name,
+      { description, schema: { type: "string" } },
+    ]),
+  );
+  const base = { description: doc?.summary ?? "Success", ...(headers && { headers }) };
+
+  if (status === 204) return base;
+  if (doc?.produces) {
+    const schema = doc.response?.json ?? { type: "string" };
+    return { ...base, content: { [doc.produces]: { schema } } };
+  }
+
+  return {
+    ...base,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            success: { const: true },
+            data: doc?.response?.json ?? {},
+          },
+          required: ["success", "data"],
+        },
+      },
+    },
+  };
+}
+
+function operation(route: DocumentedRoute): JsonSchema {
+  const { doc } = route;
+
+  const parameters: JsonSchema[] = [
+    ...route.paramNames.map((name) => ({
+      name,
+      in: "path",
+      required: true,
+      schema: { type: "string" },
+      ...(doc?.params?.[name] && { description: doc.params[name] }),
+    })),
+    ...queryParameters(route).map((param) => ({ ...param, in: "query" })),
+  ];
+
+  const errors = new Set(doc?.errors ?? []);
+  if (route.auth) errors.add(401);
+  if (route.body || route.query) errors.add(422);
+
+  const responses: Record<string, JsonSchema> = {
+    [String(doc?.status ?? 200)]: successResponse(doc),
+  };
+  for (const status of [...errors].sort((a, b) => a - b)) {
+    responses[String(status)] = errorResponse(status);
+  }
+
+  return {
+    operationId: routeOperationId(route),
+    summary: doc?.summary ?? `${route.method} ${route.path}`,
+    ...(doc?.description && { description: doc.description }),
+    tags: [routeTag(route)],
+    ...(parameters.length > 0 && { parameters }),
+    ...(route.body && {
+      requestBody: {
+        required: true,
+        content: { "application/json": { schema: route.body.json } },
+      },
+    }),
+    responses,
+    security: route.auth ? [{ bearerAuth: [] }] : [],
+    ...(route.scope && { "x-api-token-scope": route.scope }),
+  };
+}
+
+/**
+ * Build the OpenAPI 3.1 document for the given routers
+ */
+export function buildOpenApiDocument(
+  routers: Router[],
+  info: { title: string; version: string; description?: string },
+): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+
+  for (const route of collectRoutes(routers)) {
+    const path = route.path.replace(/:(\w+)/g, "{$1}");
+    paths[path] ??= {};
+    paths[path][route.method.toLowerCase()] = operation(route);
+  }
+
+  const schemas: Record<string, JsonSchema> = {
+    FieldError: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: 'e.g. "actions[0].type", "" for the whole body' },
+        code: { type: "string", description: 'e.g. "required", "invalid_format"' },
+        message: { type: "string" },
+      },
+      required: ["path", "code", "message"],
+    },
+    ErrorResponse: {
+      type: "object",
+      properties: {
+        success: { const: false },
+        error: { type: "string" },
+        data: { description: "Current server copy of the resource (409 only)" },
+      },
+      required: ["success", "error"],
+    },
+    ValidationErrorResponse: {
+      type: "object",
+      properties: {
+        success: { const: false },
+        error: { const: "Validation failed" },
+        errors: { type: "array", items: { $ref: "#/components/schemas/FieldError" } },
+      },
+      required: ["success", "error", "errors"],
+    },
+  };
+  for (const [name, schema] of [...models].sort(([a], [b]) => a.localeCompare(b))) {
+    schemas[name] = schema.json;
+  }
+
+  return {
+    openapi: "3.1.0",
+    info,
+    servers: [{ url: "/" }],
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        bearerAuth: {
+          type: "http",
+          scheme: "bearer",
+          bearerFormat: "JWT",
+          description: "Login access token, or a personal access token (mdp_...) on " +
+            "operations with x-api-token-scope",
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,107 @@
+// src/utils/pagination.ts
+// Cursor pagination for list endpoints. Every list responds with
+// { items, nextCursor }; pass nextCursor back as ?cursor= for the next
+// page, null means there are no more items.
+
+import type { FieldError, Page } from "../types.ts";
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export type SortOrder = "asc" | "desc";
+export const SORT_ORDERS: SortOrder[] = ["asc", "desc"];
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("cursor is invalid or belongs to a different query");
+    this.name = "InvalidCursorError";
+  }
+
+  // Routes answer it like any other invalid query parameter (422)
+  get fieldError(): FieldError {
+    return { path: "cursor", code: "invalid_cursor", message: this.message };
+  }
+}
+
+/**
+ * Read one page from a KV list selector. The cursor is Deno KV's own
+ * list cursor, so it is only valid for the same selector and order.
+ */
+export async function listPage<T>(
+  kv: Deno.Kv,
+  selector: Deno.KvListSelector,
+  options: { limit: number; cursor?: string; reverse?: boolean },
+): Promise<Page<T>> {
+  const { limit, cursor, reverse = false } = options;
+  const items: T[] = [];
+
+  const iter = kv.list<T>(selector, { limit, cursor, reverse });
+  try {
+    for await (const entry of iter) {
+      items.push(entry.value);
+    }
+  } catch (err) {
+    if (cursor && err instanceof TypeError) throw new InvalidCursorError();
+    throw err;
+  }
+
+  // A full page only has a next page if at least one more entry follows
+  let nextCursor: string | null = null;
+  if (items.length === limit && iter.cursor) {
+    const peek = kv.list(selector, { limit: 1, cursor: iter.cursor, reverse });
+    for await (const _ of peek) {
+      nextCursor = iter.cursor;
+    }
+  }
+
+  return { items, nextCursor };
+}
+
+function encodeCursor(position: [string, string]): string {
+  return btoa(JSON.stringify(position))
+    .replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function decodeCursor(cursor: string): [string, string] {
+  try {
+    const position = JSON.parse(atob(cursor.replace(/-/g, "+").replace(/_/g, "/")));
+    if (
+      Array.isArray(position) && position.length === 2 &&
+      position.every((part) => typeof part === "string")
+    ) {
+      return position as [string, string];
+    }
+  } catch {
+    // fall through
+  }
+  throw new InvalidCursorError();
+}
+
+/**
+ * Page through items that are sorted in memory (keyset pagination).
+ * The cursor holds the sort value and ID of the last item, so pages stay
+ * stable while items are added or removed.
+ */
+export function paginateSorted<T extends { id: string }>(
+  items: T[],
+  sortValue: (item: T) => string,
+  options: { order: SortOrder; limit: number; cursor?: string },
+): Page<T> {
+  const { order, limit, cursor } = options;
+  const direction = order === "asc" ? 1 : -1;
+  const compare = (a: [string, string], b: [string, string]) =>
+    direction * (a[0].localeCompare(b[0]) || a[1].localeCompare(b[1]));
+
+  const keyed = items
+    .map((item) => ({ item, key: [sortValue(item), item.id] as [string, string] }))
+    .sort((a, b) => compare(a.key, b.key));
+
+  const after = cursor ? decodeCursor(cursor) : null;
+  const rest = after ? keyed.filter(({ key }) => compare(key, after) > 0) : keyed;
+  const page = rest.slice(0, limit);
+
+  return {
+    items: page.map(({ item }) => item),
+    nextCursor: rest.length > limit ? encodeCursor(page[page.length - 1].key) : null,
+  };
+}
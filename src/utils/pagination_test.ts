@@ -0,0 +1,130 @@
+// src/utils/pagination_test.ts
+import { assertEquals, assertRejects } from "@std/assert";
+import { pageQuerySchema } from "../schemas.ts";
+import { getKV, getLogsPage, initKV, setLog } from "./kv.ts";
+import { InvalidCursorError, listPage, MAX_PAGE_SIZE } from "./pagination.ts";
+import { validate } from "./validation.ts";
+
+// Runs `fn` against a fresh in-memory KV holding items 0..count-1
+function withItems(count: number, fn: (kv: Deno.Kv) => Promise<void>) {
+  return async () => {
+    const kv = await initKV(":memory:");
+    try {
+      for (let i = 0; i < count; i++) await kv.set(["item", i], i);
+      await kv.set(["other", 0], -1); // outside the selector
+      await fn(kv);
+    } finally {
+      getKV().close();
+    }
+  };
+}
+
+// Every page of a selector, following nextCursor until it is null
+async function allPages(kv: Deno.Kv, limit: number, reverse = false) {
+  const pages: number[][] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await listPage<number>(kv, { prefix: ["item"] }, { limit, cursor, reverse });
+    pages.push(page.items);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return pages;
+}
+
+Deno.test(
+  "listPage follows the cursor until the final page",
+  withItems(5, async (kv) => {
+    assertEquals(await allPages(kv, 2), [[0, 1], [2, 3], [4]]);
+    assertEquals(await allPages(kv, 10), [[0, 1, 2, 3, 4]]);
+  }),
+);
+
+Deno.test(
+  "a full final page has no next cursor",
+  withItems(4, async (kv) => {
+    assertEquals(await allPages(kv, 2), [[0, 1], [2, 3]]);
+
+    const last = await listPage<number>(kv, { prefix: ["item"] }, { limit: 4 });
+    assertEquals(last, { items: [0, 1, 2, 3], nextCursor: null });
+  }),
+);
+
+Deno.test(
+  "reverse pages run from the last key",
+  withItems(5, async (kv) => {
+    assertEquals(await allPages(kv, 2, true), [[4, 3], [2, 1], [0]]);
+  }),
+);
+
+Deno.test(
+  "an empty selector has one empty page",
+  withItems(0, async (kv) => {
+    assertEquals(await listPage(kv, { prefix: ["item"] }, { limit: 2 }), {
+      items: [],
+      nextCursor: null,
+    });
+  }),
+);
+
+Deno.test(
+  "a malformed cursor is rejected",
+  withItems(3, async (kv) => {
+    await assertRejects(
+      () => listPage(kv, { prefix: ["item"] }, { limit: 2, cursor: "not a cursor!" }),
+      InvalidCursorError,
+    );
+  }),
+);
+
+Deno.test("page size is limited to 1..MAX_PAGE_SIZE", () => {
+  const limitOf = (limit: string) => {
+    const result = validate(pageQuerySchema, { limit });
+    return result.ok ? result.value.limit : result.errors.map((error) => error.path);
+  };
+
+  assertEquals(limitOf("1"), 1);
+  assertEquals(limitOf(String(MAX_PAGE_SIZE)), MAX_PAGE_SIZE);
+  assertEquals(limitOf("0"), ["limit"]);
+  assertEquals(limitOf(String(MAX_PAGE_SIZE + 1)), ["limit"]);
+  assertEquals(limitOf("2.5"), ["limit"]);
+  assertEquals(validate(pageQuerySchema, {}), { ok: true, value: {} });
+});
+
+Deno.test("getLogsPage selects dates from/to inclusive", async () => {
+  await initKV(":memory:");
+  try {
+    const dates = ["2024-03-01", "2024-03-02", "2024-03-03", "2024-03-04", "2024-03-05"];
+    for (const date of dates) {
+      await setLog("b1", date, { id: `log-${date}`, boardId: "b1", date, actions: [] });
+    }
+    await setLog("b2", "2024-03-03", { id: "other", boardId: "b2", date: "2024-03-03" });
+
+    const datesOf = async (options: { from?: string; to?: string; reverse?: boolean }) =>
+      ((await getLogsPage("b1", { limit: 10, ...options })).items as { date: string }[])
+        .map((log) => log.date);
+
+    assertEquals(await datesOf({}), dates);
+    assertEquals(await datesOf({ from: "2024-03-02", to: "2024-03-04" }), dates.slice(1, 4));
+    assertEquals(await datesOf({ from: "2024-03-04" }), dates.slice(3));
+    assertEquals(await datesOf({ to: "2024-03-02" }), dates.slice(0, 2));
+    assertEquals(await datesOf({ from: "2024-03-03", to: "2024-03-03" }), ["2024-03-03"]);
+    assertEquals(await datesOf({ from: "2024-03-06" }), []);
+    assertEquals(
+      await datesOf({ from: "2024-03-02", to: "2024-03-04", reverse: true }),
+      dates.slice(1, 4).reverse(),
+    );
+
+    // Paging stays within the range
+    const first = await getLogsPage("b1", { from: "2024-03-02", to: "2024-03-04", limit: 2 });
+    const second = await getLogsPage("b1", {
+      from: "2024-03-02",
+      to: "2024-03-04",
+      limit: 2,
+      cursor: first.nextCursor!,
+    });
+    assertEquals((second.items as { date: string }[]).map((log) => log.date), ["2024-03-04"]);
+    assertEquals(second.nextCursor, null);
+  } finally {
+    getKV().close();
+  }
+});
@@ -0,0 +1,173 @@
+// src/utils/rateLimit.ts
+// Sliding window rate limiting. Hits are counted per fixed window; the
+// previous window is weighted by how much of it still overlaps the
+// sliding window, which smooths out bursts at window boundaries.
+//
+// Counters live in a pluggable store. The default KV store is shared by
+// all instances and survives restarts:
+//   ["ratelimit", bucket, window] -> Deno.KvU64 (expires after two windows)
+
+import { getKV } from "./kv.ts";
+
+export interface RateLimitStore {
+  /** Hit counts of the given windows of a bucket */
+  get(bucket: string, windows: number[]): Promise<number[]>;
+  /**
+   * Read the counts of `window` and the one before it and, if `allow`
+   * accepts them, count one hit in `window` as a single atomic step. The
+   * counter may be dropped after `ttlMs`. Resolves to null when the hit
+   * kept racing with others and could not be decided.
+   */
+  hit(
+    bucket: string,
+    window: number,
+    ttlMs: number,
+    allow: (previous: number, current: number) => boolean,
+  ): Promise<RateLimitHit | null>;
+}
+
+export interface RateLimitHit {
+  previous: number;
+  current: number; // before this hit
+  counted: boolean;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetMs: number; // until the limit is fully available again (or until retry when limited)
+}
+
+const MAX_HIT_ATTEMPTS = 5;
+const CONTENDED_RETRY_MS = 1000;
+
+export const kvRateLimitStore: RateLimitStore = {
+  async get(bucket, windows) {
+    const entries = await getKV().getMany<Deno.KvU64[]>(
+      windows.map((window) => ["ratelimit", bucket, window]),
+    );
+    return entries.map((entry) => Number(entry.value?.value ?? 0n));
+  },
+
+  async hit(bucket, window, ttlMs, allow) {
+    // Sum mutations cannot expire, so add with a versionstamp check instead.
+    // The check also covers the counts the decision was made on; a hit
+    // racing with another instance decides again on the new counts.
+    const kv = getKV();
+    const keys = [["ratelimit", bucket, window - 1], ["ratelimit", bucket, window]];
+
+    for (let attempt = 0; attempt < MAX_HIT_ATTEMPTS; attempt++) {
+      const [previousEntry, currentEntry] = await kv.getMany<Deno.KvU64[]>(keys);
+      const previous = Number(previousEntry.value?.value ?? 0n);
+      const current = Number(currentEntry.value?.value ?? 0n);
+      if (!allow(previous, current)) return { previous, current, counted: false };
+
+      const count = new Deno.KvU64(BigInt(current + 1));
+      const result = await kv.atomic()
+        .check(previousEntry, currentEntry)
+        .set(currentEntry.key, count, { expireIn: ttlMs })
+        .commit();
+      if (result.ok) return { previous, current, counted: true };
+    }
+
+    return null;
+  },
+};
+
+/**
+ * Store for a single process, e.g. local development without KV access
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const counters = new Map<string, { count: number; expiresAt: number }>();
+
+  return {
+    get(bucket, windows) {
+      const now = Date.now();
+      return Promise.resolve(windows.map((window) => {
+        const counter = counters.get(`${bucket}:${window}`);
+        return counter && counter.expiresAt > now ? counter.count : 0;
+      }));
+    },
+
+    hit(bucket, window, ttlMs, allow) {
+      const now = Date.now();
+      for (const [key, counter] of counters) {
+        if (counter.expiresAt <= now) counters.delete(key);
+      }
+
+      const previous = counters.get(`${bucket}:${window - 1}`)?.count ?? 0;
+      const key = `${bucket}:${window}`;
+      const current = counters.get(key)?.count ?? 0;
+      if (!allow(previous, current)) return Promise.resolve({ previous, current, counted: false });
+
+      counters.set(key, { count: current + 1, expiresAt: now + ttlMs });
+      return Promise.resolve({ previous, current, counted: true });
+    },
+  };
+}
+
+// How long until the estimate drops to `target`, with the previous window
+// fading out linearly and the current one becoming the previous one
+function waitUntil(
+  previous: number,
+  current: number,
+  elapsed: number,
+  windowMs: number,
+  target: number,
+): number {
+  if (current <= target) {
+    if (previous === 0) return 0;
+    const fadeTo = 1 - (target - current) / previous;
+    return Math.max(0, windowMs * fadeTo - elapsed);
+  }
+
+  return windowMs - elapsed + windowMs * (1 - target / current);
+}
+
+/**
+ * Count a hit against a bucket if it is within `limit` hits per `windowMs`.
+ * Rejected hits are not counted, so a client that backs off gets through
+ * again once the window has moved on. A hit that cannot be counted because
+ * of a burst of concurrent hits on the same bucket is rejected as well.
+ */
+export async function consume(
+  store: RateLimitStore,
+  bucket: string,
+  limit: number,
+  windowMs: number,
+  now = Date.now(),
+): Promise<RateLimitResult> {
+  const window = Math.floor(now / windowMs);
+  const elapsed = now - window * windowMs;
+  const estimateOf = (previous: number, current: number) =>
+    previous * (1 - elapsed / windowMs) + current;
+
+  const hit = await store.hit(
+    bucket,
+    window,
+    windowMs * 2,
+    (previous, current) => estimateOf(previous, current) + 1 <= limit,
+  );
+  if (!hit) {
+    return { allowed: false, limit, remaining: 0, resetMs: CONTENDED_RETRY_MS };
+  }
+
+  const { previous, current } = hit;
+  const estimate = estimateOf(previous, current);
+  if (!hit.counted) {
+    return {
+      allowed: false,
+      limit,
+      remaining: 0,
+      resetMs: waitUntil(previous, current, elapsed, windowMs, limit - 1),
+    };
+  }
+
+  return {
+    allowed: true,
+    limit,
+    remaining: Math.max(0, Math.floor(limit - estimate - 1)),
+    resetMs: waitUntil(previous, current + 1, elapsed, windowMs, 0),
+  };
+}
@@ -0,0 +1,91 @@
+// src/utils/rateLimit_test.ts
+import { assertEquals } from "@std/assert";
+import { getKV, initKV } from "./kv.ts";
+import {
+  consume,
+  createMemoryRateLimitStore,
+  kvRateLimitStore,
+  type RateLimitStore,
+} from "./rateLimit.ts";
+
+const WINDOW_MS = 60 * 1000;
+
+// Start of a window, so the previous window is fully weighted
+function windowStart(): number {
+  return Math.floor(Date.now() / WINDOW_MS) * WINDOW_MS;
+}
+
+Deno.test("consume allows `limit` hits per window", async () => {
+  const store = createMemoryRateLimitStore();
+  const now = windowStart();
+
+  for (let i = 0; i < 3; i++) {
+    const result = await consume(store, "user:1", 3, WINDOW_MS, now);
+    assertEquals(result.allowed, true);
+    assertEquals(result.remaining, 2 - i);
+  }
+
+  const limited = await consume(store, "user:1", 3, WINDOW_MS, now);
+  assertEquals(limited.allowed, false);
+  assertEquals(limited.remaining, 0);
+  assertEquals(limited.resetMs > 0, true);
+
+  // Other buckets are counted separately
+  assertEquals((await consume(store, "user:2", 3, WINDOW_MS, now)).allowed, true);
+});
+
+Deno.test("the previous window fades out over the sliding window", async () => {
+  const store = createMemoryRateLimitStore();
+  const start = windowStart();
+
+  for (let i = 0; i < 4; i++) {
+    await consume(store, "ip", 4, WINDOW_MS, start - WINDOW_MS);
+  }
+
+  // Right after the window changes the old hits still count fully
+  assertEquals((await consume(store, "ip", 4, WINDOW_MS, start)).allowed, false);
+  // Halfway through only half of them do
+  const halfway = await consume(store, "ip", 4, WINDOW_MS, start + WINDOW_MS / 2);
+  assertEquals(halfway.allowed, true);
+  assertEquals(halfway.remaining, 1);
+});
+
+Deno.test("rejected hits are not counted", async () => {
+  const store = createMemoryRateLimitStore();
+  const now = windowStart();
+
+  await consume(store, "ip", 1, WINDOW_MS, now);
+  for (let i = 0; i < 5; i++) {
+    await consume(store, "ip", 1, WINDOW_MS, now);
+  }
+
+  assertEquals(await store.get("ip", [Math.floor(now / WINDOW_MS)]), [1]);
+});
+
+Deno.test("a concurrent burst on the KV store never exceeds the limit", async () => {
+  await initKV(":memory:");
+  try {
+    const now = windowStart();
+    const results = await Promise.all(
+      Array.from({ length: 20 }, () => consume(kvRateLimitStore, "burst", 5, WINDOW_MS, now)),
+    );
+    const allowed = results.filter((result) => result.allowed).length;
+
+    assertEquals(allowed <= 5, true);
+    assertEquals(await kvRateLimitStore.get("burst", [Math.floor(now / WINDOW_MS)]), [allowed]);
+  } finally {
+    getKV().close();
+  }
+});
+
+Deno.test("a hit the store cannot decide is rejected", async () => {
+  const contended: RateLimitStore = {
+    get: (_bucket, windows) => Promise.resolve(windows.map(() => 0)),
+    hit: () => Promise.resolve(null),
+  };
+
+  const result = await consume(contended, "ip", 10, WINDOW_MS, windowStart());
+  assertEquals(result.allowed, false);
+  assertEquals(result.remaining, 0);
+  assertEquals(result.resetMs > 0, true);
+});
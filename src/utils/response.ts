@@ -1,6 +1,6 @@
 // src/utils/response.ts
 import type { Context } from "https://deno.land/x/oak@v12.6.1/mod.ts";
-import type { ApiResponse } from "../types.ts";
+import type { ApiResponse, FieldError } from "../types.ts";
 
 export function success<T>(ctx: Context, data: T, status = 200) {
   ctx.response.status = status;
@@ -11,6 +11,13 @@ export function success<T>(ctx: Context, data: T, status = 200) {
 }
 
 export function error(ctx: Context, message: string, status = 400) {
+  // Routes catch their own failures, so this is the only place they get logged
+  if (status >= 500) {
+    console.error(
+      `${ctx.request.method} ${ctx.request.url.pathname} (request ${ctx.state.requestId}): ${message}`,
+    );
+  }
+
   ctx.response.status = status;
   ctx.response.body = {
     success: false,
@@ -37,3 +44,21 @@ export function forbidden(ctx: Context, message = "Forbidden") {
 export function notFound(ctx: Context, message = "Not found") {
   error(ctx, message, 404);
 }
+
+export function conflict<T>(ctx: Context, message: string, current?: T) {
+  ctx.response.status = 409;
+  ctx.response.body = {
+    success: false,
+    error: message,
+    ...(current !== undefined && { data: current }),
+  } as ApiResponse<T>;
+}
+
+export function validationError(ctx: Context, errors: FieldError[]) {
+  ctx.response.status = 422;
+  ctx.response.body = {
+    success: false,
+    error: "Validation failed",
+    errors,
+  } as ApiResponse;
+}
@@ -0,0 +1,126 @@
+// src/utils/revisions.ts
+// Board revision history: a snapshot per content change, pruned per owner settings
+
+import type { Board, BoardRevision, User } from "../types.ts";
+import { getKV, getUserById, updateBoard } from "./kv.ts";
+import { resolveSettings } from "./settings.ts";
+
+const MAX_ATTEMPTS = 5;
+
+export interface RevisionAuthor {
+  id: string;
+  username: string;
+}
+
+async function getLatestRevision(boardId: string): Promise<BoardRevision | null> {
+  const iter = getKV().list<BoardRevision>(
+    { prefix: ["board_rev", boardId] },
+    { reverse: true, limit: 1 },
+  );
+  for await (const entry of iter) {
+    return entry.value;
+  }
+  return null;
+}
+
+/**
+ * Store the board's current title and markdown as a new revision, then
+ * drop the oldest revisions beyond the owner's retention setting
+ */
+export async function recordRevision(
+  board: Board,
+  author: RevisionAuthor,
+  restoredFrom?: number,
+  createdAt = new Date().toISOString(),
+): Promise<BoardRevision> {
+  const kv = getKV();
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const latest = await getLatestRevision(board.id);
+    const revision: BoardRevision = {
+      rev: (latest?.rev ?? 0) + 1,
+      boardId: board.id,
+      title: board.title,
+      markdown: board.markdown,
+      authorId: author.id,
+      authorUsername: author.username,
+      createdAt,
+      size: new TextEncoder().encode(board.markdown).length,
+      ...(restoredFrom !== undefined && { restoredFrom }),
+    };
+
+    // Two concurrent writers must not claim the same rev number
+    const key = ["board_rev", board.id, revision.rev];
+    const result = await kv.atomic()
+      .check({ key, versionstamp: null })
+      .set(key, revision)
+      .commit();
+
+    if (result.ok) {
+      await pruneRevisions(board);
+      return revision;
+    }
+  }
+
+  throw new Error("Could not record revision, too many concurrent updates");
+}
+
+/**
+ * Boards created before revisions existed get their current state recorded
+ * as the first revision before being overwritten
+ */
+export async function ensureBaselineRevision(board: Board) {
+  if (await getLatestRevision(board.id)) return;
+
+  const owner = (await getUserById(board.userId)) as User | null;
+  await recordRevision(
+    board,
+    { id: board.userId, username: owner?.username ?? "unknown" },
+    undefined,
+    board.updatedAt,
+  );
+}
+
+/**
+ * Put a revision's title and markdown back on the board, recorded as a new
+ * revision that points at the restored one. With `expectedVersion` the
+ * restore is refused once the board has changed, as in updateBoard.
+ */
+export async function restoreRevision(
+  ownerId: string,
+  board: Board,
+  revision: BoardRevision,
+  author: RevisionAuthor,
+  expectedVersion?: string,
+) {
+  await ensureBaselineRevision(board);
+
+  const result = await updateBoard<Board>(ownerId, board.id, (current) => ({
+    ...current,
+    title: revision.title,
+    markdown: revision.markdown,
+    updatedAt: new Date().toISOString(),
+  }), expectedVersion);
+
+  if (result.ok) {
+    await recordRevision(result.board, author, revision.rev);
+  }
+  return result;
+}
+
+/**
+ * Delete the oldest revisions beyond the board owner's retention setting
+ */
+export async function pruneRevisions(board: Board) {
+  const owner = (await getUserById(board.userId)) as User | null;
+  const { revisionRetention } = resolveSettings(owner);
+
+  const kv = getKV();
+  const iter = kv.list({ prefix: ["board_rev", board.id] }, { reverse: true });
+  let kept = 0;
+  for await (const entry of iter) {
+    if (++kept > revisionRetention) {
+      await kv.delete(entry.key);
+    }
+  }
+}
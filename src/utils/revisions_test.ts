@@ -0,0 +1,120 @@
+// src/utils/revisions_test.ts
+import { assertEquals } from "@std/assert";
+import type { Board, BoardRevision, User } from "../types.ts";
+import { getBoardEntry, getKV, getRevisionsByBoardId, initKV, setBoard, setUser } from "./kv.ts";
+import { recordRevision, restoreRevision } from "./revisions.ts";
+
+const alice = { id: "u1", username: "alice" };
+const bob = { id: "u2", username: "bob" };
+
+function board(markdown: string): Board {
+  return {
+    id: "b1",
+    userId: alice.id,
+    title: "Chores",
+    markdown,
+    visibility: "private",
+    schedule: "daily",
+    resetTime: "00:00",
+    createdAt: "2024-03-01T08:00:00.000Z",
+    updatedAt: "2024-03-01T08:00:00.000Z",
+  };
+}
+
+function withOwner(settings: User["settings"], fn: () => Promise<void>) {
+  return async () => {
+    await initKV(":memory:");
+    try {
+      const owner: User = { ...alice, passwordHash: "", createdAt: "", settings };
+      await setUser(owner.id, owner);
+      await fn();
+    } finally {
+      getKV().close();
+    }
+  };
+}
+
+async function revisions() {
+  return ((await getRevisionsByBoardId("b1")) as BoardRevision[])
+    .map(({ rev, markdown }) => [rev, markdown]);
+}
+
+Deno.test(
+  "revisions beyond the owner's retention are pruned, oldest first",
+  withOwner({ revisionRetention: 3 }, async () => {
+    for (let i = 1; i <= 5; i++) {
+      await recordRevision(board(`v${i}`), alice);
+    }
+    assertEquals(await revisions(), [[5, "v5"], [4, "v4"], [3, "v3"]]);
+
+    // Numbers keep counting up after pruning
+    assertEquals((await recordRevision(board("v6"), bob)).rev, 6);
+    assertEquals(await revisions(), [[6, "v6"], [5, "v5"], [4, "v4"]]);
+  }),
+);
+
+Deno.test(
+  "owners without a setting keep the default 50 revisions",
+  withOwner(undefined, async () => {
+    for (let i = 1; i <= 52; i++) {
+      await recordRevision(board(`v${i}`), alice);
+    }
+    const kept = await revisions();
+    assertEquals(kept.length, 50);
+    assertEquals(kept.at(-1), [3, "v3"]);
+  }),
+);
+
+Deno.test(
+  "restoring puts the revision back as a new revision",
+  withOwner(undefined, async () => {
+    await setBoard(alice.id, "b1", board("- [ ] one"));
+    const first = await recordRevision(board("- [ ] one"), alice);
+    await setBoard(alice.id, "b1", { ...board("- [ ] two"), title: "Renamed" });
+    await recordRevision({ ...board("- [ ] two"), title: "Renamed" }, alice);
+
+    const current = (await getBoardEntry(alice.id, "b1")) as Deno.KvEntry<Board>;
+    const result = await restoreRevision(alice.id, current.value, first, bob);
+
+    assertEquals(result.ok, true);
+    assertEquals(result.board?.title, "Chores");
+    assertEquals(result.board?.markdown, "- [ ] one");
+
+    const [latest] = (await getRevisionsByBoardId("b1")) as BoardRevision[];
+    assertEquals(latest.rev, 3);
+    assertEquals(latest.restoredFrom, 1);
+    assertEquals([latest.authorId, latest.authorUsername], [bob.id, bob.username]);
+    assertEquals(latest.markdown, "- [ ] one");
+  }),
+);
+
+Deno.test(
+  "restoring a board without history records its current state first",
+  withOwner(undefined, async () => {
+    const legacy = board("- [ ] current");
+    await setBoard(alice.id, "b1", legacy);
+    const older = await recordRevision(board("- [ ] older"), alice);
+    // Drop the history again, as for boards from before revisions existed
+    await getKV().delete(["board_rev", "b1", older.rev]);
+
+    await restoreRevision(alice.id, legacy, older, alice);
+    assertEquals(await revisions(), [[2, "- [ ] older"], [1, "- [ ] current"]]);
+  }),
+);
+
+Deno.test(
+  "a restore against a stale version is refused and records nothing",
+  withOwner(undefined, async () => {
+    await setBoard(alice.id, "b1", board("- [ ] one"));
+    const first = await recordRevision(board("- [ ] one"), alice);
+    const stale = (await getBoardEntry(alice.id, "b1")) as Deno.KvEntry<Board>;
+
+    await setBoard(alice.id, "b1", board("- [ ] two"));
+    await recordRevision(board("- [ ] two"), alice);
+
+    const result = await restoreRevision(alice.id, stale.value, first, bob, stale.versionstamp);
+    assertEquals(result.ok, false);
+    assertEquals(result.board?.markdown, "- [ ] two");
+    assertEquals(await revisions(), [[2, "- [ ] two"], [1, "- [ ] one"]]);
+  }),
+);
@@ -0,0 +1,270 @@
+// src/utils/rrule.ts
+// Practical subset of RFC 5545 recurrence rules: FREQ, INTERVAL, BYDAY,
+// COUNT and UNTIL. All calculations are done in UTC, weeks start on Monday.
+
+export type Frequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+export type Weekday = "SU" | "MO" | "TU" | "WE" | "TH" | "FR" | "SA";
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  byDay?: Weekday[];
+  count?: number;
+  until?: Date;
+}
+
+const FREQUENCIES: Frequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+const WEEKDAYS: Weekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Guards against rules that can never produce another occurrence
+const MAX_PERIODS = 10000;
+
+// COUNT rules are always iterated from DTSTART to number their occurrences
+export const MAX_COUNT = 10000;
+
+export class RRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RRuleError";
+  }
+}
+
+function parseUntil(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!match) {
+    throw new RRuleError(`Invalid UNTIL "${value}", expected YYYYMMDD or YYYYMMDDTHHMMSSZ`);
+  }
+  const [, y, m, d, hh = "23", mm = "59", ss = "59"] = match;
+  return new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss));
+}
+
+/**
+ * Parse an RRULE string such as "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR".
+ * A leading "RRULE:" is accepted. Throws RRuleError on invalid input.
+ */
+export function parseRRule(input: string): RecurrenceRule {
+  const source = input.trim().replace(/^RRULE:/i, "");
+  if (!source) throw new RRuleError("Empty RRULE");
+
+  const parts = new Map<string, string>();
+  for (const part of source.split(";")) {
+    const [name, value] = part.split("=");
+    if (!name || value === undefined || value === "") {
+      throw new RRuleError(`Invalid RRULE part "${part}"`);
+    }
+    parts.set(name.toUpperCase(), value.toUpperCase());
+  }
+
+  for (const name of parts.keys()) {
+    if (!["FREQ", "INTERVAL", "BYDAY", "COUNT", "UNTIL"].includes(name)) {
+      throw new RRuleError(`Unsupported RRULE part "${name}"`);
+    }
+  }
+
+  const freq = parts.get("FREQ") as Frequency;
+  if (!FREQUENCIES.includes(freq)) {
+    throw new RRuleError(`FREQ must be one of ${FREQUENCIES.join(", ")}`);
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  if (parts.has("INTERVAL")) {
+    rule.interval = Number(parts.get("INTERVAL"));
+    if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+      throw new RRuleError("INTERVAL must be a positive integer");
+    }
+  }
+
+  if (parts.has("BYDAY")) {
+    if (freq === "YEARLY") {
+      throw new RRuleError("BYDAY is not supported with FREQ=YEARLY");
+    }
+    const days = parts.get("BYDAY")!.split(",") as Weekday[];
+    const invalid = days.find((day) => !WEEKDAYS.includes(day));
+    if (invalid) {
+      throw new RRuleError(`Invalid BYDAY value "${invalid}"`);
+    }
+    rule.byDay = [...new Set(days)];
+  }
+
+  if (parts.has("COUNT") && parts.has("UNTIL")) {
+    throw new RRuleError("COUNT and UNTIL cannot be combined");
+  }
+
+  if (parts.has("COUNT")) {
+    rule.count = Number(parts.get("COUNT"));
+    if (!Number.isInteger(rule.count) || rule.count < 1) {
+      throw new RRuleError("COUNT must be a positive integer");
+    }
+    if (rule.count > MAX_COUNT) {
+      throw new RRuleError(`COUNT must be at most ${MAX_COUNT}`);
+    }
+  }
+
+  if (parts.has("UNTIL")) {
+    rule.until = parseUntil(parts.get("UNTIL")!);
+  }
+
+  return rule;
+}
+
+function addMonths(date: Date, months: number): Date | null {
+  const target = new Date(date);
+  target.setUTCDate(1);
+  target.setUTCMonth(target.getUTCMonth() + months);
+  target.setUTCDate(date.getUTCDate());
+  // Months without this day (e.g. Feb 30) are skipped, as in RFC 5545
+  return target.getUTCDate() === date.getUTCDate() ? target : null;
+}
+
+// Candidate instants of one period, in chronological order
+function periodCandidates(rule: RecurrenceRule, dtstart: Date, period: number): Date[] {
+  const timeOfDay = dtstart.getTime() % DAY_MS;
+  const startDay = dtstart.getTime() - timeOfDay;
+  const byDay = rule.byDay?.map((day) => WEEKDAYS.indexOf(day));
+
+  switch (rule.freq) {
+    case "DAILY": {
+      const date = new Date(dtstart.getTime() + period * rule.interval * DAY_MS);
+      return !byDay || byDay.includes(date.getUTCDay()) ? [date] : [];
+    }
+    case "WEEKLY": {
+      const days = byDay ?? [dtstart.getUTCDay()];
+      const monday = startDay - ((dtstart.getUTCDay() + 6) % 7) * DAY_MS;
+      const weekStart = monday + period * rule.interval * 7 * DAY_MS;
+      return days
+        .map((day) => new Date(weekStart + ((day + 6) % 7) * DAY_MS + timeOfDay))
+        .sort((a, b) => a.getTime() - b.getTime());
+    }
+    case "MONTHLY": {
+      if (!byDay) {
+        const date = addMonths(dtstart, period * rule.interval);
+        return date ? [date] : [];
+      }
+      const first = new Date(startDay + timeOfDay);
+      first.setUTCDate(1);
+      first.setUTCMonth(first.getUTCMonth() + period * rule.interval);
+      const month = first.getUTCMonth();
+      const dates: Date[] = [];
+      for (let d = first; d.getUTCMonth() === month; d = new Date(d.getTime() + DAY_MS)) {
+        if (byDay.includes(d.getUTCDay())) dates.push(d);
+      }
+      return dates;
+    }
+    case "YEARLY": {
+      const date = addMonths(dtstart, period * rule.interval * 12);
+      return date ? [date] : [];
+    }
+  }
+}
+
+// Period that contains `from`; its candidates may still be before `from`
+function periodAt(rule: RecurrenceRule, dtstart: Date, from: Date): number {
+  const elapsed = from.getTime() - dtstart.getTime();
+  if (elapsed <= 0) return 0;
+
+  const months = (from.getUTCFullYear() - dtstart.getUTCFullYear()) * 12 +
+    from.getUTCMonth() - dtstart.getUTCMonth();
+
+  switch (rule.freq) {
+    case "DAILY":
+      return Math.floor(elapsed / (rule.interval * DAY_MS));
+    case "WEEKLY": {
+      const weekday = (dtstart.getUTCDay() + 6) % 7;
+      const sinceMonday = elapsed + weekday * DAY_MS + dtstart.getTime() % DAY_MS;
+      return Math.floor(sinceMonday / (rule.interval * 7 * DAY_MS));
+    }
+    case "MONTHLY":
+      return Math.floor(months / rule.interval);
+    case "YEARLY":
+      return Math.floor(months / (12 * rule.interval));
+  }
+}
+
+// Occurrences after DTSTART, from period `firstPeriod` on. Ends at UNTIL,
+// after MAX_PERIODS empty periods or once dates leave the Date range.
+function* occurrencesAfterStart(
+  rule: RecurrenceRule,
+  dtstart: Date,
+  firstPeriod: number,
+): Generator<Date> {
+  let emptyPeriods = 0;
+
+  for (let period = firstPeriod; emptyPeriods < MAX_PERIODS; period++) {
+    let emitted = false;
+
+    for (const time of periodCandidates(rule, dtstart, period)) {
+      if (isNaN(time.getTime())) return;
+      if (time.getTime() <= dtstart.getTime()) continue;
+      if (rule.until && time.getTime() > rule.until.getTime()) return;
+
+      emitted = true;
+      yield time;
+    }
+
+    emptyPeriods = emitted ? 0 : emptyPeriods + 1;
+  }
+}
+
+/**
+ * Iterate occurrences of a rule starting at `dtstart`.
+ * DTSTART itself is always the first occurrence.
+ */
+export function* iterateOccurrences(
+  rule: RecurrenceRule,
+  dtstart: Date,
+): Generator<{ time: Date; index: number }> {
+  let index = 0;
+
+  yield { time: dtstart, index: index++ };
+
+  for (const time of occurrencesAfterStart(rule, dtstart, 0)) {
+    if (rule.count !== undefined && index >= rule.count) return;
+    yield { time, index: index++ };
+  }
+}
+
+// Occurrence times that can fall on or after `from`. Rules without COUNT
+// skip ahead; COUNT rules have to be numbered from DTSTART.
+function* occurrencesFrom(rule: RecurrenceRule, dtstart: Date, from: Date): Generator<Date> {
+  if (rule.count !== undefined || from.getTime() <= dtstart.getTime()) {
+    for (const { time } of iterateOccurrences(rule, dtstart)) yield time;
+    return;
+  }
+  yield* occurrencesAfterStart(rule, dtstart, periodAt(rule, dtstart, from));
+}
+
+/**
+ * List occurrences within [from, to], capped at `limit`
+ */
+export function getOccurrences(
+  rule: RecurrenceRule,
+  dtstart: Date,
+  from: Date,
+  to: Date,
+  limit = 100,
+): Date[] {
+  const occurrences: Date[] = [];
+
+  for (const time of occurrencesFrom(rule, dtstart, from)) {
+    if (time.getTime() > to.getTime() || occurrences.length >= limit) break;
+    if (time.getTime() >= from.getTime()) occurrences.push(time);
+  }
+
+  return occurrences;
+}
+
+/**
+ * Find the first occurrence strictly after `after`
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  dtstart: Date,
+  after: Date,
+): { time: Date; index: number } | null {
+  for (const occurrence of iterateOccurrences(rule, dtstart)) {
+    if (occurrence.time.getTime() > after.getTime()) return occurrence;
+  }
+  return null;
+}
@@ -0,0 +1,109 @@
+// src/utils/rrule_test.ts
+import { assertEquals, assertThrows } from "@std/assert";
+import { getNextOccurrence, getOccurrences, parseRRule, RRuleError } from "./rrule.ts";
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+Deno.test("parseRRule reads the supported parts", () => {
+  assertEquals(parseRRule("RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR,MO"), {
+    freq: "WEEKLY",
+    interval: 2,
+    byDay: ["MO", "FR"],
+  });
+  assertEquals(parseRRule("freq=daily;count=3"), { freq: "DAILY", interval: 1, count: 3 });
+  assertEquals(parseRRule("FREQ=MONTHLY;UNTIL=20240131").until, new Date("2024-01-31T23:59:59Z"));
+});
+
+Deno.test("parseRRule rejects invalid rules", () => {
+  for (
+    const input of [
+      "",
+      "FREQ=HOURLY",
+      "FREQ=DAILY;INTERVAL=0",
+      "FREQ=DAILY;BYDAY=XX",
+      "FREQ=YEARLY;BYDAY=MO",
+      "FREQ=DAILY;COUNT=2;UNTIL=20240101",
+      "FREQ=DAILY;COUNT=100000",
+      "FREQ=DAILY;BYSETPOS=1",
+    ]
+  ) {
+    assertThrows(() => parseRRule(input), RRuleError);
+  }
+});
+
+Deno.test("weekly rules list the selected weekdays", () => {
+  const rule = parseRRule("FREQ=WEEKLY;BYDAY=MO,WE,FR");
+  const dtstart = new Date("2024-01-01T09:00:00Z"); // Monday
+
+  assertEquals(
+    iso(getOccurrences(
+      rule,
+      dtstart,
+      new Date("2024-01-01T00:00:00Z"),
+      new Date("2024-01-08T23:59:59Z"),
+    )),
+    [
+      "2024-01-01T09:00:00.000Z",
+      "2024-01-03T09:00:00.000Z",
+      "2024-01-05T09:00:00.000Z",
+      "2024-01-08T09:00:00.000Z",
+    ],
+  );
+});
+
+Deno.test("monthly rules skip months without the day", () => {
+  const rule = parseRRule("FREQ=MONTHLY;COUNT=4");
+  const dtstart = new Date("2024-01-31T12:00:00Z");
+
+  assertEquals(
+    iso(getOccurrences(rule, dtstart, dtstart, new Date("2025-01-01T00:00:00Z"))),
+    [
+      "2024-01-31T12:00:00.000Z",
+      "2024-03-31T12:00:00.000Z",
+      "2024-05-31T12:00:00.000Z",
+      "2024-07-31T12:00:00.000Z",
+    ],
+  );
+});
+
+Deno.test("COUNT and UNTIL end the recurrence", () => {
+  const dtstart = new Date("2024-01-01T09:00:00Z");
+
+  const counted = parseRRule("FREQ=DAILY;COUNT=2");
+  assertEquals(getNextOccurrence(counted, dtstart, dtstart)?.index, 1);
+  assertEquals(getNextOccurrence(counted, dtstart, new Date("2024-01-02T09:00:00Z")), null);
+
+  const until = parseRRule("FREQ=DAILY;UNTIL=20240103");
+  assertEquals(
+    getNextOccurrence(until, dtstart, new Date("2024-01-02T09:00:00Z"))?.time,
+    new Date("2024-01-03T09:00:00Z"),
+  );
+  assertEquals(getNextOccurrence(until, dtstart, new Date("2024-01-03T09:00:00Z")), null);
+});
+
+Deno.test("far-future windows start at the period containing from", () => {
+  const rule = parseRRule("FREQ=DAILY");
+  const dtstart = new Date("2024-01-01T09:00:00Z");
+
+  const started = performance.now();
+  const occurrences = getOccurrences(
+    rule,
+    dtstart,
+    new Date("9999-12-30T00:00:00Z"),
+    new Date("9999-12-31T23:59:59Z"),
+  );
+
+  assertEquals(iso(occurrences), ["9999-12-30T09:00:00.000Z", "9999-12-31T09:00:00.000Z"]);
+  // Iterating from DTSTART would take millions of periods
+  assertEquals(performance.now() - started < 1000, true);
+});
+
+Deno.test("iteration stops at the end of the Date range", () => {
+  const rule = parseRRule("FREQ=YEARLY");
+  const dtstart = new Date("+275000-01-01T00:00:00Z");
+
+  assertEquals(
+    getOccurrences(rule, dtstart, new Date("+275759-01-01T00:00:00Z"), new Date(8.64e15)).length,
+    2,
+  );
+});
@@ -0,0 +1,71 @@
+// src/utils/schedule.ts
+// Deterministic reset schedule calculation (all times in UTC)
+
+import type { Board } from "../types.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Weekly boards reset on Monday (ISO week start)
+export const WEEKLY_RESET_DAY = 1;
+
+/**
+ * Parse "HH:MM" into minutes since midnight, falling back to 00:00
+ */
+export function parseResetTime(resetTime: string): number {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(resetTime ?? "");
+  if (!match) return 0;
+  return parseInt(match[1]) * 60 + parseInt(match[2]);
+}
+
+/**
+ * Get the most recent reset instant at or before `now`.
+ * Returns null for "custom" boards, which are only reset manually.
+ */
+export function getPreviousReset(
+  board: Pick<Board, "schedule" | "resetTime">,
+  now: Date,
+): Date | null {
+  if (board.schedule !== "daily" && board.schedule !== "weekly") {
+    return null;
+  }
+
+  const minutes = parseResetTime(board.resetTime);
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  let reset = midnight + minutes * 60 * 1000;
+
+  if (board.schedule === "daily") {
+    if (reset > now.getTime()) reset -= DAY_MS;
+    return new Date(reset);
+  }
+
+  const daysSinceResetDay = (now.getUTCDay() - WEEKLY_RESET_DAY + 7) % 7;
+  reset -= daysSinceResetDay * DAY_MS;
+  if (reset > now.getTime()) reset -= 7 * DAY_MS;
+  return new Date(reset);
+}
+
+/**
+ * Get the next reset instant strictly after `now`
+ */
+export function getNextReset(
+  board: Pick<Board, "schedule" | "resetTime">,
+  now: Date,
+): Date | null {
+  const previous = getPreviousReset(board, now);
+  if (!previous) return null;
+
+  const period = board.schedule === "weekly" ? 7 * DAY_MS : DAY_MS;
+  return new Date(previous.getTime() + period);
+}
+
+/**
+ * Check whether a board has a reset that has not been applied yet.
+ * Returns the reset instant to apply, or null.
+ */
+export function getPendingReset(board: Board, now: Date): Date | null {
+  const previous = getPreviousReset(board, now);
+  if (!previous) return null;
+
+  const since = new Date(board.lastResetAt ?? board.createdAt).getTime();
+  return previous.getTime() > since ? previous : null;
+}
@@ -0,0 +1,87 @@
+// src/utils/schedule_test.ts
+import { assertEquals } from "@std/assert";
+import type { Board } from "../types.ts";
+import { getNextReset, getPendingReset, getPreviousReset, parseResetTime } from "./schedule.ts";
+
+function board(overrides: Partial<Board> = {}): Board {
+  return {
+    id: "b1",
+    userId: "u1",
+    title: "Daily",
+    markdown: "",
+    visibility: "private",
+    schedule: "daily",
+    resetTime: "09:00",
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+Deno.test("parseResetTime reads HH:MM and falls back to midnight", () => {
+  assertEquals(parseResetTime("00:00"), 0);
+  assertEquals(parseResetTime("09:30"), 570);
+  assertEquals(parseResetTime("23:59"), 1439);
+  assertEquals(parseResetTime("24:00"), 0);
+  assertEquals(parseResetTime("9:30"), 0);
+  assertEquals(parseResetTime("garbage"), 0);
+});
+
+Deno.test("daily boards reset at resetTime every day", () => {
+  const daily = board({ schedule: "daily", resetTime: "09:00" });
+
+  // Before today's reset the previous one was yesterday
+  assertEquals(
+    getPreviousReset(daily, new Date("2024-03-10T08:59:59Z")),
+    new Date("2024-03-09T09:00:00Z"),
+  );
+  // The reset instant itself counts as passed
+  assertEquals(
+    getPreviousReset(daily, new Date("2024-03-10T09:00:00Z")),
+    new Date("2024-03-10T09:00:00Z"),
+  );
+  assertEquals(
+    getNextReset(daily, new Date("2024-03-10T09:00:00Z")),
+    new Date("2024-03-11T09:00:00Z"),
+  );
+});
+
+Deno.test("weekly boards reset on Monday", () => {
+  const weekly = board({ schedule: "weekly", resetTime: "06:00" });
+
+  // 2024-03-13 is a Wednesday
+  assertEquals(
+    getPreviousReset(weekly, new Date("2024-03-13T12:00:00Z")),
+    new Date("2024-03-11T06:00:00Z"),
+  );
+  // Monday before the reset time still belongs to the previous week
+  assertEquals(
+    getPreviousReset(weekly, new Date("2024-03-11T05:00:00Z")),
+    new Date("2024-03-04T06:00:00Z"),
+  );
+  assertEquals(
+    getNextReset(weekly, new Date("2024-03-13T12:00:00Z")),
+    new Date("2024-03-18T06:00:00Z"),
+  );
+});
+
+Deno.test("custom boards never reset on their own", () => {
+  const custom = board({ schedule: "custom" });
+  const now = new Date("2024-03-13T12:00:00Z");
+
+  assertEquals(getPreviousReset(custom, now), null);
+  assertEquals(getNextReset(custom, now), null);
+  assertEquals(getPendingReset(custom, now), null);
+});
+
+Deno.test("getPendingReset returns a reset that has not been applied yet", () => {
+  const now = new Date("2024-03-10T12:00:00Z");
+
+  assertEquals(
+    getPendingReset(board({ lastResetAt: "2024-03-09T09:00:00.000Z" }), now),
+    new Date("2024-03-10T09:00:00Z"),
+  );
+  assertEquals(getPendingReset(board({ lastResetAt: "2024-03-10T09:00:00.000Z" }), now), null);
+  // Boards created after the last reset have nothing to catch up on
+  assertEquals(getPendingReset(board({ createdAt: "2024-03-10T10:00:00.000Z" }), now), null);
+});
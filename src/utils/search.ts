@@ -0,0 +1,322 @@
+// src/utils/search.ts
+// Full-text search over board titles, board markdown and logged task names.
+// Inverted index per board owner, so a query only reads the postings of
+// the boards the user can see:
+//   ["search_idx", ownerId, term, boardId, docId] -> true
+//   ["search_doc", boardId, docId] -> SearchDoc (the terms indexed for it)
+// docId is "board" for the board itself and the date for a day's log.
+
+import type {
+  Board,
+  Log,
+  LogTaskHit,
+  SearchResult,
+  SectionHit,
+  TaskHit,
+  TaskItem,
+  TaskSection,
+} from "../types.ts";
+import { getKV, getLog, getSharedBoardRefs } from "./kv.ts";
+import { getBoardAccess } from "./access.ts";
+import { parseTaskTree } from "./markdown.ts";
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+export const MAX_QUERY_TERMS = 8;
+
+const BOARD_DOC = "board";
+const MIN_TERM_LENGTH = 2;
+const MAX_TERM_LENGTH = 32;
+// A reindex deletes and sets at most 2 * MAX_DOC_TERMS keys in one atomic
+// operation, which Deno KV caps at 1000 mutations
+const MAX_DOC_TERMS = 400;
+const MAX_TERM_POSTINGS = 2000;
+const MAX_INDEX_ATTEMPTS = 5;
+const MAX_HITS = 20; // per list of a result
+const MAX_LOG_DOCS = 30; // most recent matching logs read per board
+const SNIPPET_LENGTH = 160;
+const SNIPPET_CONTEXT = 40; // characters kept before the first match
+
+const WORD_RE = /[\p{L}\p{N}]+/gu;
+
+export interface SearchDoc {
+  ownerId: string;
+  terms: string[];
+}
+
+/**
+ * Lowercased words of at least two letters/digits, in order of first
+ * appearance. Used for both indexed text and queries.
+ */
+export function searchTerms(text: string): string[] {
+  const terms = new Set<string>();
+  for (const [word] of text.matchAll(WORD_RE)) {
+    if (word.length < MIN_TERM_LENGTH) continue;
+    terms.add(word.toLowerCase().slice(0, MAX_TERM_LENGTH));
+  }
+  return [...terms];
+}
+
+/**
+ * Bring the index entries of one document in line with its stored value.
+ * Reads the source itself, so calls may run in any order after writes and
+ * the last one always wins; a deleted source drops the document.
+ */
+async function reindexDocument<T>(
+  ownerId: string,
+  boardId: string,
+  docId: string,
+  sourceKey: Deno.KvKey,
+  textOf: (value: T) => string,
+) {
+  const kv = getKV();
+  const docKey = ["search_doc", boardId, docId];
+
+  for (let attempt = 0; attempt < MAX_INDEX_ATTEMPTS; attempt++) {
+    const [source, indexed] = await kv.getMany<[T, SearchDoc]>([sourceKey, docKey]);
+    const terms = source.value === null
+      ? []
+      : searchTerms(textOf(source.value)).slice(0, MAX_DOC_TERMS);
+
+    const previous = new Set(indexed.value?.terms ?? []);
+    const next = new Set(terms);
+    const removed = [...previous].filter((term) => !next.has(term));
+    const added = terms.filter((term) => !previous.has(term));
+    if (removed.length === 0 && added.length === 0) return;
+
+    const op = kv.atomic().check(source, indexed);
+    for (const term of removed) {
+      op.delete(["search_idx", indexed.value!.ownerId, term, boardId, docId]);
+    }
+    for (const term of added) {
+      op.set(["search_idx", ownerId, term, boardId, docId], true);
+    }
+    if (terms.length > 0) {
+      op.set(docKey, { ownerId, terms });
+    } else {
+      op.delete(docKey);
+    }
+
+    if ((await op.commit()).ok) return;
+  }
+
+  // The next write of the document brings it up to date again
+  console.warn(`Search index of ${boardId}/${docId} was not updated`);
+}
+
+/**
+ * Reindex a board's title and markdown after it was written or deleted
+ */
+export async function indexBoard(ownerId: string, boardId: string) {
+  await reindexDocument<Board>(
+    ownerId,
+    boardId,
+    BOARD_DOC,
+    ["board", ownerId, boardId],
+    (board) => `${board.title}\n${board.markdown}`,
+  );
+}
+
+/**
+ * Reindex the task names logged on a date after the log was written or deleted
+ */
+export async function indexLog(ownerId: string, boardId: string, date: string) {
+  await reindexDocument<Log>(
+    ownerId,
+    boardId,
+    date,
+    ["log", boardId, date],
+    (log) => log.actions.map((action) => action.task ?? "").join("\n"),
+  );
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/**
+ * HTML-escaped snippet of `text` with every word that starts with one of
+ * the terms marked, or null when nothing matches. Long texts are cut to a
+ * window around the first match.
+ */
+export function highlight(text: string, terms: string[]): string | null {
+  const marks: [number, number][] = [];
+  for (const match of text.matchAll(WORD_RE)) {
+    const word = match[0].toLowerCase();
+    const term = terms.find((t) => word.startsWith(t));
+    if (!term) continue;
+    // Mark only the matched prefix, unless lowercasing changed the length
+    const length = word.length === match[0].length ? term.length : match[0].length;
+    marks.push([match.index!, match.index! + length]);
+  }
+  if (marks.length === 0) return null;
+
+  let start = 0;
+  let end = text.length;
+  if (text.length > SNIPPET_LENGTH) {
+    start = Math.max(0, marks[0][0] - SNIPPET_CONTEXT);
+    end = Math.min(text.length, start + SNIPPET_LENGTH);
+  }
+
+  let snippet = start > 0 ? "…" : "";
+  let position = start;
+  for (const [from, to] of marks) {
+    if (from < start || to > end) continue;
+    snippet += escapeHtml(text.slice(position, from)) +
+      `<mark>${escapeHtml(text.slice(from, to))}</mark>`;
+    position = to;
+  }
+  snippet += escapeHtml(text.slice(position, end)) + (end < text.length ? "…" : "");
+  return snippet;
+}
+
+// Matching documents per board: boardId -> docId -> matched query terms
+type Postings = Map<string, Map<string, Set<string>>>;
+
+/**
+ * Look up every term as a word prefix in an owner's index, keeping only
+ * `boardIds` when given (boards of that owner shared with the user)
+ */
+async function readPostings(
+  postings: Postings,
+  ownerId: string,
+  terms: string[],
+  boardIds: Set<string> | null,
+) {
+  const kv = getKV();
+
+  for (const term of terms) {
+    const iter = kv.list({
+      start: ["search_idx", ownerId, term],
+      end: ["search_idx", ownerId, term + "\uffff"],
+    }, { limit: MAX_TERM_POSTINGS });
+
+    for await (const { key } of iter) {
+      const boardId = key[3] as string;
+      const docId = key[4] as string;
+      if (boardIds && !boardIds.has(boardId)) continue;
+
+      if (!postings.has(boardId)) postings.set(boardId, new Map());
+      const docs = postings.get(boardId)!;
+      if (!docs.has(docId)) docs.set(docId, new Set());
+      docs.get(docId)!.add(term);
+    }
+  }
+}
+
+function boardHits(board: Board, terms: string[]) {
+  const sections: SectionHit[] = [];
+  const tasks: TaskHit[] = [];
+
+  const visitTasks = (items: TaskItem[], section?: string) => {
+    for (const task of items) {
+      const snippet = highlight(task.text, terms);
+      if (snippet && tasks.length < MAX_HITS) {
+        tasks.push({
+          id: task.id,
+          text: task.text,
+          checked: task.checked,
+          line: task.line,
+          ...(section && { section }),
+          snippet,
+        });
+      }
+      visitTasks(task.children, section);
+    }
+  };
+  const visitSections = (items: TaskSection[]) => {
+    for (const section of items) {
+      const snippet = highlight(section.title, terms);
+      if (snippet && sections.length < MAX_HITS) {
+        sections.push({ id: section.id, title: section.title, line: section.line, snippet });
+      }
+      visitTasks(section.tasks, section.title);
+      visitSections(section.sections);
+    }
+  };
+
+  const tree = parseTaskTree(board.markdown);
+  visitTasks(tree.tasks);
+  visitSections(tree.sections);
+  return { sections, tasks };
+}
+
+async function logHits(boardId: string, dates: string[], terms: string[]) {
+  const hits: LogTaskHit[] = [];
+
+  for (const date of dates.sort().reverse().slice(0, MAX_LOG_DOCS)) {
+    const log = (await getLog(boardId, date)) as Log | null;
+    if (!log) continue;
+
+    // The same task is usually checked many times, keep its latest action
+    const seen = new Set<string>();
+    for (const action of [...log.actions].reverse()) {
+      if (!action.task || seen.has(action.type + action.task)) continue;
+      const snippet = highlight(action.task, terms);
+      if (!snippet) continue;
+      seen.add(action.type + action.task);
+      hits.push({ date, time: action.time, type: action.type, task: action.task, snippet });
+      if (hits.length >= MAX_HITS) return hits;
+    }
+  }
+  return hits;
+}
+
+/**
+ * Search the boards a user owns or has been shared with. A board matches
+ * when every term occurs in its title, markdown or logged tasks; results
+ * list the matching sections, task lines and logged tasks.
+ */
+export async function searchBoards(
+  userId: string,
+  terms: string[],
+  limit = DEFAULT_SEARCH_LIMIT,
+): Promise<SearchResult[]> {
+  const postings: Postings = new Map();
+
+  const shared = new Map<string, Set<string>>();
+  for (const { boardId, ownerId } of await getSharedBoardRefs(userId)) {
+    if (!shared.has(ownerId)) shared.set(ownerId, new Set());
+    shared.get(ownerId)!.add(boardId);
+  }
+
+  await readPostings(postings, userId, terms, null);
+  for (const [ownerId, boardIds] of shared) {
+    await readPostings(postings, ownerId, terms, boardIds);
+  }
+
+  const results: SearchResult[] = [];
+  for (const [boardId, docs] of postings) {
+    const matched = new Set([...docs.values()].flatMap((docTerms) => [...docTerms]));
+    if (matched.size < terms.length) continue;
+
+    // The index can briefly lag behind a deletion or a removed membership
+    const access = await getBoardAccess(userId, boardId);
+    if (!access) continue;
+
+    const board = access.board;
+    const titleSnippet = highlight(board.title, terms);
+    const logDates = [...docs.keys()].filter((docId) => docId !== BOARD_DOC);
+
+    results.push({
+      boardId,
+      title: board.title,
+      role: access.role,
+      updatedAt: board.updatedAt,
+      ...(titleSnippet && { titleSnippet }),
+      ...boardHits(board, terms),
+      logs: await logHits(boardId, logDates, terms),
+    });
+  }
+
+  // Title matches first, then boards with the most hits, then most recent
+  const hitCount = (result: SearchResult) =>
+    result.sections.length + result.tasks.length + result.logs.length;
+  return results
+    .sort((a, b) =>
+      Number(!!b.titleSnippet) - Number(!!a.titleSnippet) ||
+      hitCount(b) - hitCount(a) ||
+      b.updatedAt.localeCompare(a.updatedAt)
+    )
+    .slice(0, limit);
+}
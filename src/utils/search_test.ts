@@ -0,0 +1,162 @@
+// src/utils/search_test.ts
+import { assert, assertEquals } from "@std/assert";
+import type { Board, BoardMember, BoardRole, Log } from "../types.ts";
+import { deleteBoard, getKV, initKV, setBoard, setBoardMember, setLog } from "./kv.ts";
+import { highlight, indexBoard, indexLog, searchBoards, searchTerms } from "./search.ts";
+
+function board(ownerId: string, id: string, title: string, markdown: string): Board {
+  return {
+    id,
+    userId: ownerId,
+    title,
+    markdown,
+    visibility: "private",
+    schedule: "daily",
+    resetTime: "00:00",
+    createdAt: "2024-03-01T08:00:00.000Z",
+    updatedAt: "2024-03-01T08:00:00.000Z",
+  };
+}
+
+async function saveBoard(value: Board) {
+  await setBoard(value.userId, value.id, value);
+  await indexBoard(value.userId, value.id);
+}
+
+async function share(ownerId: string, boardId: string, userId: string, role: BoardRole) {
+  const member: BoardMember = {
+    boardId,
+    userId,
+    username: userId,
+    role,
+    addedBy: ownerId,
+    addedAt: "2024-03-01T08:00:00.000Z",
+  };
+  await setBoardMember(ownerId, member);
+}
+
+// Indexed terms of one of an owner's boards, from the postings themselves
+async function indexedTerms(ownerId: string, boardId: string) {
+  const terms = [];
+  for await (const { key } of getKV().list({ prefix: ["search_idx", ownerId] })) {
+    if (key[3] === boardId) terms.push(key[2] as string);
+  }
+  return terms.sort();
+}
+
+function withKV(fn: () => Promise<void>) {
+  return async () => {
+    await initKV(":memory:");
+    try {
+      await fn();
+    } finally {
+      getKV().close();
+    }
+  };
+}
+
+Deno.test("searchTerms lowercases words of two or more letters or digits", () => {
+  assertEquals(
+    searchTerms("Morning run: 5 km, then a Stretch! morning Ünïcode 42"),
+    ["morning", "run", "km", "then", "stretch", "ünïcode", "42"],
+  );
+  assertEquals(searchTerms("a - b"), []);
+  assertEquals(searchTerms("x".repeat(40)), ["x".repeat(32)]);
+});
+
+Deno.test("highlight escapes HTML and marks matched prefixes", () => {
+  assertEquals(
+    highlight("Read <b>books</b> & reading", ["read"]),
+    "<mark>Read</mark> &#60;b&#62;books&#60;/b&#62; &#38; <mark>read</mark>ing",
+  );
+  assertEquals(
+    highlight("Run & stretch", ["run", "str"]),
+    "<mark>Run</mark> &#38; <mark>str</mark>etch",
+  );
+  // Only word starts match
+  assertEquals(highlight("Unread mail", ["read"]), null);
+});
+
+Deno.test("highlight cuts long texts to a window around the first match", () => {
+  const text = "filler ".repeat(40) + "target" + " tail".repeat(40);
+  const snippet = highlight(text, ["target"])!;
+
+  assert(snippet.startsWith("…"));
+  assert(snippet.endsWith("…"));
+  assert(snippet.includes("<mark>target</mark>"));
+  // 40 characters of context before the match, 160 in total
+  assertEquals(snippet.indexOf("<mark>"), 1 + 40);
+  assertEquals(snippet.replace(/<\/?mark>/g, "").length, 1 + 160 + 1);
+
+  // Short texts are kept whole
+  assertEquals(highlight("a short target", ["target"]), "a short <mark>target</mark>");
+});
+
+Deno.test(
+  "reindexing a board drops the terms an edit removed",
+  withKV(async () => {
+    await saveBoard(board("alice", "b1", "Morning", "- [ ] Stretch\n- [ ] Run"));
+    assertEquals(await indexedTerms("alice", "b1"), ["morning", "run", "stretch"]);
+
+    await saveBoard(board("alice", "b1", "Morning", "- [ ] Stretch\n- [ ] Swim"));
+    assertEquals(await indexedTerms("alice", "b1"), ["morning", "stretch", "swim"]);
+    assertEquals((await getKV().get(["search_doc", "b1", "board"])).value, {
+      ownerId: "alice",
+      terms: ["morning", "stretch", "swim"],
+    });
+
+    // A deleted board leaves nothing behind
+    await deleteBoard("alice", "b1");
+    await indexBoard("alice", "b1");
+    assertEquals(await indexedTerms("alice", "b1"), []);
+    assertEquals((await getKV().get(["search_doc", "b1", "board"])).value, null);
+  }),
+);
+
+Deno.test(
+  "searchBoards requires every term across title, markdown and logs",
+  withKV(async () => {
+    await saveBoard(board("alice", "b1", "Morning", "## Body\n- [ ] Stretch\n- [ ] Run"));
+    await saveBoard(board("alice", "b2", "Evening", "- [ ] Read"));
+
+    const log: Log = {
+      id: "log-1",
+      boardId: "b1",
+      userId: "alice",
+      date: "2024-03-02",
+      completedAt: "2024-03-02T07:00:00.000Z",
+      actions: [{ type: "check", task: "Cold shower", time: "2024-03-02T07:00:00.000Z" }],
+    };
+    await setLog("b1", log.date, log);
+    await indexLog("alice", "b1", log.date);
+
+    const [result] = await searchBoards("alice", ["morn", "stretch"]);
+    assertEquals(result.boardId, "b1");
+    assertEquals(result.role, "owner");
+    assertEquals(result.titleSnippet, "<mark>Morn</mark>ing");
+    assertEquals(result.tasks.map((task) => [task.text, task.section]), [["Stretch", "Body"]]);
+
+    const [logged] = await searchBoards("alice", ["run", "shower"]);
+    assertEquals(logged.logs.map((hit) => [hit.date, hit.task]), [["2024-03-02", "Cold shower"]]);
+
+    assertEquals(await searchBoards("alice", ["morning", "read"]), []);
+    assertEquals((await searchBoards("alice", ["read"])).map((r) => r.boardId), ["b2"]);
+  }),
+);
+
+Deno.test(
+  "searchBoards includes boards shared with the user and no others",
+  withKV(async () => {
+    await saveBoard(board("bob", "shared", "Team chores", "- [ ] Dishes"));
+    await saveBoard(board("bob", "private", "Bob chores", "- [ ] Laundry"));
+    await saveBoard(board("dave", "elsewhere", "Dave chores", "- [ ] Dishes"));
+    await share("bob", "shared", "alice", "viewer");
+    await share("dave", "elsewhere", "carol", "editor");
+
+    const results = await searchBoards("alice", ["chores"]);
+    assertEquals(results.map((result) => [result.boardId, result.role]), [["shared", "viewer"]]);
+
+    assertEquals(await searchBoards("alice", ["laundry"]), []);
+    assertEquals((await searchBoards("carol", ["dishes"])).map((r) => r.boardId), ["elsewhere"]);
+  }),
+);
@@ -0,0 +1,147 @@
+// src/utils/session.ts
+// Login sessions: short-lived access tokens + rotating refresh tokens
+
+import type { Context } from "https://deno.land/x/oak@v12.6.1/mod.ts";
+import type { Session, User } from "../types.ts";
+import {
+  ACCESS_TOKEN_TTL,
+  generateId,
+  generateSecret,
+  generateToken,
+  hashToken,
+  REFRESH_TOKEN_TTL,
+} from "./crypto.ts";
+import {
+  deleteSession,
+  denyTokenId,
+  getSessionEntry,
+  getSessionsByUserId,
+  getUserById,
+  replaceSession,
+  setSession,
+} from "./kv.ts";
+import { getClientIp } from "./clientIp.ts";
+
+export interface TokenPair {
+  token: string;
+  refreshToken: string;
+  expiresIn: number; // access token lifetime in seconds
+}
+
+// Refresh tokens carry the session key so no lookup index is needed
+function formatRefreshToken(userId: string, sessionId: string, secret: string) {
+  return `${userId}.${sessionId}.${secret}`;
+}
+
+function parseRefreshToken(refreshToken: string) {
+  const [userId, sessionId, secret] = refreshToken.split(".");
+  if (!userId || !sessionId || !secret) return null;
+  return { userId, sessionId, secret };
+}
+
+function refreshExpiry(): string {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL * 1000).toISOString();
+}
+
+/**
+ * Start a new session for a user and issue its first token pair
+ */
+export async function createSession(ctx: Context, user: User): Promise<TokenPair> {
+  const sessionId = generateId();
+  const secret = generateSecret();
+  const access = await generateToken(user.id, user.username, sessionId);
+  const now = new Date().toISOString();
+
+  const session: Session = {
+    id: sessionId,
+    userId: user.id,
+    userAgent: ctx.request.headers.get("user-agent") || "unknown",
+    ip: getClientIp(ctx),
+    refreshTokenHash: await hashToken(secret),
+    accessJti: access.jti,
+    accessExp: access.exp,
+    createdAt: now,
+    lastUsedAt: now,
+    expiresAt: refreshExpiry(),
+  };
+
+  await setSession(user.id, sessionId, session);
+
+  return {
+    token: access.token,
+    refreshToken: formatRefreshToken(user.id, sessionId, secret),
+    expiresIn: ACCESS_TOKEN_TTL,
+  };
+}
+
+/**
+ * Exchange a refresh token for a new token pair. The refresh token is
+ * rotated on every use; presenting an already rotated token revokes the
+ * whole session, since it means the token was copied. Of two concurrent
+ * refreshes with the same token only one succeeds, and the access token
+ * issued before the rotation is revoked.
+ */
+export async function refreshSession(
+  ctx: Context,
+  refreshToken: string,
+): Promise<TokenPair | null> {
+  const parsed = parseRefreshToken(refreshToken);
+  if (!parsed) return null;
+
+  const entry = await getSessionEntry<Session>(parsed.userId, parsed.sessionId);
+  const session = entry.value;
+  if (!session || new Date(session.expiresAt).getTime() < Date.now()) return null;
+
+  const presentedHash = await hashToken(parsed.secret);
+  if (presentedHash !== session.refreshTokenHash) {
+    if (presentedHash === session.previousRefreshTokenHash) {
+      await revokeSession(session);
+    }
+    return null;
+  }
+
+  const user = (await getUserById(session.userId)) as User | null;
+  if (!user || user.deletionRequestedAt) return null;
+
+  const secret = generateSecret();
+  const access = await generateToken(user.id, user.username, session.id);
+
+  const updated: Session = {
+    ...session,
+    refreshTokenHash: await hashToken(secret),
+    previousRefreshTokenHash: session.refreshTokenHash,
+    accessJti: access.jti,
+    accessExp: access.exp,
+    ip: getClientIp(ctx),
+    lastUsedAt: new Date().toISOString(),
+    expiresAt: refreshExpiry(),
+  };
+
+  if (!(await replaceSession(entry, updated))) return null;
+  await denyTokenId(session.accessJti, session.accessExp);
+
+  return {
+    token: access.token,
+    refreshToken: formatRefreshToken(session.userId, session.id, secret),
+    expiresIn: ACCESS_TOKEN_TTL,
+  };
+}
+
+/**
+ * End a session and revoke its current access token
+ */
+export async function revokeSession(session: Session) {
+  await deleteSession(session.userId, session.id);
+  await denyTokenId(session.accessJti, session.accessExp);
+}
+
+/**
+ * Revoke every session of a user, optionally keeping the current one
+ */
+export async function revokeAllSessions(userId: string, exceptSessionId?: string) {
+  for (const session of (await getSessionsByUserId(userId)) as Session[]) {
+    if (session.id !== exceptSessionId) {
+      await revokeSession(session);
+    }
+  }
+}
@@ -0,0 +1,17 @@
+// src/utils/settings.ts
+// Per-user settings with defaults
+
+import type { User, UserSettings } from "../types.ts";
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  revisionRetention: 50,
+};
+
+export const MAX_REVISION_RETENTION = 500;
+
+/**
+ * Merge a user's stored settings over the defaults
+ */
+export function resolveSettings(user: Pick<User, "settings"> | null): UserSettings {
+  return { ...DEFAULT_USER_SETTINGS, ...user?.settings };
+}
@@ -0,0 +1,8 @@
+// src/utils/slug.ts
+// Share slugs for public boards (/api/public/s/:slug)
+
+// Lowercase letters, digits and single dashes, e.g. "team-standup"
+export const SLUG_RE = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export const SLUG_MIN_LENGTH = 3;
+export const SLUG_MAX_LENGTH = 64;
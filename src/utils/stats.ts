@@ -0,0 +1,209 @@
+// src/utils/stats.ts
+// Completion rates, streaks, task frequency and heatmap from board logs (UTC days)
+
+import type {
+  Board,
+  BoardStats,
+  HeatmapDay,
+  Log,
+  PeriodStats,
+  StatsPeriod,
+  TaskStats,
+} from "../types.ts";
+import { flattenTasks, parseTaskTree } from "./markdown.ts";
+import { WEEKLY_RESET_DAY } from "./schedule.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export const DEFAULT_STATS_DAYS = 90;
+export const MAX_STATS_DAYS = 731;
+
+/**
+ * Parse a YYYY-MM-DD date into UTC midnight (ms), or null if invalid
+ */
+export function parseDay(value: string): number | null {
+  if (!DATE_RE.test(value)) return null;
+  const ms = Date.parse(`${value}T00:00:00Z`);
+  return isNaN(ms) ? null : ms;
+}
+
+export function formatDay(ms: number): string {
+  return new Date(ms).toISOString().split("T")[0];
+}
+
+export function getStatsPeriod(board: Pick<Board, "schedule">): StatsPeriod {
+  return board.schedule === "weekly" ? "week" : "day";
+}
+
+function periodStart(day: number, period: StatsPeriod): number {
+  if (period === "day") return day;
+  const weekday = new Date(day).getUTCDay();
+  return day - ((weekday - WEEKLY_RESET_DAY + 7) % 7) * DAY_MS;
+}
+
+function periodLength(period: StatsPeriod): number {
+  return period === "week" ? 7 * DAY_MS : DAY_MS;
+}
+
+function heatLevel(checks: number, max: number): HeatmapDay["level"] {
+  if (checks === 0 || max === 0) return 0;
+  return Math.min(4, Math.max(1, Math.ceil((checks / max) * 4))) as HeatmapDay["level"];
+}
+
+/**
+ * Streaks of consecutive "done" periods over the whole history. The
+ * current period does not break a streak until it is over.
+ */
+function computeStreaks(donePeriods: Set<number>, period: StatsPeriod, today: number) {
+  const step = periodLength(period);
+  const sorted = [...donePeriods].sort((a, b) => a - b);
+
+  let longest = 0;
+  let run = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    run = i > 0 && sorted[i] - sorted[i - 1] === step ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  let current = 0;
+  let cursor = periodStart(today, period);
+  if (!donePeriods.has(cursor)) cursor -= step;
+  while (donePeriods.has(cursor)) {
+    current++;
+    cursor -= step;
+  }
+
+  return { current, longest };
+}
+
+/**
+ * Compute statistics for a board between two YYYY-MM-DD days (inclusive).
+ * The range is clipped to the board's lifetime so days before its first
+ * activity, or in the future, do not count as missed.
+ */
+export function computeBoardStats(
+  board: Board,
+  logs: Log[],
+  from: number,
+  to: number,
+  now = new Date(),
+): BoardStats {
+  const period = getStatsPeriod(board);
+  const today = parseDay(formatDay(now.getTime()))!;
+  const end = Math.min(to, today);
+
+  // Per-day aggregates from the logs
+  const checksByDay = new Map<number, number>();
+  const doneDays = new Set<number>();
+  let lastDoneAt: string | undefined;
+
+  for (const log of logs) {
+    const day = parseDay(log.date);
+    if (day === null) continue;
+
+    for (const action of log.actions) {
+      if (action.type === "check") {
+        checksByDay.set(day, (checksByDay.get(day) ?? 0) + 1);
+      } else if (action.type === "done") {
+        doneDays.add(day);
+        const time = action.time ?? log.completedAt;
+        if (!lastDoneAt || time > lastDoneAt) lastDoneAt = time;
+      }
+    }
+  }
+
+  // Logs may predate createdAt (e.g. imported boards)
+  let firstDay = parseDay(formatDay(new Date(board.createdAt).getTime())) ?? from;
+  for (const day of [...checksByDay.keys(), ...doneDays]) {
+    firstDay = Math.min(firstDay, day);
+  }
+  const start = Math.max(from, firstDay);
+
+  const donePeriods = new Set([...doneDays].map((day) => periodStart(day, period)));
+
+  // Period series
+  const series: PeriodStats[] = [];
+  const step = periodLength(period);
+  for (let p = periodStart(start, period); p <= end; p += step) {
+    let checks = 0;
+    for (let day = p; day < p + step; day += DAY_MS) {
+      if (day >= start && day <= end) checks += checksByDay.get(day) ?? 0;
+    }
+    series.push({
+      start: formatDay(p),
+      end: formatDay(p + step - DAY_MS),
+      checks,
+      done: donePeriods.has(p),
+    });
+  }
+
+  // Heatmap, one cell per day
+  const heatmap: HeatmapDay[] = [];
+  let maxChecks = 0;
+  for (let day = start; day <= end; day += DAY_MS) {
+    maxChecks = Math.max(maxChecks, checksByDay.get(day) ?? 0);
+  }
+  for (let day = start; day <= end; day += DAY_MS) {
+    const checks = checksByDay.get(day) ?? 0;
+    heatmap.push({
+      date: formatDay(day),
+      checks,
+      done: doneDays.has(day),
+      level: heatLevel(checks, maxChecks),
+    });
+  }
+
+  // Task frequency, including tasks on the board that were never checked
+  const tasks = new Map<string, { checks: number; periods: Set<number>; last?: string }>();
+  for (const task of flattenTasks(parseTaskTree(board.markdown))) {
+    tasks.set(task.text, { checks: 0, periods: new Set() });
+  }
+
+  for (const log of logs) {
+    const day = parseDay(log.date);
+    if (day === null || day < start || day > end) continue;
+
+    for (const action of log.actions) {
+      if (action.type !== "check" || !action.task) continue;
+      const task = tasks.get(action.task) ?? { checks: 0, periods: new Set<number>() };
+      const time = action.time ?? log.completedAt;
+      task.checks++;
+      task.periods.add(periodStart(day, period));
+      if (!task.last || time > task.last) task.last = time;
+      tasks.set(action.task, task);
+    }
+  }
+
+  const taskStats: TaskStats[] = [...tasks.entries()]
+    .map(([task, { checks, periods, last }]) => ({
+      task,
+      checks,
+      periods: periods.size,
+      rate: series.length > 0 ? periods.size / series.length : 0,
+      ...(last && { lastCheckedAt: last }),
+    }))
+    .sort((a, b) => b.checks - a.checks || a.task.localeCompare(b.task));
+
+  const done = series.filter((s) => s.done).length;
+
+  return {
+    boardId: board.id,
+    schedule: board.schedule,
+    period,
+    range: { from: formatDay(from), to: formatDay(to) },
+    completion: {
+      periods: series.length,
+      active: series.filter((s) => s.checks > 0).length,
+      done,
+      rate: series.length > 0 ? done / series.length : 0,
+    },
+    streaks: {
+      ...computeStreaks(donePeriods, period, today),
+      ...(lastDoneAt && { lastDoneAt }),
+    },
+    series,
+    tasks: taskStats,
+    heatmap,
+  };
+}
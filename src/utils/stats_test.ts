@@ -0,0 +1,161 @@
+// src/utils/stats_test.ts
+import { assertEquals } from "@std/assert";
+import type { Board, Log, LogAction } from "../types.ts";
+import { computeBoardStats, parseDay } from "./stats.ts";
+
+// A Sunday; weekly periods start on Monday
+const NOW = new Date("2024-03-10T12:00:00Z");
+
+function board(overrides: Partial<Board> = {}): Board {
+  return {
+    id: "b1",
+    userId: "u1",
+    title: "Daily",
+    markdown: "- [ ] Stretch\n- [ ] Read",
+    visibility: "private",
+    schedule: "daily",
+    resetTime: "00:00",
+    createdAt: "2024-03-01T08:00:00.000Z",
+    updatedAt: "2024-03-01T08:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function log(date: string, actions: Omit<LogAction, "time">[]): Log {
+  const time = `${date}T10:00:00.000Z`;
+  return {
+    id: `log-${date}`,
+    boardId: "b1",
+    userId: "u1",
+    date,
+    completedAt: time,
+    actions: actions.map((action) => ({ ...action, time })),
+  };
+}
+
+function doneOn(...dates: string[]): Log[] {
+  return dates.map((date) => log(date, [{ type: "done" }]));
+}
+
+function stats(logs: Log[], from: string, to: string, overrides: Partial<Board> = {}, now = NOW) {
+  return computeBoardStats(board(overrides), logs, parseDay(from)!, parseDay(to)!, now);
+}
+
+Deno.test("a board without logs has no completions or streaks", () => {
+  const result = stats([], "2024-03-01", "2024-03-10");
+
+  assertEquals(result.completion, { periods: 10, active: 0, done: 0, rate: 0 });
+  assertEquals(result.streaks, { current: 0, longest: 0 });
+  assertEquals(result.heatmap.length, 10);
+  assertEquals(result.heatmap.every((day) => day.level === 0 && !day.done), true);
+  assertEquals(result.tasks.map((task) => [task.task, task.checks]), [["Read", 0], ["Stretch", 0]]);
+});
+
+Deno.test("the range is clipped to the board's lifetime", () => {
+  const result = stats([], "2024-02-20", "2024-03-20");
+
+  assertEquals(result.range, { from: "2024-02-20", to: "2024-03-20" });
+  assertEquals(result.heatmap[0].date, "2024-03-01");
+  assertEquals(result.heatmap.at(-1)!.date, "2024-03-10");
+  assertEquals(result.completion.periods, 10);
+
+  // Logs from before createdAt (e.g. an import) extend it
+  const imported = stats(doneOn("2024-02-25"), "2024-02-20", "2024-03-10");
+  assertEquals(imported.heatmap[0].date, "2024-02-25");
+  assertEquals(imported.completion.periods, 15);
+});
+
+Deno.test("completion rate and heatmap levels follow the logs", () => {
+  const logs = [
+    log("2024-03-08", [{ type: "check", task: "Read" }]),
+    log("2024-03-09", [
+      { type: "check", task: "Stretch" },
+      { type: "check", task: "Read" },
+      { type: "check", task: "Stretch" },
+      { type: "check", task: "Read" },
+      { type: "done" },
+    ]),
+  ];
+  const result = stats(logs, "2024-03-07", "2024-03-10");
+
+  assertEquals(result.completion, { periods: 4, active: 2, done: 1, rate: 0.25 });
+  assertEquals(
+    result.heatmap.map(({ date, checks, done, level }) => [date, checks, done, level]),
+    [
+      ["2024-03-07", 0, false, 0],
+      ["2024-03-08", 1, false, 1],
+      ["2024-03-09", 4, true, 4],
+      ["2024-03-10", 0, false, 0],
+    ],
+  );
+  assertEquals(result.tasks[0], {
+    task: "Read",
+    checks: 3,
+    periods: 2,
+    rate: 0.5,
+    lastCheckedAt: "2024-03-09T10:00:00.000Z",
+  });
+  assertEquals(result.streaks.lastDoneAt, "2024-03-09T10:00:00.000Z");
+});
+
+Deno.test("a gap ends a streak but keeps the longest one", () => {
+  const result = stats(
+    doneOn("2024-03-02", "2024-03-03", "2024-03-04", "2024-03-09", "2024-03-10"),
+    "2024-03-01",
+    "2024-03-10",
+  );
+
+  assertEquals(result.streaks.current, 2);
+  assertEquals(result.streaks.longest, 3);
+});
+
+Deno.test("the current streak includes today or, until today is over, yesterday", () => {
+  const throughToday = stats(
+    doneOn("2024-03-08", "2024-03-09", "2024-03-10"),
+    "2024-03-01",
+    "2024-03-10",
+  );
+  assertEquals(throughToday.streaks.current, 3);
+
+  const throughYesterday = stats(doneOn("2024-03-08", "2024-03-09"), "2024-03-01", "2024-03-10");
+  assertEquals(throughYesterday.streaks.current, 2);
+
+  const endedBefore = stats(doneOn("2024-03-07", "2024-03-08"), "2024-03-01", "2024-03-10");
+  assertEquals(endedBefore.streaks, {
+    current: 0,
+    longest: 2,
+    lastDoneAt: "2024-03-08T10:00:00.000Z",
+  });
+});
+
+Deno.test("weekly boards are counted per week starting on Monday", () => {
+  const weekly = { schedule: "weekly" as const, createdAt: "2024-02-12T08:00:00.000Z" };
+  // Done once in each of the last three weeks, twice in one of them
+  const logs = doneOn("2024-02-21", "2024-03-01", "2024-03-03", "2024-03-05");
+  const result = stats(logs, "2024-02-12", "2024-03-10", weekly);
+
+  assertEquals(result.period, "week");
+  assertEquals(
+    result.series.map(({ start, end, done }) => [start, end, done]),
+    [
+      ["2024-02-12", "2024-02-18", false],
+      ["2024-02-19", "2024-02-25", true],
+      ["2024-02-26", "2024-03-03", true],
+      ["2024-03-04", "2024-03-10", true],
+    ],
+  );
+  assertEquals(result.completion, { periods: 4, active: 0, done: 3, rate: 0.75 });
+  assertEquals(result.streaks.current, 3);
+  assertEquals(result.streaks.longest, 3);
+
+  // A new week that is not done yet does not break the streak
+  const nextWeek = stats(
+    logs,
+    "2024-02-12",
+    "2024-03-12",
+    weekly,
+    new Date("2024-03-12T12:00:00Z"),
+  );
+  assertEquals(nextWeek.streaks.current, 3);
+  assertEquals(nextWeek.completion.periods, 5);
+});
@@ -0,0 +1,34 @@
+// src/utils/streamTickets.ts
+// Short-lived, single-use tickets that open an event stream with the
+// credentials of the request that asked for them. Only a hash is stored.
+//   ["stream_ticket", ticketHash] -> StreamTicket (expires after STREAM_TICKET_TTL_MS)
+
+import type { StreamTicket } from "../types.ts";
+import { generateSecret, hashToken } from "./crypto.ts";
+import { getKV } from "./kv.ts";
+
+export const STREAM_TICKET_TTL_MS = 60 * 1000;
+
+/**
+ * Issue a ticket; the returned string is the only copy
+ */
+export async function createStreamTicket(ticket: StreamTicket): Promise<string> {
+  const secret = generateSecret();
+  await getKV().set(["stream_ticket", await hashToken(secret)], ticket, {
+    expireIn: STREAM_TICKET_TTL_MS,
+  });
+  return secret;
+}
+
+/**
+ * Use up a ticket. Returns null when it is unknown, expired or was
+ * already used, including by a concurrent request.
+ */
+export async function redeemStreamTicket(secret: string): Promise<StreamTicket | null> {
+  const kv = getKV();
+  const entry = await kv.get<StreamTicket>(["stream_ticket", await hashToken(secret)]);
+  if (!entry.value) return null;
+
+  const result = await kv.atomic().check(entry).delete(entry.key).commit();
+  return result.ok ? entry.value : null;
+}
@@ -0,0 +1,170 @@
+// src/utils/templates.ts
+// Board templates: the built-in library, user templates and placeholder
+// expansion ({{date}}, {{weekday}}, ...) at board creation time
+
+import type { Board, BoardTemplate } from "../types.ts";
+import { getTemplate } from "./kv.ts";
+
+export const MAX_TEMPLATES_PER_USER = 100;
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PLACEHOLDER_RE = /\{\{\s*([a-zA-Z]+)\s*\}\}/g;
+
+// Placeholder names and what they expand to, all in UTC like Board.resetTime
+export const TEMPLATE_PLACEHOLDERS: Record<string, string> = {
+  date: "YYYY-MM-DD",
+  weekday: "Weekday name, e.g. Monday",
+  time: "HH:MM",
+  day: "Day of the month (1-31)",
+  month: "Month name, e.g. January",
+  year: "Four-digit year",
+  week: "ISO week number (1-53)",
+  username: "Username of the user creating the board",
+};
+
+export const BUILT_IN_TEMPLATES: BoardTemplate[] = [
+  {
+    id: "daily-standup",
+    name: "Daily standup",
+    description: "Yesterday, today and blockers, reset every morning",
+    title: "Standup",
+    markdown: [
+      "# Standup {{weekday}}, {{date}}",
+      "",
+      "## Yesterday",
+      "- [ ] Share what was finished",
+      "",
+      "## Today",
+      "- [ ] Share today's focus",
+      "- [ ] Review open pull requests",
+      "",
+      "## Blockers",
+      "- [ ] Raise anything blocking progress",
+      "",
+    ].join("\n"),
+    schedule: "daily",
+    resetTime: "08:00",
+    builtIn: true,
+  },
+  {
+    id: "weekly-review",
+    name: "Weekly review",
+    description: "Look back on the week and plan the next one, reset every Monday",
+    title: "Weekly review",
+    markdown: [
+      "# Weekly review, week {{week}} {{year}}",
+      "",
+      "## Look back",
+      "- [ ] Clear inbox and notes",
+      "- [ ] Go through completed tasks",
+      "- [ ] Write down wins and lessons",
+      "",
+      "## Look ahead",
+      "- [ ] Check the calendar for next week",
+      "- [ ] Pick the top 3 priorities",
+      "",
+    ].join("\n"),
+    schedule: "weekly",
+    resetTime: "00:00",
+    builtIn: true,
+  },
+  {
+    id: "morning-routine",
+    name: "Morning routine",
+    description: "A simple daily habit checklist",
+    title: "Morning routine",
+    markdown: [
+      "# {{weekday}} {{day}} {{month}}",
+      "",
+      "- [ ] Drink a glass of water",
+      "- [ ] Stretch for 10 minutes",
+      "- [ ] Plan the day",
+      "",
+    ].join("\n"),
+    schedule: "daily",
+    resetTime: "00:00",
+    builtIn: true,
+  },
+];
+
+function isoWeek(now: Date): number {
+  // The ISO week is the week of its Thursday, counted from the first one
+  const thursday = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  thursday.setUTCDate(thursday.getUTCDate() + 4 - (thursday.getUTCDay() || 7));
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  return Math.ceil(((thursday.getTime() - yearStart) / DAY_MS + 1) / 7);
+}
+
+/**
+ * Replace {{placeholders}} with their values at `now`. Unknown
+ * placeholders are left as they are.
+ */
+export function expandPlaceholders(
+  text: string,
+  context: { now: Date; username: string },
+): string {
+  const { now, username } = context;
+  const iso = now.toISOString();
+  const values: Record<string, string> = {
+    date: iso.slice(0, 10),
+    weekday: WEEKDAYS[now.getUTCDay()],
+    time: iso.slice(11, 16),
+    day: String(now.getUTCDate()),
+    month: MONTHS[now.getUTCMonth()],
+    year: String(now.getUTCFullYear()),
+    week: String(isoWeek(now)),
+    username,
+  };
+
+  return text.replace(PLACEHOLDER_RE, (match, name: string) => values[name] ?? match);
+}
+
+type TemplateFields = Pick<Board, "title" | "markdown" | "schedule" | "resetTime">;
+
+/**
+ * Fields of a new board: the request's own values first, then the
+ * template's with placeholders expanded, then the board defaults
+ */
+export function newBoardFields(
+  input: Partial<TemplateFields>,
+  template: BoardTemplate | null,
+  context: { now: Date; username: string },
+): TemplateFields {
+  const expand = (text: string) => expandPlaceholders(text, context);
+
+  return {
+    title: input.title ?? (template ? expand(template.title) : ""),
+    markdown: input.markdown ?? (template ? expand(template.markdown) : ""),
+    schedule: input.schedule || template?.schedule || "daily",
+    resetTime: input.resetTime || template?.resetTime || "00:00",
+  };
+}
+
+/**
+ * A built-in template, or one of the user's own templates
+ */
+export async function findTemplate(
+  userId: string,
+  templateId: string,
+): Promise<BoardTemplate | null> {
+  const builtIn = BUILT_IN_TEMPLATES.find((template) => template.id === templateId);
+  if (builtIn) return builtIn;
+
+  return (await getTemplate(userId, templateId)) as BoardTemplate | null;
+}
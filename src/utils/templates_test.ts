@@ -0,0 +1,68 @@
+// src/utils/templates_test.ts
+import { assertEquals } from "@std/assert";
+import { BUILT_IN_TEMPLATES, expandPlaceholders, newBoardFields } from "./templates.ts";
+
+function expandAt(text: string, iso: string) {
+  return expandPlaceholders(text, { now: new Date(iso), username: "alice" });
+}
+
+Deno.test("date, time and name placeholders expand in UTC", () => {
+  assertEquals(
+    expandAt(
+      "{{date}} {{weekday}} {{time}}, {{day}} {{month}} {{year}} by {{username}}",
+      "2024-03-10T23:30:00Z",
+    ),
+    "2024-03-10 Sunday 23:30, 10 March 2024 by alice",
+  );
+  // Whitespace inside the braces is allowed
+  assertEquals(expandAt("{{ weekday }}", "2024-03-11T00:00:00Z"), "Monday");
+});
+
+Deno.test("week is the ISO week number around the turn of the year", () => {
+  const weekOf = (iso: string) => expandAt("{{week}}", iso);
+
+  assertEquals(weekOf("2024-03-10T12:00:00Z"), "10");
+  // 2021 starts on a Friday, so its first days belong to week 53 of 2020
+  assertEquals(weekOf("2020-12-31T12:00:00Z"), "53");
+  assertEquals(weekOf("2021-01-03T12:00:00Z"), "53");
+  assertEquals(weekOf("2021-01-04T12:00:00Z"), "1");
+  // 2023 starts on a Sunday, which closes week 52 of 2022
+  assertEquals(weekOf("2023-01-01T12:00:00Z"), "52");
+  assertEquals(weekOf("2023-01-02T12:00:00Z"), "1");
+  // The last days of 2024 already belong to week 1 of 2025
+  assertEquals(weekOf("2024-12-29T12:00:00Z"), "52");
+  assertEquals(weekOf("2024-12-30T12:00:00Z"), "1");
+});
+
+Deno.test("unknown placeholders are left intact", () => {
+  assertEquals(
+    expandAt("{{date}} {{unknown}} {{ nope }} {{}} {{date", "2024-03-10T12:00:00Z"),
+    "2024-03-10 {{unknown}} {{ nope }} {{}} {{date",
+  );
+});
+
+Deno.test("new board fields prefer the request, then the template, then defaults", () => {
+  const context = { now: new Date("2024-03-11T09:00:00Z"), username: "alice" };
+  const standup = BUILT_IN_TEMPLATES.find((template) => template.id === "daily-standup")!;
+
+  const fromTemplate = newBoardFields({}, standup, context);
+  assertEquals(fromTemplate.title, "Standup");
+  assertEquals(fromTemplate.markdown.split("\n")[0], "# Standup Monday, 2024-03-11");
+  assertEquals([fromTemplate.schedule, fromTemplate.resetTime], ["daily", "08:00"]);
+
+  const overridden = newBoardFields(
+    { title: "{{date}}", schedule: "weekly", resetTime: "07:30" },
+    standup,
+    context,
+  );
+  // The request's own text is not expanded
+  assertEquals(overridden.title, "{{date}}");
+  assertEquals([overridden.schedule, overridden.resetTime], ["weekly", "07:30"]);
+
+  assertEquals(newBoardFields({ title: "Plain", markdown: "- [ ] a" }, null, context), {
+    title: "Plain",
+    markdown: "- [ ] a",
+    schedule: "daily",
+    resetTime: "00:00",
+  });
+});
@@ -0,0 +1,391 @@
+// src/utils/transfer.ts
+// Full-account export document and its import (e.g. staging -> production)
+
+import type { Board, FieldError, Log, LogAction, Notification, User } from "../types.ts";
+import { generateId } from "./crypto.ts";
+import {
+  clearPublicBoardCache,
+  getBoardsByUserId,
+  getKV,
+  getLogsByBoardId,
+  getNotificationsByBoardId,
+} from "./kv.ts";
+import { boardKeys, deleteKeys } from "./cascade.ts";
+import { indexBoard, indexLog } from "./search.ts";
+import { NOTIFICATION_STATUSES } from "../jobs/notificationDispatcher.ts";
+import { parseRRule } from "./rrule.ts";
+import {
+  array,
+  boolean,
+  date,
+  dateTime,
+  number,
+  object,
+  oneOf,
+  optional,
+  refine,
+  string,
+  time,
+  validate,
+} from "./validation.ts";
+
+export const EXPORT_FORMAT = "markdash-export";
+export const EXPORT_VERSION = 1;
+
+// Deno KV caps one atomic operation at 800 KiB of keys and values and at
+// 1000 mutations. Sizes are estimated from the UTF-8 JSON, so stay well below.
+const MAX_BATCH_BYTES = 512 * 1024;
+const MAX_BATCH_MUTATIONS = 500;
+
+const encoder = new TextEncoder();
+
+export type ImportMode = "merge" | "replace";
+export const IMPORT_MODES: ImportMode[] = ["merge", "replace"];
+
+export interface ExportDocument {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  user: { id: string; username: string; createdAt: string };
+  boards: Board[];
+  logs: Log[];
+  notifications: Notification[];
+}
+
+export interface ImportResult {
+  mode: ImportMode;
+  boards: number;
+  logs: number;
+  notifications: number;
+  removedBoards: number;
+  boardIdMap: Record<string, string>; // exported board ID -> new board ID
+  scheduled: Notification[]; // notifications the dispatcher must pick up
+}
+
+export class ImportError extends Error {
+  constructor(
+    message: string,
+    readonly errors: FieldError[] = [{ path: "", code: "invalid_export", message }],
+  ) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+/**
+ * Collect every board the user owns (except boards in the trash), with
+ * its logs and notifications
+ */
+export async function buildExport(user: User): Promise<ExportDocument> {
+  const boards = ((await getBoardsByUserId(user.id)) as Board[])
+    .filter((board) => !board.deletedAt);
+  const logs: Log[] = [];
+  const notifications: Notification[] = [];
+
+  for (const board of boards) {
+    logs.push(...((await getLogsByBoardId(board.id)) as Log[]));
+    notifications.push(...((await getNotificationsByBoardId(board.id)) as Notification[]));
+  }
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    user: { id: user.id, username: user.username, createdAt: user.createdAt },
+    boards,
+    logs,
+    notifications,
+  };
+}
+
+// Records as they appear in a document. Fields that older exports may
+// lack are optional and get defaults; owner IDs are never imported.
+
+type ImportedBoard =
+  & Pick<Board, "id" | "title" | "markdown" | "createdAt" | "updatedAt">
+  & Partial<Pick<Board, "visibility" | "schedule" | "resetTime" | "lastResetAt" | "archivedAt">>;
+
+type ImportedLog = Pick<Log, "id" | "boardId" | "date" | "completedAt"> & {
+  // Older clients posted actions without a time
+  actions?: (Omit<LogAction, "time"> & { time?: string })[];
+};
+
+type ImportedNotification =
+  & Pick<Notification, "id" | "boardId" | "message" | "time">
+  & Partial<Omit<Notification, "id" | "boardId" | "userId" | "message" | "time">>;
+
+interface ImportDocument {
+  exportedAt?: string;
+  boards?: ImportedBoard[];
+  logs?: ImportedLog[];
+  notifications?: ImportedNotification[];
+}
+
+const count = number({ integer: true, min: 0 });
+
+const importSchema = object<ImportDocument>({
+  exportedAt: optional(dateTime()),
+  boards: optional(array(object<ImportedBoard>({
+    id: string(),
+    title: string(),
+    markdown: string({ min: 0 }),
+    visibility: optional(oneOf<Board["visibility"]>(["private", "public"])),
+    schedule: optional(oneOf<Board["schedule"]>(["daily", "weekly", "custom"])),
+    resetTime: optional(time()),
+    lastResetAt: optional(dateTime()),
+    archivedAt: optional(dateTime()),
+    createdAt: dateTime(),
+    updatedAt: dateTime(),
+  }))),
+  logs: optional(array(object<ImportedLog>({
+    id: string(),
+    boardId: string(),
+    date: date(),
+    completedAt: dateTime(),
+    actions: optional(array(object<NonNullable<ImportedLog["actions"]>[number]>({
+      type: oneOf<LogAction["type"]>(["check", "reset", "done"]),
+      task: optional(string({ min: 0 })),
+      time: optional(dateTime()),
+    }))),
+  }))),
+  notifications: optional(array(object<ImportedNotification>({
+    id: string(),
+    boardId: string(),
+    message: string(),
+    time: dateTime(),
+    dismissed: optional(boolean()),
+    status: optional(oneOf(NOTIFICATION_STATUSES)),
+    attempts: optional(count),
+    dueAt: optional(dateTime()),
+    deliveredAt: optional(dateTime()),
+    dismissedAt: optional(dateTime()),
+    rrule: optional(refine(string({ max: 500 }), (rule) => {
+      try {
+        parseRRule(rule);
+        return null;
+      } catch (err) {
+        return "is invalid: " + (err as Error).message;
+      }
+    }, "invalid_rrule")),
+    dtstart: optional(dateTime()),
+    occurrence: optional(count),
+  }))),
+});
+
+function invalid(path: string, problem: string): ImportError {
+  const message = `${path} ${problem}`;
+  return new ImportError(message, [{ path, code: "invalid_export", message }]);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check an uploaded document and normalize it to the current version.
+ * Throws ImportError with the field errors found.
+ */
+export function parseExport(input: unknown): ExportDocument {
+  if (!isObject(input) || input.format !== EXPORT_FORMAT) {
+    throw new ImportError(`Not a ${EXPORT_FORMAT} document`);
+  }
+  if (typeof input.version !== "number" || input.version < 1 || input.version > EXPORT_VERSION) {
+    throw new ImportError(`Unsupported export version ${input.version}`);
+  }
+
+  const result = validate(importSchema, input);
+  if (!result.ok) {
+    throw new ImportError(result.errors[0].message, result.errors);
+  }
+  const doc = result.value;
+
+  const boardIds = new Set<string>();
+
+  const boards = (doc.boards ?? []).map((board, i): Board => {
+    if (boardIds.has(board.id)) throw invalid(`boards[${i}].id`, "is duplicated");
+    boardIds.add(board.id);
+
+    return {
+      ...board,
+      userId: "",
+      visibility: board.visibility ?? "private",
+      schedule: board.schedule ?? "daily",
+      resetTime: board.resetTime ?? "00:00",
+    };
+  });
+
+  const checkBoardId = (boardId: string, path: string) => {
+    if (!boardIds.has(boardId)) throw invalid(path, "refers to an unknown board");
+  };
+
+  const logKeys = new Set<string>();
+
+  const logs = (doc.logs ?? []).map((log, i): Log => {
+    const path = `logs[${i}]`;
+    checkBoardId(log.boardId, `${path}.boardId`);
+    if (logKeys.has(`${log.boardId}/${log.date}`)) {
+      throw invalid(path, `duplicates the log of ${log.date}`);
+    }
+    logKeys.add(`${log.boardId}/${log.date}`);
+
+    return {
+      ...log,
+      userId: "",
+      actions: (log.actions ?? []).map((action) => ({
+        ...action,
+        time: action.time ?? log.completedAt,
+      })),
+    };
+  });
+
+  const notifications = (doc.notifications ?? []).map((notif, i): Notification => {
+    checkBoardId(notif.boardId, `notifications[${i}].boardId`);
+
+    const dismissed = notif.dismissed === true;
+    return {
+      ...notif,
+      userId: "",
+      dismissed,
+      status: notif.status ?? (dismissed ? "dismissed" : "scheduled"),
+      attempts: notif.attempts ?? 0,
+    };
+  });
+
+  const user = isObject(input.user) ? input.user : {};
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: doc.exportedAt ?? new Date().toISOString(),
+    user: {
+      id: String(user.id ?? ""),
+      username: String(user.username ?? ""),
+      createdAt: String(user.createdAt ?? ""),
+    },
+    boards,
+    logs,
+    notifications,
+  };
+}
+
+function entrySize([key, value]: [Deno.KvKey, unknown]): number {
+  return encoder.encode(JSON.stringify(key)).length +
+    encoder.encode(JSON.stringify(value)).length;
+}
+
+async function writeBatched(entries: [Deno.KvKey, unknown][]) {
+  const kv = getKV();
+  let op = kv.atomic();
+  let count = 0;
+  let bytes = 0;
+
+  const commit = async () => {
+    if (count === 0) return;
+    const result = await op.commit();
+    if (!result.ok) throw new Error("Import write was rejected");
+    op = kv.atomic();
+    count = 0;
+    bytes = 0;
+  };
+
+  for (const entry of entries) {
+    const size = entrySize(entry);
+    if (count >= MAX_BATCH_MUTATIONS || bytes + size > MAX_BATCH_BYTES) {
+      await commit();
+    }
+    op.set(entry[0], entry[1]);
+    count++;
+    bytes += size;
+  }
+  await commit();
+}
+
+async function* keysOf(entries: [Deno.KvKey, unknown][]): AsyncGenerator<Deno.KvKey> {
+  for (const [key] of entries) yield key;
+}
+
+/**
+ * Restore an export document into a user's account. Every board, log and
+ * notification gets a fresh ID so documents can be imported repeatedly and
+ * across instances. In "replace" mode the user's own boards are deleted
+ * once everything new has been written, so a failed import loses nothing;
+ * boards shared with the user are never touched.
+ */
+export async function importExport(
+  userId: string,
+  doc: ExportDocument,
+  mode: ImportMode,
+): Promise<ImportResult> {
+  const replaced = mode === "replace" ? (await getBoardsByUserId(userId)) as Board[] : [];
+
+  const boardIdMap: Record<string, string> = {};
+  for (const board of doc.boards) {
+    boardIdMap[board.id] = generateId();
+  }
+
+  const logs = doc.logs.map((log): Log => ({
+    ...log,
+    id: generateId(),
+    boardId: boardIdMap[log.boardId],
+    userId,
+  }));
+
+  const notifications = doc.notifications.map((notif): Notification => ({
+    ...notif,
+    id: generateId(),
+    boardId: boardIdMap[notif.boardId],
+    userId,
+  }));
+
+  const boards = doc.boards.map((board): Board => ({
+    ...board,
+    id: boardIdMap[board.id],
+    userId,
+  }));
+
+  // Children first, so a board never shows up with half its data
+  const children: [Deno.KvKey, unknown][] = [
+    ...logs.map((log): [Deno.KvKey, Log] => [["log", log.boardId, log.date], log]),
+    ...logs.map((log): [Deno.KvKey, string[]] => [["log_by_id", log.id], [log.boardId, log.date]]),
+    ...notifications.map((n): [Deno.KvKey, Notification] => [["notif", n.boardId, n.id], n]),
+    ...notifications.map((n): [Deno.KvKey, string] => [["notif_by_id", n.id], n.boardId]),
+  ];
+  const owners: [Deno.KvKey, unknown][] = [
+    ...boards.map((board): [Deno.KvKey, Board] => [["board", userId, board.id], board]),
+    ...boards
+      .filter((board) => board.visibility === "public")
+      .map((board): [Deno.KvKey, string] => [["public_board", board.id], userId]),
+  ];
+
+  try {
+    await writeBatched(children);
+    await writeBatched(owners);
+  } catch (err) {
+    // Take back what was written; the account stays as it was
+    await deleteKeys(keysOf([...owners, ...children]));
+    throw err;
+  }
+
+  for (const board of boards) {
+    await indexBoard(userId, board.id);
+  }
+  for (const log of logs) {
+    await indexLog(userId, log.boardId, log.date);
+  }
+
+  for (const board of replaced) {
+    await deleteKeys(boardKeys(board));
+    await getKV().delete(["board", userId, board.id]);
+    clearPublicBoardCache(board, null);
+  }
+
+  return {
+    mode,
+    boards: boards.length,
+    logs: logs.length,
+    notifications: notifications.length,
+    removedBoards: replaced.length,
+    boardIdMap,
+    scheduled: notifications.filter((n) => n.status === "scheduled"),
+  };
+}
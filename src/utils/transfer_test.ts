@@ -0,0 +1,170 @@
+// src/utils/transfer_test.ts
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import type { Board, Log } from "../types.ts";
+import { getBoardsByUserId, getKV, getLogsByBoardId, initKV, setBoard } from "./kv.ts";
+import {
+  EXPORT_FORMAT,
+  EXPORT_VERSION,
+  type ExportDocument,
+  ImportError,
+  importExport,
+  parseExport,
+} from "./transfer.ts";
+
+const board = {
+  id: "b1",
+  title: "Daily",
+  markdown: "- [ ] a",
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+};
+
+const notification = {
+  id: "n1",
+  boardId: "b1",
+  message: "Standup",
+  time: "2024-01-02T09:00:00.000Z",
+};
+
+function doc(overrides: Record<string, unknown> = {}) {
+  return { format: EXPORT_FORMAT, version: 1, boards: [board], ...overrides };
+}
+
+function importErrors(input: unknown) {
+  return (assertThrows(() => parseExport(input), ImportError) as ImportError).errors;
+}
+
+Deno.test("parseExport fills in defaults and drops unknown fields", () => {
+  const parsed = parseExport(doc({
+    notifications: [{ ...notification, userId: "someone-else", isAdmin: true }],
+  }));
+
+  assertEquals(parsed.boards[0].resetTime, "00:00");
+  assertEquals(parsed.boards[0].visibility, "private");
+  assertEquals(parsed.notifications, [{
+    ...notification,
+    userId: "",
+    dismissed: false,
+    status: "scheduled",
+    attempts: 0,
+  }]);
+});
+
+Deno.test("parseExport validates notification fields", () => {
+  const errors = importErrors(doc({
+    notifications: [{ ...notification, status: "sent", rrule: "FREQ=HOURLY", attempts: -1 }],
+  }));
+
+  assertEquals(errors.map((error) => [error.path, error.code]), [
+    ["notifications[0].status", "invalid_enum"],
+    ["notifications[0].attempts", "too_small"],
+    ["notifications[0].rrule", "invalid_rrule"],
+  ]);
+});
+
+Deno.test("parseExport validates resetTime as HH:MM", () => {
+  const errors = importErrors(doc({ boards: [{ ...board, resetTime: "9am" }] }));
+  assertEquals(errors.map((error) => [error.path, error.code]), [
+    ["boards[0].resetTime", "invalid_format"],
+  ]);
+});
+
+Deno.test("parseExport rejects references to unknown boards", () => {
+  const errors = importErrors(doc({ notifications: [{ ...notification, boardId: "b2" }] }));
+  assertEquals(errors[0].path, "notifications[0].boardId");
+  assertEquals(errors[0].code, "invalid_export");
+});
+
+function storedBoard(id: string, title: string): Board {
+  return {
+    id,
+    userId: "u1",
+    title,
+    markdown: "- [ ] a",
+    visibility: "private",
+    schedule: "daily",
+    resetTime: "00:00",
+    createdAt: "2024-03-01T08:00:00.000Z",
+    updatedAt: "2024-03-01T08:00:00.000Z",
+  };
+}
+
+// An export of one board with a log per day, each `taskLength` characters long
+function exportOf(days: number, taskLength: number): ExportDocument {
+  const logs: Log[] = Array.from({ length: days }, (_, i) => {
+    const date = new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10);
+    return {
+      id: `log-${i}`,
+      boardId: "old-id",
+      userId: "someone",
+      date,
+      completedAt: `${date}T10:00:00.000Z`,
+      actions: [{ type: "check", task: "x".repeat(taskLength), time: `${date}T10:00:00.000Z` }],
+    };
+  });
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: "2024-03-01T00:00:00.000Z",
+    user: { id: "someone", username: "someone", createdAt: "2024-01-01T00:00:00.000Z" },
+    boards: [storedBoard("old-id", "Imported")],
+    logs,
+    notifications: [],
+  };
+}
+
+function withKV(fn: () => Promise<void>) {
+  return async () => {
+    await initKV(":memory:");
+    try {
+      await fn();
+    } finally {
+      getKV().close();
+    }
+  };
+}
+
+async function titles(userId = "u1") {
+  return ((await getBoardsByUserId(userId)) as Board[]).map((b) => b.title).sort();
+}
+
+Deno.test(
+  "imports larger than one atomic operation are split by size",
+  withKV(async () => {
+    // About 1.2 MB of logs, over the 800 KiB a single atomic write takes
+    const result = await importExport("u1", exportOf(30, 40 * 1024), "merge");
+
+    assertEquals(result.logs, 30);
+    const boardId = result.boardIdMap["old-id"];
+    assertEquals(((await getLogsByBoardId(boardId)) as Log[]).length, 30);
+  }),
+);
+
+Deno.test(
+  "replace deletes the old boards after the import is written",
+  withKV(async () => {
+    await setBoard("u1", "existing", storedBoard("existing", "Existing"));
+
+    const result = await importExport("u1", exportOf(2, 10), "replace");
+    assertEquals(result.removedBoards, 1);
+    assertEquals(await titles(), ["Imported"]);
+  }),
+);
+
+Deno.test(
+  "a failed replace keeps the old boards and leaves nothing of the import",
+  withKV(async () => {
+    await setBoard("u1", "existing", storedBoard("existing", "Existing"));
+
+    // A log over the 64 KiB value limit makes the write fail
+    await assertRejects(() => importExport("u1", exportOf(3, 70 * 1024), "replace"));
+
+    assertEquals(await titles(), ["Existing"]);
+    const left = [];
+    for await (const entry of getKV().list({ prefix: [] })) {
+      if (["log", "log_by_id"].includes(entry.key[0] as string)) left.push(entry.key);
+    }
+    assertEquals(left, []);
+  }),
+);
@@ -0,0 +1,256 @@
+// src/utils/twoFactor.ts
+// TOTP two-factor authentication: enrollment with a confirm step,
+// one-time recovery codes and the login challenge between the password
+// and the code.
+//   ["two_factor", userId] -> TwoFactor
+//   ["two_factor_setup", userId] -> pending secret (expires after 10 minutes)
+//   ["login_challenge", challengeId] -> LoginChallenge (expires after 5 minutes)
+
+import type { LoginChallenge, TwoFactor, User } from "../types.ts";
+import {
+  base32Encode,
+  generateId,
+  generateSecret,
+  generateTotpSecret,
+  hashToken,
+  TOTP_DIGITS,
+  TOTP_PERIOD,
+  verifyTotp,
+} from "./crypto.ts";
+import { getKV } from "./kv.ts";
+
+export const TOTP_ISSUER = "MarkDash";
+export const RECOVERY_CODE_COUNT = 10;
+export const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+export const MAX_CHALLENGE_ATTEMPTS = 5;
+
+const SETUP_TTL_MS = 10 * 60 * 1000;
+
+export type SecondFactor = "totp" | "recovery";
+
+function otpauthUri(username: string, secret: string): string {
+  const label = `${encodeURIComponent(TOTP_ISSUER)}:${encodeURIComponent(username)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+// Recovery codes look like "k3v9-x2qa"; spaces, dashes and case are ignored
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, "");
+}
+
+async function generateRecoveryCodes(): Promise<{ codes: string[]; hashes: string[] }> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = base32Encode(crypto.getRandomValues(new Uint8Array(5))).toLowerCase();
+    return `${raw.slice(0, 4)}-${raw.slice(4)}`;
+  });
+  const hashes = await Promise.all(codes.map((code) => hashToken(normalizeRecoveryCode(code))));
+  return { codes, hashes };
+}
+
+export async function getTwoFactor(userId: string): Promise<TwoFactor | null> {
+  return (await getKV().get<TwoFactor>(["two_factor", userId])).value;
+}
+
+/**
+ * Start enrollment with a fresh secret. 2FA is only enabled once a code
+ * from the authenticator app is confirmed.
+ */
+export async function startTwoFactorSetup(user: User) {
+  const secret = generateTotpSecret();
+  await getKV().set(["two_factor_setup", user.id], secret, { expireIn: SETUP_TTL_MS });
+  return { secret, otpauthUri: otpauthUri(user.username, secret) };
+}
+
+/**
+ * Enable 2FA with the pending secret if `code` matches it.
+ * Returns the recovery codes (shown once), null for a wrong code, or
+ * "no_setup" when there is no pending setup.
+ */
+export async function confirmTwoFactorSetup(
+  userId: string,
+  code: string,
+): Promise<string[] | null | "no_setup"> {
+  const kv = getKV();
+  const [setup, userEntry] = await kv.getMany<[string, User]>([
+    ["two_factor_setup", userId],
+    ["user", userId],
+  ]);
+  if (!setup.value || !userEntry.value) return "no_setup";
+
+  const step = await verifyTotp(setup.value, code);
+  if (step === null) return null;
+
+  const { codes, hashes } = await generateRecoveryCodes();
+  const twoFactor: TwoFactor = {
+    secret: setup.value,
+    enabledAt: new Date().toISOString(),
+    lastStep: step,
+    recoveryCodeHashes: hashes,
+  };
+
+  const result = await kv.atomic()
+    .check(setup)
+    .check(userEntry)
+    .set(["two_factor", userId], twoFactor)
+    .set(userEntry.key, { ...userEntry.value, twoFactorEnabled: true })
+    .delete(setup.key)
+    .commit();
+  if (!result.ok) {
+    throw new Error("Account was changed concurrently, try again");
+  }
+
+  return codes;
+}
+
+/**
+ * Check a TOTP or recovery code and use it up. Returns which kind matched.
+ */
+export async function verifySecondFactor(
+  userId: string,
+  code: string,
+): Promise<SecondFactor | null> {
+  const kv = getKV();
+  const entry = await kv.get<TwoFactor>(["two_factor", userId]);
+  if (!entry.value) return null;
+
+  const twoFactor = entry.value;
+  const step = await verifyTotp(twoFactor.secret, code.trim(), { afterStep: twoFactor.lastStep });
+
+  let updated: TwoFactor;
+  let kind: SecondFactor;
+  if (step !== null) {
+    updated = { ...twoFactor, lastStep: step };
+    kind = "totp";
+  } else {
+    const hash = await hashToken(normalizeRecoveryCode(code));
+    if (!twoFactor.recoveryCodeHashes.includes(hash)) return null;
+    updated = {
+      ...twoFactor,
+      recoveryCodeHashes: twoFactor.recoveryCodeHashes.filter((h) => h !== hash),
+    };
+    kind = "recovery";
+  }
+
+  // A concurrent login with the same code loses here
+  const result = await kv.atomic().check(entry).set(entry.key, updated).commit();
+  return result.ok ? kind : null;
+}
+
+/**
+ * Check a recovery code and use it up, e.g. to unlock a locked account
+ */
+export async function useRecoveryCode(userId: string, code: string): Promise<boolean> {
+  const kv = getKV();
+  const entry = await kv.get<TwoFactor>(["two_factor", userId]);
+  if (!entry.value) return false;
+
+  const hash = await hashToken(normalizeRecoveryCode(code));
+  const { recoveryCodeHashes } = entry.value;
+  if (!recoveryCodeHashes.includes(hash)) return false;
+
+  const result = await kv.atomic()
+    .check(entry)
+    .set(entry.key, {
+      ...entry.value,
+      recoveryCodeHashes: recoveryCodeHashes.filter((h) => h !== hash),
+    })
+    .commit();
+  return result.ok;
+}
+
+/**
+ * Replace all recovery codes with new ones (shown once)
+ */
+export async function regenerateRecoveryCodes(userId: string): Promise<string[] | null> {
+  const kv = getKV();
+  const entry = await kv.get<TwoFactor>(["two_factor", userId]);
+  if (!entry.value) return null;
+
+  const { codes, hashes } = await generateRecoveryCodes();
+  const result = await kv.atomic()
+    .check(entry)
+    .set(entry.key, { ...entry.value, recoveryCodeHashes: hashes })
+    .commit();
+  return result.ok ? codes : null;
+}
+
+export async function disableTwoFactor(userId: string) {
+  const kv = getKV();
+  const userEntry = await kv.get<User>(["user", userId]);
+  if (!userEntry.value) return;
+
+  const { twoFactorEnabled: _, ...user } = userEntry.value;
+  const result = await kv.atomic()
+    .check(userEntry)
+    .set(userEntry.key, user)
+    .delete(["two_factor", userId])
+    .delete(["two_factor_setup", userId])
+    .commit();
+  if (!result.ok) {
+    throw new Error("Account was changed concurrently, try again");
+  }
+}
+
+/**
+ * Issue the challenge token exchanged at POST /api/login/2fa:
+ * "<challengeId>.<secret>", of which only a hash is stored
+ */
+export async function createLoginChallenge(
+  userId: string,
+): Promise<{ challengeToken: string; expiresIn: number }> {
+  const id = generateId();
+  const secret = generateSecret();
+  const challenge: LoginChallenge = {
+    id,
+    userId,
+    secretHash: await hashToken(secret),
+    attempts: 0,
+    expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS).toISOString(),
+  };
+
+  await getKV().set(["login_challenge", id], challenge, { expireIn: CHALLENGE_TTL_MS });
+  return { challengeToken: `${id}.${secret}`, expiresIn: CHALLENGE_TTL_MS / 1000 };
+}
+
+/**
+ * The challenge for a presented challenge token, if valid and not expired
+ */
+export async function getLoginChallenge(challengeToken: string): Promise<LoginChallenge | null> {
+  const [id, secret] = challengeToken.split(".");
+  if (!id || !secret) return null;
+
+  const challenge = (await getKV().get<LoginChallenge>(["login_challenge", id])).value;
+  if (!challenge || new Date(challenge.expiresAt).getTime() <= Date.now()) return null;
+
+  return (await hashToken(secret)) === challenge.secretHash ? challenge : null;
+}
+
+/**
+ * Count a wrong code; the challenge is dropped after too many
+ */
+export async function failLoginChallenge(challengeId: string) {
+  const kv = getKV();
+  const entry = await kv.get<LoginChallenge>(["login_challenge", challengeId]);
+  if (!entry.value) return;
+
+  const attempts = entry.value.attempts + 1;
+  if (attempts >= MAX_CHALLENGE_ATTEMPTS) {
+    await kv.atomic().check(entry).delete(entry.key).commit();
+    return;
+  }
+
+  const expireIn = Math.max(new Date(entry.value.expiresAt).getTime() - Date.now(), 1000);
+  await kv.atomic().check(entry).set(entry.key, { ...entry.value, attempts }, { expireIn })
+    .commit();
+}
+
+export async function deleteLoginChallenge(challengeId: string) {
+  await getKV().delete(["login_challenge", challengeId]);
+}
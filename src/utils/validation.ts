@@ -0,0 +1,352 @@
+// src/utils/validation.ts
+// Declarative request schemas. A schema checks an unknown value, collects
+// every field error (path + machine-readable code) and returns the
+// cleaned value. `object<T>()` is typed against an interface, so schemas
+// stay in sync with types.ts. Every schema also carries its JSON Schema,
+// which the OpenAPI document is generated from.
+
+import type { FieldError } from "../types.ts";
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface Schema<T> {
+  validate(value: unknown, path: string, errors: FieldError[]): T;
+  json: JsonSchema;
+  optional?: boolean; // field may be left out of an object
+}
+
+export type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: FieldError[] };
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function fail<T>(errors: FieldError[], path: string, code: string, message: string): T {
+  errors.push({ path, code, message });
+  return undefined as T;
+}
+
+function describe(path: string): string {
+  return path || "Body";
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+/**
+ * Run a schema against a value
+ */
+export function validate<T>(schema: Schema<T>, value: unknown): ValidationResult<T> {
+  const errors: FieldError[] = [];
+  const result = schema.validate(value, "", errors);
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: result };
+}
+
+export function string(options: {
+  min?: number;
+  max?: number;
+  pattern?: RegExp;
+  patternMessage?: string;
+  trim?: boolean;
+} = {}): Schema<string> {
+  const { min = 1, max, pattern, patternMessage, trim = false } = options;
+
+  return {
+    json: {
+      type: "string",
+      ...(min > 0 && { minLength: min }),
+      ...(max !== undefined && { maxLength: max }),
+      ...(pattern && { pattern: pattern.source }),
+    },
+    validate(value, path, errors) {
+      if (value === undefined || value === null) {
+        return fail(errors, path, "required", `${describe(path)} is required`);
+      }
+      if (typeof value !== "string") {
+        return fail(errors, path, "invalid_type", `${describe(path)} must be a string`);
+      }
+
+      const text = trim ? value.trim() : value;
+      if (text.length < min) {
+        return min === 1
+          ? fail(errors, path, "required", `${describe(path)} must not be empty`)
+          : fail(errors, path, "too_short", `${describe(path)} must be at least ${min} characters`);
+      }
+      if (max !== undefined && text.length > max) {
+        return fail(
+          errors,
+          path,
+          "too_long",
+          `${describe(path)} must be at most ${max} characters`,
+        );
+      }
+      if (pattern && !pattern.test(text)) {
+        return fail(
+          errors,
+          path,
+          "invalid_format",
+          patternMessage ?? `${describe(path)} has an invalid format`,
+        );
+      }
+      return text;
+    },
+  };
+}
+
+export function number(options: {
+  integer?: boolean;
+  min?: number;
+  max?: number;
+  coerce?: boolean; // accept numeric strings, e.g. query parameters
+} = {}): Schema<number> {
+  const { integer = false, min, max, coerce = false } = options;
+
+  return {
+    json: {
+      type: integer ? "integer" : "number",
+      ...(min !== undefined && { minimum: min }),
+      ...(max !== undefined && { maximum: max }),
+    },
+    validate(value, path, errors) {
+      if (value === undefined || value === null) {
+        return fail(errors, path, "required", `${describe(path)} is required`);
+      }
+      if (coerce && typeof value === "string" && value.trim() !== "") {
+        value = Number(value);
+      }
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return fail(errors, path, "invalid_type", `${describe(path)} must be a number`);
+      }
+      if (integer && !Number.isInteger(value)) {
+        return fail(errors, path, "invalid_type", `${describe(path)} must be an integer`);
+      }
+      if (min !== undefined && value < min) {
+        return fail(errors, path, "too_small", `${describe(path)} must be at least ${min}`);
+      }
+      if (max !== undefined && value > max) {
+        return fail(errors, path, "too_big", `${describe(path)} must be at most ${max}`);
+      }
+      return value;
+    },
+  };
+}
+
+export function boolean(options: {
+  coerce?: boolean; // accept "true" / "false", e.g. query parameters
+} = {}): Schema<boolean> {
+  const { coerce = false } = options;
+
+  return {
+    json: { type: "boolean" },
+    validate(value, path, errors) {
+      if (value === undefined || value === null) {
+        return fail(errors, path, "required", `${describe(path)} is required`);
+      }
+      if (coerce && (value === "true" || value === "false")) {
+        value = value === "true";
+      }
+      if (typeof value !== "boolean") {
+        return fail(errors, path, "invalid_type", `${describe(path)} must be a boolean`);
+      }
+      return value;
+    },
+  };
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    json: { type: "string", enum: [...values] },
+    validate(value, path, errors) {
+      if (value === undefined || value === null) {
+        return fail(errors, path, "required", `${describe(path)} is required`);
+      }
+      if (!values.includes(value as T)) {
+        return fail(
+          errors,
+          path,
+          "invalid_enum",
+          `${describe(path)} must be one of: ${values.join(", ")}`,
+        );
+      }
+      return value as T;
+    },
+  };
+}
+
+/**
+ * Calendar date in YYYY-MM-DD format
+ */
+export function date(): Schema<string> {
+  const schema = refine(string(), (value) => {
+    const ms = Date.parse(`${value}T00:00:00Z`);
+    return DATE_RE.test(value) && !isNaN(ms) && new Date(ms).toISOString().startsWith(value)
+      ? null
+      : "must be a date in YYYY-MM-DD format";
+  });
+  return { ...schema, json: { type: "string", format: "date" } };
+}
+
+/**
+ * Time of day in HH:MM (24h) format
+ */
+export function time(): Schema<string> {
+  const schema = refine(
+    string(),
+    (value) => TIME_RE.test(value) ? null : "must be a time in HH:MM format",
+  );
+  return { ...schema, json: { type: "string", pattern: TIME_RE.source } };
+}
+
+/**
+ * Any date-time Date.parse understands, typically ISO 8601
+ */
+export function dateTime(): Schema<string> {
+  const schema = refine(
+    string(),
+    (value) => isNaN(Date.parse(value)) ? "must be a valid ISO 8601 date" : null,
+  );
+  return { ...schema, json: { type: "string", format: "date-time" } };
+}
+
+export function array<T>(
+  item: Schema<T>,
+  options: { min?: number; max?: number } = {},
+): Schema<T[]> {
+  const { min = 0, max } = options;
+
+  return {
+    json: {
+      type: "array",
+      items: item.json,
+      ...(min > 0 && { minItems: min }),
+      ...(max !== undefined && { maxItems: max }),
+    },
+    validate(value, path, errors) {
+      if (value === undefined || value === null) {
+        return fail(errors, path, "required", `${describe(path)} is required`);
+      }
+      if (!Array.isArray(value)) {
+        return fail(errors, path, "invalid_type", `${describe(path)} must be an array`);
+      }
+      if (value.length < min) {
+        return fail(
+          errors,
+          path,
+          "too_short",
+          `${describe(path)} must have at least ${min} item(s)`,
+        );
+      }
+      if (max !== undefined && value.length > max) {
+        return fail(errors, path, "too_long", `${describe(path)} must have at most ${max} items`);
+      }
+      return value.map((entry, i) => item.validate(entry, `${path}[${i}]`, errors));
+    },
+  };
+}
+
+/**
+ * Object with a fixed set of fields. Unknown fields are dropped.
+ */
+export function object<T>(shape: Shape<T>): Schema<T> {
+  const keys = Object.keys(shape) as (keyof T & string)[];
+  const properties: Record<string, JsonSchema> = {};
+  for (const key of keys) properties[key] = shape[key].json;
+  const required = keys.filter((key) => !shape[key].optional);
+
+  return {
+    json: {
+      type: "object",
+      properties,
+      ...(required.length > 0 && { required }),
+    },
+    validate(value, path, errors) {
+      if (value === undefined || value === null) {
+        return fail(errors, path, "required", `${describe(path)} is required`);
+      }
+      if (typeOf(value) !== "object") {
+        return fail(errors, path, "invalid_type", `${describe(path)} must be an object`);
+      }
+
+      const input = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+
+      for (const key of keys) {
+        const fieldPath = path ? `${path}.${key}` : key;
+        const parsed = shape[key].validate(input[key], fieldPath, errors);
+        if (parsed !== undefined) result[key] = parsed;
+      }
+
+      return result as T;
+    },
+  };
+}
+
+/**
+ * Allow the field to be missing
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    json: schema.json,
+    optional: true,
+    validate(value, path, errors) {
+      return value === undefined ? undefined : schema.validate(value, path, errors);
+    },
+  };
+}
+
+/**
+ * Allow an explicit null (e.g. to clear a field)
+ */
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    json: { anyOf: [schema.json, { type: "null" }] },
+    optional: schema.optional,
+    validate(value, path, errors) {
+      return value === null ? null : schema.validate(value, path, errors);
+    },
+  };
+}
+
+/**
+ * Accept a value matching either schema (e.g. alternative response shapes).
+ * Errors are reported against the second schema.
+ */
+export function anyOf<A, B>(first: Schema<A>, second: Schema<B>): Schema<A | B> {
+  return {
+    json: { anyOf: [first.json, second.json] },
+    validate(value, path, errors) {
+      const attempt: FieldError[] = [];
+      const parsed = first.validate(value, path, attempt);
+      return attempt.length === 0 ? parsed : second.validate(value, path, errors);
+    },
+  };
+}
+
+/**
+ * Add a custom check to a schema. `check` returns an error message
+ * (appended to the field name) or null.
+ */
+export function refine<T>(
+  schema: Schema<T>,
+  check: (value: T) => string | null,
+  code = "invalid_format",
+): Schema<T> {
+  return {
+    json: schema.json,
+    optional: schema.optional,
+    validate(value, path, errors) {
+      const before = errors.length;
+      const parsed = schema.validate(value, path, errors);
+      if (errors.length > before) return parsed;
+
+      const problem = check(parsed);
+      return problem ? fail(errors, path, code, `${describe(path)} ${problem}`) : parsed;
+    },
+  };
+}
@@ -0,0 +1,130 @@
+// src/utils/validation_test.ts
+import { assertEquals } from "@std/assert";
+import type { FieldError } from "../types.ts";
+import {
+  array,
+  date,
+  number,
+  object,
+  oneOf,
+  optional,
+  refine,
+  string,
+  time,
+  validate,
+} from "./validation.ts";
+
+interface LogInput {
+  date: string;
+  note?: string;
+  actions: { type: "check" | "done"; task?: string }[];
+}
+
+const logSchema = object<LogInput>({
+  date: date(),
+  note: optional(string({ max: 10 })),
+  actions: array(
+    object<LogInput["actions"][number]>({
+      type: oneOf(["check", "done"]),
+      task: optional(string()),
+    }),
+    { min: 1 },
+  ),
+});
+
+function errorsOf(value: unknown): Pick<FieldError, "path" | "code">[] {
+  const result = validate(logSchema, value);
+  return result.ok ? [] : result.errors.map(({ path, code }) => ({ path, code }));
+}
+
+Deno.test("a valid object is returned with its fields", () => {
+  const input: LogInput = {
+    date: "2024-03-10",
+    actions: [{ type: "check", task: "Read" }, { type: "done" }],
+  };
+  assertEquals(validate(logSchema, input), { ok: true, value: input });
+});
+
+Deno.test("unknown fields are dropped, nested ones too", () => {
+  const result = validate(logSchema, {
+    date: "2024-03-10",
+    userId: "someone-else",
+    actions: [{ type: "done", admin: true }],
+  });
+  assertEquals(result, { ok: true, value: { date: "2024-03-10", actions: [{ type: "done" }] } });
+});
+
+Deno.test("optional fields may be left out but not be invalid", () => {
+  const base = { date: "2024-03-10", actions: [{ type: "done" }] };
+  assertEquals(errorsOf(base), []);
+  assertEquals(errorsOf({ ...base, note: undefined }), []);
+  assertEquals(errorsOf({ ...base, note: "far too long for this" }), [
+    { path: "note", code: "too_long" },
+  ]);
+  // null is not the same as leaving the field out
+  assertEquals(errorsOf({ ...base, note: null }), [{ path: "note", code: "required" }]);
+});
+
+Deno.test("every error is reported with its path", () => {
+  assertEquals(
+    errorsOf({
+      date: "2024-02-30",
+      actions: [{ type: "done" }, { type: "skip", task: 5 }, "check"],
+    }),
+    [
+      { path: "date", code: "invalid_format" },
+      { path: "actions[1].type", code: "invalid_enum" },
+      { path: "actions[1].task", code: "invalid_type" },
+      { path: "actions[2]", code: "invalid_type" },
+    ],
+  );
+
+  const result = validate(logSchema, { date: "2024-03-10", actions: [{ type: "reset" }] });
+  assertEquals(result.ok ? [] : result.errors, [{
+    path: "actions[0].type",
+    code: "invalid_enum",
+    message: "actions[0].type must be one of: check, done",
+  }]);
+});
+
+Deno.test("objects and arrays check their own type and size", () => {
+  assertEquals(errorsOf(undefined), [{ path: "", code: "required" }]);
+  assertEquals(errorsOf([]), [{ path: "", code: "invalid_type" }]);
+  assertEquals(errorsOf("text"), [{ path: "", code: "invalid_type" }]);
+  assertEquals(errorsOf({ date: "2024-03-10", actions: [] }), [
+    { path: "actions", code: "too_short" },
+  ]);
+  assertEquals(errorsOf({ date: "2024-03-10", actions: {} }), [
+    { path: "actions", code: "invalid_type" },
+  ]);
+
+  const body = validate(object({ title: string() }), null);
+  assertEquals(body.ok ? [] : body.errors.map((error) => error.message), ["Body is required"]);
+});
+
+Deno.test("refine runs only after the base schema passes", () => {
+  const even = refine(number({ integer: true }), (n) => n % 2 === 0 ? null : "must be even", "odd");
+
+  assertEquals(validate(even, 4), { ok: true, value: 4 });
+  assertEquals(validate(even, 3), {
+    ok: false,
+    errors: [{ path: "", code: "odd", message: "Body must be even" }],
+  });
+  assertEquals(
+    validate(object({ count: even }), { count: 1.5 }),
+    {
+      ok: false,
+      errors: [{ path: "count", code: "invalid_type", message: "count must be an integer" }],
+    },
+  );
+});
+
+Deno.test("scalar schemas coerce and trim only when asked", () => {
+  assertEquals(validate(number({ coerce: true, min: 1 }), "12"), { ok: true, value: 12 });
+  assertEquals(validate(number(), "12").ok, false);
+  assertEquals(validate(number({ coerce: true }), " ").ok, false);
+  assertEquals(validate(string({ trim: true }), "  hi "), { ok: true, value: "hi" });
+  assertEquals(validate(string({ trim: true }), "   ").ok, false);
+  assertEquals(validate(time(), "23:59").ok, true);
+  assertEquals(validate(time(), "24:00").ok, false);
+});
@@ -0,0 +1,243 @@
+// src/utils/webhooks.ts
+// Outgoing webhook subscriptions per board and their delivery log.
+//   ["webhook", boardId, webhookId] -> Webhook
+//   ["webhook_delivery", webhookId, createdAt, deliveryId] -> WebhookDelivery
+//     (expires after DELIVERY_RETENTION_DAYS)
+
+import type { Page, Webhook, WebhookDelivery, WebhookEvent } from "../types.ts";
+import { generateId, generateSecret } from "./crypto.ts";
+import { getKV } from "./kv.ts";
+import { listPage } from "./pagination.ts";
+
+// Events a webhook can subscribe to; "ping" is only sent on request
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  "log.action.check",
+  "log.action.reset",
+  "log.action.done",
+  "board.updated",
+  "board.deleted",
+  "notification.due",
+];
+
+export const MAX_WEBHOOKS_PER_BOARD = 10;
+export const DELIVERY_RETENTION_DAYS = 7;
+
+const DELIVERY_RETENTION_MS = DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+// Local receivers (e.g. http://localhost:9000) are only allowed with
+// WEBHOOK_ALLOW_LOCAL=true, so webhooks cannot probe the server's network
+const allowLocal = Deno.env.get("WEBHOOK_ALLOW_LOCAL") === "true";
+
+// Loopback, private and link-local host names and address literals. Other
+// names are resolved before each delivery (see checkWebhookTarget).
+function isLocalHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (
+    host === "localhost" || host.endsWith(".localhost") ||
+    host.endsWith(".local") || host.endsWith(".internal")
+  ) {
+    return true;
+  }
+
+  // URL() has already normalized forms like "0x7f.1" to dotted decimal
+  const ipv4 = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+    return a === 0 || a === 10 || a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168);
+  }
+
+  if (host.includes(":")) {
+    return host === "::" || host === "::1" || host.startsWith("::ffff:") ||
+      /^f[cd]/.test(host) || host.startsWith("fe80:");
+  }
+
+  return false;
+}
+
+/**
+ * Why `value` cannot be used as a webhook URL, or null if it can
+ */
+export function checkWebhookUrl(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return "must be an absolute URL";
+  }
+
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return "must be an http or https URL";
+  }
+  if (url.username || url.password) {
+    return "must not contain credentials";
+  }
+  if (!allowLocal && isLocalHost(url.hostname)) {
+    return "must not point to a local or private address";
+  }
+  return null;
+}
+
+function isAddressLiteral(host: string): boolean {
+  return /^\d+\.\d+\.\d+\.\d+$/.test(host) || host.includes(":");
+}
+
+/**
+ * Why a delivery to `value` has to be refused right now, or null if it can
+ * be sent. Unlike checkWebhookUrl this resolves the host name, so a name
+ * that points (or was re-pointed) at a local or private address is refused
+ * like the address itself.
+ */
+export async function checkWebhookTarget(value: string): Promise<string | null> {
+  const problem = checkWebhookUrl(value);
+  if (problem || allowLocal) return problem;
+
+  const host = new URL(value).hostname.replace(/^\[|\]$/g, "");
+  if (isAddressLiteral(host)) return null;
+
+  // Names that don't resolve are left to fetch, which reports the DNS error
+  const addresses = await Promise.all(
+    (["A", "AAAA"] as const).map((type) => Deno.resolveDns(host, type).catch(() => [])),
+  );
+  return addresses.flat().some(isLocalHost)
+    ? "must not resolve to a local or private address"
+    : null;
+}
+
+/**
+ * Signature of a delivery: hex HMAC-SHA256 of "<timestamp>.<body>"
+ * with the webhook's secret
+ */
+export async function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`));
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export async function getWebhook(boardId: string, webhookId: string): Promise<Webhook | null> {
+  return (await getKV().get<Webhook>(["webhook", boardId, webhookId])).value;
+}
+
+export async function getWebhooksByBoardId(boardId: string): Promise<Webhook[]> {
+  const webhooks: Webhook[] = [];
+  for await (const entry of getKV().list<Webhook>({ prefix: ["webhook", boardId] })) {
+    webhooks.push(entry.value);
+  }
+  return webhooks;
+}
+
+export async function setWebhook(webhook: Webhook) {
+  await getKV().set(["webhook", webhook.boardId, webhook.id], webhook);
+}
+
+/**
+ * Create a subscription with a fresh signing secret
+ */
+export async function createWebhook(
+  boardId: string,
+  userId: string,
+  input: { url: string; events: WebhookEvent[]; active?: boolean },
+): Promise<Webhook> {
+  const now = new Date().toISOString();
+  const webhook: Webhook = {
+    id: generateId(),
+    boardId,
+    userId,
+    url: input.url,
+    // Stored in a fixed order without duplicates
+    events: WEBHOOK_EVENTS.filter((event) => input.events.includes(event)),
+    secret: `whsec_${generateSecret()}`,
+    active: input.active ?? true,
+    failedDeliveries: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await setWebhook(webhook);
+  return webhook;
+}
+
+/**
+ * Read-modify-write a webhook. Returns null once it no longer exists.
+ */
+export async function updateWebhook(
+  boardId: string,
+  webhookId: string,
+  apply: (webhook: Webhook) => Webhook,
+): Promise<Webhook | null> {
+  const kv = getKV();
+  const key = ["webhook", boardId, webhookId];
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const entry = await kv.get<Webhook>(key);
+    if (!entry.value) return null;
+
+    const next = apply(entry.value);
+    const result = await kv.atomic().check(entry).set(key, next).commit();
+    if (result.ok) return next;
+  }
+
+  throw new Error("Webhook was changed concurrently, try again");
+}
+
+/**
+ * Add a delivery to a webhook's log
+ */
+export async function createDelivery(
+  webhookId: string,
+  event: WebhookEvent,
+  payload: string,
+  id = generateId(),
+): Promise<WebhookDelivery> {
+  const now = new Date().toISOString();
+  const delivery: WebhookDelivery = {
+    id,
+    webhookId,
+    event,
+    payload,
+    status: "pending",
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await getKV().set(deliveryKey(delivery), delivery, { expireIn: DELIVERY_RETENTION_MS });
+  return delivery;
+}
+
+export function deliveryKey(delivery: Pick<WebhookDelivery, "webhookId" | "createdAt" | "id">) {
+  return ["webhook_delivery", delivery.webhookId, delivery.createdAt, delivery.id];
+}
+
+// Updates keep the delivery's original expiry
+export function deliveryExpireIn(delivery: Pick<WebhookDelivery, "createdAt">): number {
+  const expiresAt = new Date(delivery.createdAt).getTime() + DELIVERY_RETENTION_MS;
+  return Math.max(expiresAt - Date.now(), 1000);
+}
+
+/**
+ * One page of a webhook's delivery log in time order
+ */
+export async function getDeliveriesPage(webhookId: string, options: {
+  limit: number;
+  cursor?: string;
+  reverse?: boolean;
+}): Promise<Page<WebhookDelivery>> {
+  return await listPage(getKV(), { prefix: ["webhook_delivery", webhookId] }, options);
+}